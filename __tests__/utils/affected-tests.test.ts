@@ -0,0 +1,93 @@
+/**
+ * Affected Test Selection Tests
+ *
+ * A missed import edge means a changed file's tests are skipped, so every
+ * way a file can reach another one has to end up in the graph
+ */
+
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { dirname, join } from 'path'
+import { buildDependencyGraph, extractImportSpecifiers, findAffectedTests } from './affected-tests'
+
+const createGraph = (edges: Record<string, string[]>) =>
+  new Map(Object.entries(edges).map(([file, dependencies]) => [file, new Set(dependencies)]))
+
+describe('extractImportSpecifiers', () => {
+  it('should find imports, re-exports, require, dynamic import and jest module paths', () => {
+    const source = [
+      "import { send } from './wallet'",
+      "import type { Account } from '@/lib/accounts'",
+      "export * from './format'",
+      "const config = require('../config')",
+      "const screen = () => import('src/screens/Home')",
+      "jest.mock('@/services/rpc')",
+      "const actual = jest.requireActual('./storage')",
+      "const label = t('not-a-module')",
+    ].join('\n')
+
+    expect(extractImportSpecifiers(source, 'src/send.test.ts').sort()).toEqual([
+      '../config',
+      './format',
+      './storage',
+      './wallet',
+      '@/lib/accounts',
+      '@/services/rpc',
+      'src/screens/Home',
+    ])
+  })
+})
+
+describe('findAffectedTests', () => {
+  it('should record the shortest import chain from each test to the change', () => {
+    const graph = createGraph({
+      'src/Home.test.tsx': ['src/Home.tsx'],
+      'src/Home.tsx': ['src/hooks/useBalance.ts', 'src/lib/format.ts'],
+      'src/hooks/useBalance.ts': ['src/lib/format.ts'],
+      'src/lib/format.ts': [],
+    })
+
+    expect(findAffectedTests(graph, ['src/lib/format.ts'])).toEqual([{
+      testFile: 'src/Home.test.tsx',
+      changedFile: 'src/lib/format.ts',
+      chain: ['src/Home.test.tsx', 'src/Home.tsx', 'src/lib/format.ts'],
+    }])
+  })
+
+  it('should select a changed test file by itself and survive import cycles', () => {
+    const graph = createGraph({
+      'src/a.test.ts': ['src/a.ts'],
+      'src/a.ts': ['src/b.ts'],
+      'src/b.ts': ['src/a.ts'],
+      'src/c.test.ts': ['src/c.ts'],
+    })
+
+    expect(findAffectedTests(graph, ['src/b.ts', 'src/c.test.ts']).map(test => test.chain)).toEqual([
+      ['src/a.test.ts', 'src/a.ts', 'src/b.ts'],
+      ['src/c.test.ts'],
+    ])
+  })
+})
+
+describe('buildDependencyGraph', () => {
+  it('should keep the edge to a deleted file that is still imported', () => {
+    const root = mkdtempSync(join(tmpdir(), 'affected-'))
+    const write = (file: string, source: string) => {
+      mkdirSync(dirname(join(root, file)), { recursive: true })
+      writeFileSync(join(root, file), source)
+    }
+
+    try {
+      write('src/wallet.test.ts', "import { send } from './send'")
+      write('src/send.ts', "import { sign } from '@/lib/sign'")
+
+      const config = { moduleNameMapper: { '^@/lib/(.*)$': '<rootDir>/src/lib/$1' } }
+      const graph = buildDependencyGraph(config, root, ['src/lib/sign.ts'])
+
+      expect(Array.from(graph.get('src/send.ts')!)).toEqual(['src/lib/sign.ts'])
+      expect(findAffectedTests(graph, ['src/lib/sign.ts']).map(test => test.testFile)).toEqual(['src/wallet.test.ts'])
+    } finally {
+      rmSync(root, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,281 @@
+/**
+ * Affected Test Selection
+ *
+ * Maps files changed since a git ref to the test files that depend on them,
+ * following imports, `jest.mock` paths and the Jest config's moduleNameMapper
+ * aliases (`@/components`, `@/lib`, `src/`) and moduleDirectories
+ */
+
+import { execFileSync } from 'child_process'
+import { existsSync, readFileSync, statSync } from 'fs'
+import { dirname, join, relative, resolve } from 'path'
+import * as ts from 'typescript'
+import { isSourceFile, isTestFile, toPosixPath, walkFiles } from './fs-utils'
+import type { JestConfig } from './jest-config'
+
+export const DEFAULT_BASE_REF = 'main'
+
+// Changes to these affect every suite regardless of imports
+export const GLOBAL_TRIGGER_FILES = [
+  'package.json',
+  'babel.config.js',
+  'tsconfig.json',
+  'test-quarantine.json',
+]
+
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.json']
+
+export interface AffectedTest {
+  testFile: string
+  changedFile: string
+  // Import chain from the test file to the changed file
+  chain: string[]
+  // Selected because the impact map shows the test executing the changed file
+  viaImpactMap?: boolean
+}
+
+export interface AffectedSuite {
+  suite: string
+  reasons: string[]
+  tests: AffectedTest[]
+}
+
+export interface AffectedSelection {
+  baseRef: string
+  changedFiles: string[]
+  suites: AffectedSuite[]
+}
+
+// Arguments go to git unparsed, so a ref can't inject shell syntax
+const git = (args: string[]): string[] => {
+  try {
+    return execFileSync('git', args, { encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe'] })
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+  } catch (error: any) {
+    throw new Error(`git ${args.join(' ')} failed: ${(error.stderr || error.message).toString().trim()}`)
+  }
+}
+
+const isCommit = (ref: string): boolean => {
+  try {
+    git(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`])
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Committed changes since the merge base plus uncommitted and untracked
+ * files. Deleted files are included; they no longer exist on disk.
+ */
+export const getChangedFiles = (baseRef: string = DEFAULT_BASE_REF): string[] => {
+  // A ref starting with a dash would be read as a git option
+  if (baseRef.startsWith('-') || !isCommit(baseRef)) {
+    throw new Error(`unknown base ref '${baseRef}'`)
+  }
+
+  return Array.from(new Set([
+    ...git(['diff', '--name-only', `${baseRef}...HEAD`, '--']),
+    ...git(['diff', '--name-only', 'HEAD', '--']),
+    ...git(['ls-files', '--others', '--exclude-standard']),
+  ])).sort()
+}
+
+export const extractImportSpecifiers = (source: string, fileName: string): string[] => {
+  const specifiers = new Set<string>()
+  const sourceFile = ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest, true)
+
+  const visit = (node: ts.Node) => {
+    if (
+      (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) &&
+      node.moduleSpecifier &&
+      ts.isStringLiteral(node.moduleSpecifier)
+    ) {
+      specifiers.add(node.moduleSpecifier.text)
+    } else if (ts.isCallExpression(node) && node.arguments.length > 0 && ts.isStringLiteral(node.arguments[0])) {
+      const callee = node.expression.getText(sourceFile)
+      // require(), dynamic import() and module-path arguments of jest helpers
+      if (
+        callee === 'require' ||
+        node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+        /^jest\.(mock|doMock|requireActual|requireMock|unmock)$/.test(callee)
+      ) {
+        specifiers.add(node.arguments[0].text)
+      }
+    }
+
+    ts.forEachChild(node, visit)
+  }
+
+  visit(sourceFile)
+  return Array.from(specifiers)
+}
+
+/**
+ * `deletedFiles` still resolve, so imports left pointing at a deleted file
+ * keep their edge to it and the tests behind them are selected.
+ */
+export const createModuleResolver = (
+  config: JestConfig,
+  rootDir: string = process.cwd(),
+  deletedFiles: string[] = []
+) => {
+  const withRootDir = (value: string) => value.replace(/<rootDir>/g, rootDir)
+
+  const mappers = Object.entries(config.moduleNameMapper || {}).map(([pattern, target]) => ({
+    pattern: new RegExp(pattern),
+    targets: Array.isArray(target) ? target : [target],
+  }))
+
+  const moduleDirectories = (config.moduleDirectories || [])
+    .filter(dir => dir !== 'node_modules')
+    .map(withRootDir)
+
+  const tryResolve = (basePath: string): string | undefined => {
+    const candidates = [
+      basePath,
+      ...RESOLVE_EXTENSIONS.map(extension => `${basePath}${extension}`),
+      ...RESOLVE_EXTENSIONS.map(extension => join(basePath, `index${extension}`)),
+    ]
+
+    const found = candidates.find(candidate => existsSync(candidate) && statSync(candidate).isFile())
+    if (!found) {
+      return candidates
+        .map(candidate => toPosixPath(relative(rootDir, candidate)))
+        .find(candidate => deletedFiles.includes(candidate))
+    }
+
+    const relativePath = toPosixPath(relative(rootDir, found))
+    return relativePath.startsWith('..') ? undefined : relativePath
+  }
+
+  return (specifier: string, fromFile: string): string | undefined => {
+    if (specifier.startsWith('.')) {
+      return tryResolve(resolve(rootDir, dirname(fromFile), specifier))
+    }
+
+    // Jest uses the first matching mapper entry
+    for (const { pattern, targets } of mappers) {
+      const match = specifier.match(pattern)
+      if (!match) continue
+
+      for (const target of targets) {
+        const mapped = withRootDir(target).replace(/\$(\d+)/g, (_, index) => match[Number(index)] || '')
+        const resolved = mapped.startsWith('/') ? tryResolve(mapped) : undefined
+        if (resolved) return resolved
+      }
+      return undefined
+    }
+
+    for (const dir of moduleDirectories) {
+      const resolved = tryResolve(join(dir, specifier))
+      if (resolved) return resolved
+    }
+
+    return undefined
+  }
+}
+
+// Maps each repository file to the repository files it imports
+export const buildDependencyGraph = (
+  config: JestConfig,
+  rootDir: string = process.cwd(),
+  deletedFiles: string[] = []
+): Map<string, Set<string>> => {
+  const resolveModule = createModuleResolver(config, rootDir, deletedFiles)
+  const graph = new Map<string, Set<string>>()
+
+  walkFiles(rootDir, rootDir, isSourceFile).forEach(file => {
+    const source = readFileSync(join(rootDir, file), 'utf8')
+    const dependencies = new Set<string>()
+
+    extractImportSpecifiers(source, file).forEach(specifier => {
+      const resolved = resolveModule(specifier, file)
+      if (resolved && resolved !== file) {
+        dependencies.add(resolved)
+      }
+    })
+
+    graph.set(file, dependencies)
+  })
+
+  return graph
+}
+
+/**
+ * Walks reverse dependencies from each changed file and returns, for every
+ * test file reached, the shortest import chain that explains the selection.
+ */
+export const findAffectedTests = (
+  graph: Map<string, Set<string>>,
+  changedFiles: string[]
+): AffectedTest[] => {
+  const dependents = new Map<string, string[]>()
+  graph.forEach((dependencies, file) => {
+    dependencies.forEach(dependency => {
+      dependents.set(dependency, [...(dependents.get(dependency) || []), file])
+    })
+  })
+
+  const affected = new Map<string, AffectedTest>()
+
+  changedFiles.forEach(changedFile => {
+    // Breadth-first so the recorded chain is the shortest one
+    const previous = new Map<string, string | null>([[changedFile, null]])
+    const queue = [changedFile]
+
+    while (queue.length > 0) {
+      const file = queue.shift()!
+
+      if (isTestFile(file) && !affected.has(file)) {
+        const chain: string[] = []
+        for (let step: string | null = file; step !== null; step = previous.get(step) ?? null) {
+          chain.push(step)
+        }
+        affected.set(file, { testFile: file, changedFile, chain })
+      }
+
+      ;(dependents.get(file) || []).forEach(dependent => {
+        if (!previous.has(dependent)) {
+          previous.set(dependent, file)
+          queue.push(dependent)
+        }
+      })
+    }
+  })
+
+  return Array.from(affected.values()).sort((a, b) => a.testFile.localeCompare(b.testFile))
+}
+
+export const describeAffectedTest = (test: AffectedTest): string =>
+  test.viaImpactMap
+    ? `${test.testFile} executes ${test.changedFile} (impact map)`
+    : test.chain.length === 1
+      ? `${test.testFile} changed`
+      : `${test.testFile} → ${test.chain.slice(1).join(' → ')} (changed)`
+
+export const formatAffectedSelection = (selection: AffectedSelection): string => {
+  const lines: string[] = []
+
+  lines.push(`Changed files since ${selection.baseRef}: ${selection.changedFiles.length}`)
+  selection.changedFiles.forEach(file => lines.push(`  - ${file}`))
+  lines.push('')
+
+  if (selection.suites.length === 0) {
+    lines.push('No suites are affected by these changes')
+    return lines.join('\n')
+  }
+
+  lines.push(`Affected suites: ${selection.suites.map(suite => suite.suite).join(', ')}`)
+  selection.suites.forEach(suite => {
+    lines.push('')
+    lines.push(`${suite.suite}:`)
+    suite.reasons.forEach(reason => lines.push(`  - ${reason}`))
+    suite.tests.forEach(test => lines.push(`  - ${describeAffectedTest(test)}`))
+  })
+
+  return lines.join('\n')
+}
@@ -0,0 +1,60 @@
+/**
+ * Command-Line Arguments Tests
+ *
+ * A value must never be taken for a positional, and an option the command
+ * does not know must fail instead of being ignored
+ */
+
+import { CLI_OPTIONS, COMMAND_OPTIONS, assertCommandOptions, parseArgs, parseList } from './cli-args'
+
+describe('parseArgs', () => {
+  it('should separate the command, positionals and option values', () => {
+    const parsed = parseArgs(['run', '--shard', '2/4', 'unit', '--retries=2', '--tag', 'nfc, ble'], CLI_OPTIONS)
+
+    expect(parsed).toEqual({
+      command: 'run',
+      positionals: ['unit'],
+      options: { shard: '2/4', retries: 2, tag: ['nfc', 'ble'] },
+    })
+  })
+
+  it('should support --no- for booleans and lists only', () => {
+    expect(parseArgs(['all', '--no-coverage', '--no-report'], CLI_OPTIONS).options).toEqual({ coverage: false, report: [] })
+    expect(() => parseArgs(['all', '--no-concurrency'], CLI_OPTIONS)).toThrow('--concurrency takes a value')
+  })
+
+  it('should treat everything after -- as positionals', () => {
+    expect(parseArgs(['which-tests', '--', '--odd-file.ts'], CLI_OPTIONS).positionals).toEqual(['--odd-file.ts'])
+  })
+
+  it('should reject unknown options, missing values and invalid values', () => {
+    expect(() => parseArgs(['run', '--shards', '1/2'], CLI_OPTIONS)).toThrow('Unknown option --shards')
+    expect(() => parseArgs(['run', '--shard'], CLI_OPTIONS)).toThrow('--shard needs a value')
+    expect(() => parseArgs(['run', '--shard', '--coverage'], CLI_OPTIONS)).toThrow('--shard needs a value')
+    expect(() => parseArgs(['run', '--retries', 'two'], CLI_OPTIONS)).toThrow("--retries expects a number, got 'two'")
+    expect(() => parseArgs(['run', '--execution', 'docker'], CLI_OPTIONS)).toThrow('must be one of shell, in-process')
+    expect(() => parseArgs(['run', '--coverage=yes'], CLI_OPTIONS)).toThrow('expects true or false')
+  })
+})
+
+describe('parseList', () => {
+  it('should drop empty entries', () => {
+    expect(parseList('md,, html ,')).toEqual(['md', 'html'])
+  })
+})
+
+describe('assertCommandOptions', () => {
+  it('should reject options the command does not take', () => {
+    expect(() => assertCommandOptions('history', { seed: 3 })).toThrow('history does not take --seed')
+    expect(() => assertCommandOptions('merge', { json: true, shard: '1/2' })).toThrow('merge does not take --json, --shard')
+  })
+
+  it('should accept config overrides on every command', () => {
+    expect(() => assertCommandOptions('history', { limit: 5, 'jest-config': 'jest.config.js' })).not.toThrow()
+    expect(() => assertCommandOptions('doctor', { report: ['md'], coverage: false })).not.toThrow()
+  })
+
+  it('should only list options that exist', () => {
+    Object.values(COMMAND_OPTIONS).flat().forEach(name => expect(CLI_OPTIONS).toHaveProperty([name]))
+  })
+})
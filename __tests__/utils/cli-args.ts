@@ -0,0 +1,196 @@
+/**
+ * Command-Line Arguments
+ *
+ * Parses `test-runner` arguments against a table of known options, so
+ * option values are never mistaken for positionals and a mistyped flag is
+ * an error rather than silently ignored. `--name value`, `--name=value`,
+ * `--no-name` and `--` are supported.
+ */
+
+export type CliOptionType = 'boolean' | 'string' | 'number' | 'list'
+
+export interface CliOptionSpec {
+  type: CliOptionType
+  // Allowed values for string options
+  choices?: readonly string[]
+}
+
+export type CliOptionSpecs = Record<string, CliOptionSpec>
+
+type CliOptionValue<T extends CliOptionType> =
+  T extends 'boolean' ? boolean :
+  T extends 'number' ? number :
+  T extends 'list' ? string[] :
+  string
+
+// Options not on the command line are undefined, so config defaults apply
+export type CliOptions<S extends CliOptionSpecs> = {
+  [K in keyof S]?: CliOptionValue<S[K]['type']>
+}
+
+export interface ParsedArgs<S extends CliOptionSpecs> {
+  command?: string
+  // Arguments after the command that are not options or option values
+  positionals: string[]
+  options: CliOptions<S>
+}
+
+// `nfc, ble` → ['nfc', 'ble']; empty entries are dropped
+export const parseList = (value: string): string[] =>
+  value.split(',').map(entry => entry.trim()).filter(Boolean)
+
+const parseValue = (name: string, spec: CliOptionSpec, raw: string): string | number | string[] => {
+  switch (spec.type) {
+    case 'number': {
+      const value = Number(raw)
+      if (raw.trim() === '' || !Number.isFinite(value)) {
+        throw new Error(`--${name} expects a number, got '${raw}'`)
+      }
+      return value
+    }
+    case 'list':
+      return parseList(raw)
+    default:
+      if (spec.choices && !spec.choices.includes(raw)) {
+        throw new Error(`--${name} must be one of ${spec.choices.join(', ')}, got '${raw}'`)
+      }
+      return raw
+  }
+}
+
+export const parseArgs = <S extends CliOptionSpecs>(argv: string[], specs: S): ParsedArgs<S> => {
+  const options: Record<string, unknown> = {}
+  const positionals: string[] = []
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index]
+
+    if (arg === '--') {
+      positionals.push(...argv.slice(index + 1))
+      break
+    }
+
+    if (!arg.startsWith('--')) {
+      positionals.push(arg)
+      continue
+    }
+
+    const equals = arg.indexOf('=')
+    const flag = equals >= 0 ? arg.slice(2, equals) : arg.slice(2)
+    const inline = equals >= 0 ? arg.slice(equals + 1) : undefined
+    const negated = !specs[flag] && flag.startsWith('no-') && specs[flag.slice(3)] !== undefined
+    const name = negated ? flag.slice(3) : flag
+    const spec = specs[name]
+
+    if (!spec) {
+      throw new Error(`Unknown option --${flag}`)
+    }
+
+    if (negated) {
+      // `--no-report` clears a list; other value options cannot be negated
+      if (spec.type !== 'boolean' && spec.type !== 'list') {
+        throw new Error(`--${flag} is not supported; --${name} takes a value`)
+      }
+      if (inline !== undefined) {
+        throw new Error(`--${flag} does not take a value`)
+      }
+      options[name] = spec.type === 'boolean' ? false : []
+      continue
+    }
+
+    if (spec.type === 'boolean') {
+      if (inline !== undefined && inline !== 'true' && inline !== 'false') {
+        throw new Error(`--${name} expects true or false, got '${inline}'`)
+      }
+      options[name] = inline !== 'false'
+      continue
+    }
+
+    const raw = inline !== undefined ? inline : argv[++index]
+    if (raw === undefined || (inline === undefined && raw.startsWith('--'))) {
+      throw new Error(`--${name} needs a value`)
+    }
+    options[name] = parseValue(name, spec, raw)
+  }
+
+  const [command, ...rest] = positionals
+  return { command, positionals: rest, options: options as CliOptions<S> }
+}
+
+// Runner config overrides; every command takes them
+const CONFIG_OPTIONS = {
+  'jest-config': { type: 'string' },
+  execution: { type: 'string', choices: ['shell', 'in-process'] },
+  // Shorthand for --execution in-process
+  'in-process': { type: 'boolean' },
+  'quality-gates': { type: 'string' },
+  report: { type: 'list' },
+  'device-profiles': { type: 'list' },
+  'shard-durations': { type: 'string' },
+  parallel: { type: 'boolean' },
+  concurrency: { type: 'number' },
+  'fail-fast': { type: 'boolean' },
+  coverage: { type: 'boolean' },
+  'track-heap': { type: 'boolean' },
+  budget: { type: 'number' },
+} as const
+
+export const CLI_OPTIONS = {
+  ...CONFIG_OPTIONS,
+  // Run options
+  retries: { type: 'number' },
+  shard: { type: 'string' },
+  tag: { type: 'list' },
+  'exclude-tag': { type: 'list' },
+  randomize: { type: 'boolean' },
+  seed: { type: 'number' },
+  // Command options
+  'dry-run': { type: 'boolean' },
+  json: { type: 'boolean' },
+  tree: { type: 'boolean' },
+  decisions: { type: 'string' },
+  'base-ref': { type: 'string' },
+  'max-mutants': { type: 'number' },
+  'min-score': { type: 'number' },
+  cache: { type: 'boolean' },
+  limit: { type: 'number' },
+  screen: { type: 'boolean' },
+  force: { type: 'boolean' },
+  missing: { type: 'boolean' },
+  'update-baseline': { type: 'boolean' },
+} as const
+
+type CliOptionName = keyof typeof CLI_OPTIONS
+
+const RUN_OPTIONS: CliOptionName[] = ['retries', 'shard', 'tag', 'exclude-tag', 'randomize', 'seed']
+
+// Options besides the config overrides each command takes; commands not
+// listed take none
+export const COMMAND_OPTIONS: Record<string, CliOptionName[]> = {
+  run: RUN_OPTIONS,
+  all: RUN_OPTIONS,
+  affected: ['dry-run', 'retries', 'tag', 'exclude-tag', 'randomize', 'seed'],
+  pipeline: ['base-ref', 'retries'],
+  triage: ['json'],
+  snapshots: ['json', 'decisions'],
+  mutate: ['max-mutants', 'min-score', 'cache'],
+  'coverage-diff': ['json'],
+  'which-tests': ['json'],
+  inventory: ['tree', 'json'],
+  scaffold: ['screen', 'dry-run', 'force', 'missing'],
+  audit: ['update-baseline', 'force', 'json'],
+  isolation: ['randomize', 'seed', 'json'],
+  history: ['limit'],
+  doctor: ['json'],
+  validate: ['json'],
+}
+
+// An option the command ignores is as likely a mistake as a mistyped one
+export const assertCommandOptions = (command: string | undefined, options: CliOptions<typeof CLI_OPTIONS>) => {
+  const allowed: string[] = [...Object.keys(CONFIG_OPTIONS), ...(command ? COMMAND_OPTIONS[command] || [] : [])]
+  const unsupported = Object.keys(options).filter(name => !allowed.includes(name))
+
+  if (unsupported.length > 0) {
+    throw new Error(`${command || 'test-runner'} does not take ${unsupported.map(name => `--${name}`).join(', ')}`)
+  }
+}
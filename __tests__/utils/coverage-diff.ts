@@ -0,0 +1,402 @@
+/**
+ * Coverage Diff
+ *
+ * Compares the current run's coverage with a baseline saved for the merge
+ * base of a git ref: lines and branches added since then that no test
+ * covers, files whose coverage dropped, and per-path thresholds for new
+ * code (e.g. `src/services/` at 95%) that the global average cannot hide.
+ */
+
+import { execSync } from 'child_process'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { join, relative } from 'path'
+import { createCoverageMap, CoverageMapData, FileCoverage } from 'istanbul-lib-coverage'
+import { isSourceFile, isTestFile, toPosixPath } from './fs-utils'
+import type { GateStatus } from './quality-gates'
+
+export const COVERAGE_BASELINE_DIR = 'test-results/coverage-baselines'
+
+export const COVERAGE_FINAL_FILE = 'coverage-final.json'
+
+export interface CoverageCounts {
+  covered: number
+  total: number
+}
+
+export interface FileCoverageBaseline {
+  lines: CoverageCounts
+  branches: CoverageCounts
+}
+
+export interface CoverageBaseline {
+  commit: string
+  createdAt: string
+  files: Record<string, FileCoverageBaseline>
+}
+
+// Minimum coverage (%) of added lines and branches, keyed by path prefix
+export type NewCodeThresholds = Record<string, { lines?: number; branches?: number }>
+
+export interface UncoveredBranch {
+  line: number
+  type: string
+  // 1-based index of the branch path that never ran
+  path: number
+}
+
+export interface FileCoverageDiff {
+  file: string
+  // Added lines and branches that hold statements; comments and types do not count
+  newLines: CoverageCounts
+  newBranches: CoverageCounts
+  uncoveredLines: number[]
+  uncoveredBranches: UncoveredBranch[]
+}
+
+export interface CoverageDrop {
+  file: string
+  // Whole-file line coverage (%)
+  before: number
+  after: number
+}
+
+export interface NewCodeThresholdResult {
+  path: string
+  metric: 'lines' | 'branches'
+  min: number
+  counts: CoverageCounts
+  // Changed files under the path that no suite collected coverage for
+  unmeasured: string[]
+  status: GateStatus
+}
+
+export interface CoverageDiffReport {
+  baseRef: string
+  baseCommit: string
+  // Undefined when no baseline was saved for the base commit
+  baselineFile?: string
+  files: FileCoverageDiff[]
+  dropped: CoverageDrop[]
+  unmeasured: string[]
+  newLines: CoverageCounts
+  newBranches: CoverageCounts
+  thresholds: NewCodeThresholdResult[]
+  passed: boolean
+}
+
+export interface CoverageDiffInput {
+  baseRef: string
+  baseCommit: string
+  coverage: Map<string, FileCoverage>
+  addedLines: Map<string, Set<number>>
+  baseline?: CoverageBaseline
+  baselineFile?: string
+  thresholds: NewCodeThresholds
+}
+
+const git = (args: string): string => {
+  try {
+    return execSync(`git ${args}`, { encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe'], maxBuffer: 64 * 1024 * 1024 })
+  } catch (error: any) {
+    throw new Error(`git ${args} failed: ${(error.stderr || error.message).toString().trim()}`)
+  }
+}
+
+export const getHeadCommit = (): string => git('rev-parse HEAD').trim()
+
+// Baselines are keyed by the commit the branch forked from, not the moving ref
+export const resolveMergeBase = (baseRef: string): string => git(`merge-base ${baseRef} HEAD`).trim()
+
+export const getBaselineFile = (commit: string, directory: string = COVERAGE_BASELINE_DIR): string =>
+  join(directory, `${commit}.json`)
+
+const percent = (counts: CoverageCounts): number | null =>
+  counts.total === 0 ? null : Math.round((counts.covered / counts.total) * 10000) / 100
+
+const addCounts = (a: CoverageCounts, b: CoverageCounts): CoverageCounts => ({
+  covered: a.covered + b.covered,
+  total: a.total + b.total,
+})
+
+// Line numbers in the new version of each file, from `git diff -U0` output
+export const parseAddedLines = (diff: string): Map<string, Set<number>> => {
+  const added = new Map<string, Set<number>>()
+  let current: Set<number> | undefined
+
+  diff.split('\n').forEach(line => {
+    if (line.startsWith('+++ ')) {
+      const path = line.slice(4).trim()
+      current = path === '/dev/null' ? undefined : new Set()
+      if (current) {
+        added.set(path.replace(/^b\//, ''), current)
+      }
+      return
+    }
+
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/)
+    if (hunk && current) {
+      const start = Number(hunk[1])
+      const count = hunk[2] === undefined ? 1 : Number(hunk[2])
+      for (let lineNumber = start; lineNumber < start + count; lineNumber++) {
+        current.add(lineNumber)
+      }
+    }
+  })
+
+  return added
+}
+
+// Committed and uncommitted changes since `baseCommit`; untracked files count as entirely new
+export const getAddedLines = (baseCommit: string): Map<string, Set<number>> => {
+  const added = parseAddedLines(git(`diff -U0 --no-color --no-ext-diff ${baseCommit}`))
+
+  git('ls-files --others --exclude-standard')
+    .split('\n')
+    .map(file => file.trim())
+    .filter(Boolean)
+    .forEach(file => {
+      const lineCount = readFileSync(file, 'utf8').split('\n').length
+      added.set(file, new Set(Array.from({ length: lineCount }, (_, index) => index + 1)))
+    })
+
+  return added
+}
+
+/**
+ * Merges coverage-final.json files (one per suite or shard) and keys the
+ * result by repository-relative path.
+ */
+export const loadCoverage = (coverageFiles: string[], rootDir: string = process.cwd()): Map<string, FileCoverage> => {
+  const coverageMap = createCoverageMap({})
+  coverageFiles
+    .filter(file => existsSync(file))
+    .forEach(file => coverageMap.merge(JSON.parse(readFileSync(file, 'utf8')) as CoverageMapData))
+
+  return new Map(coverageMap.files().map(file => [
+    toPosixPath(relative(rootDir, file)),
+    coverageMap.fileCoverageFor(file),
+  ]))
+}
+
+export const createCoverageBaseline = (coverage: Map<string, FileCoverage>, commit: string): CoverageBaseline => {
+  const files: Record<string, FileCoverageBaseline> = {}
+  coverage.forEach((fileCoverage, file) => {
+    const summary = fileCoverage.toSummary()
+    files[file] = {
+      lines: { covered: summary.lines.covered, total: summary.lines.total },
+      branches: { covered: summary.branches.covered, total: summary.branches.total },
+    }
+  })
+
+  return { commit, createdAt: new Date().toISOString(), files }
+}
+
+export const saveCoverageBaseline = (baseline: CoverageBaseline, directory: string = COVERAGE_BASELINE_DIR): string => {
+  const outputFile = getBaselineFile(baseline.commit, directory)
+  mkdirSync(directory, { recursive: true })
+  writeFileSync(outputFile, JSON.stringify(baseline, null, 2))
+  return outputFile
+}
+
+export const loadCoverageBaseline = (baselineFile: string): CoverageBaseline | undefined => {
+  if (!existsSync(baselineFile)) {
+    return undefined
+  }
+
+  try {
+    return JSON.parse(readFileSync(baselineFile, 'utf8')) as CoverageBaseline
+  } catch (error: any) {
+    throw new Error(`Could not parse coverage baseline ${baselineFile}: ${error.message}`)
+  }
+}
+
+const diffFileCoverage = (file: string, fileCoverage: FileCoverage, added: Set<number>): FileCoverageDiff => {
+  // Hits per line holding a statement
+  const lineHits = fileCoverage.getLineCoverage()
+  const newLines = Object.keys(lineHits).map(Number).filter(line => added.has(line))
+  const uncoveredLines = newLines.filter(line => lineHits[line] === 0).sort((a, b) => a - b)
+
+  const { branchMap, b: branchHits } = fileCoverage.data
+  let branchTotal = 0
+  const uncoveredBranches: UncoveredBranch[] = []
+
+  Object.entries(branchMap).forEach(([id, branch]) => {
+    const line = branch.loc?.start.line ?? branch.line
+    if (!added.has(line)) return
+
+    branchHits[id].forEach((hits, index) => {
+      branchTotal += 1
+      if (hits === 0) {
+        uncoveredBranches.push({ line, type: branch.type, path: index + 1 })
+      }
+    })
+  })
+
+  return {
+    file,
+    newLines: { covered: newLines.length - uncoveredLines.length, total: newLines.length },
+    newBranches: { covered: branchTotal - uncoveredBranches.length, total: branchTotal },
+    uncoveredLines,
+    uncoveredBranches: uncoveredBranches.sort((a, b) => a.line - b.line || a.path - b.path),
+  }
+}
+
+const evaluateThresholds = (
+  thresholds: NewCodeThresholds,
+  files: FileCoverageDiff[],
+  unmeasured: string[]
+): NewCodeThresholdResult[] =>
+  Object.entries(thresholds).flatMap(([path, minimums]) => {
+    const matching = files.filter(file => file.file.startsWith(path))
+    const unmeasuredUnderPath = unmeasured.filter(file => file.startsWith(path))
+    const metrics = (['lines', 'branches'] as const).filter(metric => typeof minimums[metric] === 'number')
+
+    return metrics.map(metric => {
+      const min = minimums[metric]!
+      const counts = matching
+        .map(file => (metric === 'lines' ? file.newLines : file.newBranches))
+        .reduce(addCounts, { covered: 0, total: 0 })
+      const actual = percent(counts)
+
+      let status: GateStatus = 'passed'
+      if (unmeasuredUnderPath.length > 0 || (actual !== null && actual < min)) {
+        status = 'failed'
+      } else if (actual === null) {
+        status = 'skipped'
+      }
+
+      return { path, metric, min, counts, unmeasured: unmeasuredUnderPath, status }
+    })
+  })
+
+export const diffCoverage = (input: CoverageDiffInput): CoverageDiffReport => {
+  const changedSources = Array.from(input.addedLines.keys())
+    .filter(file => isSourceFile(file) && !isTestFile(file))
+    .sort()
+
+  const files = changedSources
+    .filter(file => input.coverage.has(file))
+    .map(file => diffFileCoverage(file, input.coverage.get(file)!, input.addedLines.get(file)!))
+    .filter(file => file.newLines.total > 0 || file.newBranches.total > 0)
+
+  // Changed sources outside collectCoverageFrom are not expected to be measured
+  const unmeasured = changedSources.filter(file =>
+    !input.coverage.has(file) &&
+    existsSync(file) &&
+    Object.keys(input.thresholds).some(path => file.startsWith(path))
+  )
+
+  const dropped: CoverageDrop[] = []
+  if (input.baseline) {
+    input.coverage.forEach((fileCoverage, file) => {
+      const before = input.baseline!.files[file] ? percent(input.baseline!.files[file].lines) : null
+      const summary = fileCoverage.toSummary().lines
+      const after = percent({ covered: summary.covered, total: summary.total })
+      if (before !== null && after !== null && after < before) {
+        dropped.push({ file, before, after })
+      }
+    })
+  }
+
+  const thresholds = evaluateThresholds(input.thresholds, files, unmeasured)
+
+  return {
+    baseRef: input.baseRef,
+    baseCommit: input.baseCommit,
+    baselineFile: input.baseline ? input.baselineFile : undefined,
+    files,
+    dropped: dropped.sort((a, b) => (a.after - a.before) - (b.after - b.before)),
+    unmeasured,
+    newLines: files.map(file => file.newLines).reduce(addCounts, { covered: 0, total: 0 }),
+    newBranches: files.map(file => file.newBranches).reduce(addCounts, { covered: 0, total: 0 }),
+    thresholds,
+    passed: thresholds.every(threshold => threshold.status !== 'failed'),
+  }
+}
+
+// [3, 4, 5, 9] -> "3-5, 9"
+const formatLineRanges = (lines: number[]): string => {
+  const ranges: string[] = []
+  let start = lines[0]
+
+  lines.forEach((line, index) => {
+    const next = lines[index + 1]
+    if (next !== line + 1) {
+      ranges.push(start === line ? `${line}` : `${start}-${line}`)
+      start = next
+    }
+  })
+
+  return ranges.join(', ')
+}
+
+const formatCounts = (counts: CoverageCounts): string => {
+  const value = percent(counts)
+  return `${counts.covered}/${counts.total}${value === null ? '' : ` (${value.toFixed(1)}%)`}`
+}
+
+const THRESHOLD_STATUS_LABELS: Record<GateStatus, string> = {
+  passed: '✅ PASS',
+  failed: '❌ FAIL',
+  skipped: '⏭ SKIP',
+}
+
+export const formatCoverageDiff = (report: CoverageDiffReport): string => {
+  const lines: string[] = []
+
+  lines.push('='.repeat(80))
+  lines.push(`COVERAGE DIFF vs ${report.baseRef} (${report.baseCommit.slice(0, 8)})`)
+  lines.push('='.repeat(80))
+  lines.push(`New code: ${formatCounts(report.newLines)} lines, ${formatCounts(report.newBranches)} branches covered`)
+
+  report.files
+    .filter(file => file.uncoveredLines.length > 0 || file.uncoveredBranches.length > 0)
+    .forEach(file => {
+      lines.push('')
+      lines.push(`${file.file}: ${formatCounts(file.newLines)} new lines covered`)
+      if (file.uncoveredLines.length > 0) {
+        lines.push(`  Uncovered lines: ${formatLineRanges(file.uncoveredLines)}`)
+      }
+      if (file.uncoveredBranches.length > 0) {
+        const branches = file.uncoveredBranches.map(branch => `${branch.line} (${branch.type} #${branch.path})`)
+        lines.push(`  Uncovered branches: ${branches.join(', ')}`)
+      }
+    })
+
+  if (report.unmeasured.length > 0) {
+    lines.push('')
+    lines.push('Changed files with no coverage collected:')
+    report.unmeasured.forEach(file => lines.push(`  - ${file}`))
+  }
+
+  lines.push('')
+  if (!report.baselineFile) {
+    lines.push(`No coverage baseline for ${report.baseCommit.slice(0, 8)}; per-file drops not checked`)
+    lines.push('(run `test-runner coverage-baseline` on that commit to save one)')
+  } else if (report.dropped.length === 0) {
+    lines.push(`No file lost coverage since ${report.baseRef}`)
+  } else {
+    lines.push(`Coverage dropped since ${report.baseRef}:`)
+    report.dropped.forEach(drop => {
+      lines.push(`  - ${drop.file}: ${drop.before.toFixed(1)}% → ${drop.after.toFixed(1)}%`)
+    })
+  }
+
+  if (report.thresholds.length > 0) {
+    lines.push('')
+    lines.push('New-code thresholds:')
+    report.thresholds.forEach(threshold => {
+      const unmeasured = threshold.unmeasured.length > 0 ? `; ${threshold.unmeasured.length} changed file(s) not measured` : ''
+      const measured = threshold.counts.total > 0 ? formatCounts(threshold.counts) : 'no new code'
+      lines.push(
+        `${THRESHOLD_STATUS_LABELS[threshold.status]} ${threshold.path} ${threshold.metric} >= ${threshold.min}%: ${measured}${unmeasured}`
+      )
+    })
+  }
+
+  lines.push('')
+  lines.push(report.passed ? '✅ NEW CODE COVERAGE PASSED' : '❌ NEW CODE COVERAGE FAILED')
+  lines.push('')
+
+  return lines.join('\n')
+}
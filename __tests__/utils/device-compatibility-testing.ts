@@ -9,110 +9,19 @@
  */
 
 import { Dimensions, Platform, PixelRatio } from 'react-native'
+import {
+  DEVICE_PROFILES,
+  DeviceProfile,
+  getConfiguredDeviceProfiles,
+} from './device-profiles'
+import { PerformanceMetrics, recordQualityMetric } from './quality-metrics'
 
-// Device profiles for testing
-export interface DeviceProfile {
-  name: string
-  platform: 'android' | 'ios'
-  screenSize: {
-    width: number
-    height: number
-  }
-  pixelRatio: number
-  densityDpi: number
-  isTablet: boolean
-  isEmulator: boolean
-  performanceTier: 'low' | 'medium' | 'high'
-  features: {
-    nfc: boolean
-    bluetooth: boolean
-    biometrics: boolean
-    camera: boolean
-  }
-}
-
-// Solana Seeker device profile
-export const SOLANA_SEEKER_PROFILE: DeviceProfile = {
-  name: 'Solana Seeker',
-  platform: 'android',
-  screenSize: { width: 393, height: 851 },
-  pixelRatio: 2.75,
-  densityDpi: 440,
-  isTablet: false,
-  isEmulator: false,
-  performanceTier: 'high',
-  features: {
-    nfc: true,
-    bluetooth: true,
-    biometrics: true,
-    camera: true,
-  },
-}
-
-// Common Android device profiles
-export const DEVICE_PROFILES: Record<string, DeviceProfile> = {
-  SEEKER: SOLANA_SEEKER_PROFILE,
-  
-  PIXEL_7: {
-    name: 'Pixel 7',
-    platform: 'android',
-    screenSize: { width: 393, height: 851 },
-    pixelRatio: 2.75,
-    densityDpi: 440,
-    isTablet: false,
-    isEmulator: false,
-    performanceTier: 'high',
-    features: { nfc: true, bluetooth: true, biometrics: true, camera: true },
-  },
-
-  SAMSUNG_S23: {
-    name: 'Samsung Galaxy S23',
-    platform: 'android',
-    screenSize: { width: 360, height: 780 },
-    pixelRatio: 3,
-    densityDpi: 480,
-    isTablet: false,
-    isEmulator: false,
-    performanceTier: 'high',
-    features: { nfc: true, bluetooth: true, biometrics: true, camera: true },
-  },
-
-  ANDROID_EMULATOR: {
-    name: 'Android Emulator (API 34)',
-    platform: 'android',
-    screenSize: { width: 360, height: 640 },
-    pixelRatio: 2,
-    densityDpi: 320,
-    isTablet: false,
-    isEmulator: true,
-    performanceTier: 'medium',
-    features: { nfc: false, bluetooth: false, biometrics: false, camera: true },
-  },
-
-  LOW_END_DEVICE: {
-    name: 'Budget Android Device',
-    platform: 'android',
-    screenSize: { width: 320, height: 568 },
-    pixelRatio: 1.5,
-    densityDpi: 240,
-    isTablet: false,
-    isEmulator: false,
-    performanceTier: 'low',
-    features: { nfc: false, bluetooth: true, biometrics: false, camera: true },
-  },
-
-  TABLET: {
-    name: 'Android Tablet',
-    platform: 'android',
-    screenSize: { width: 800, height: 1280 },
-    pixelRatio: 2,
-    densityDpi: 320,
-    isTablet: true,
-    isEmulator: false,
-    performanceTier: 'medium',
-    features: { nfc: false, bluetooth: true, biometrics: false, camera: true },
-  },
-}
+export {
+  DEVICE_PROFILES,
+  SOLANA_SEEKER_PROFILE,
+  getConfiguredDeviceProfiles,
+} from './device-profiles'
+export type { DeviceProfile } from './device-profiles'
 
 // Screen orientation testing
 export type Orientation = 'portrait' | 'landscape'
@@ -253,14 +162,21 @@ export class PerformanceTester {
     this.metrics.memoryUsage.push(bytes)
   }
 
-  getMetrics() {
-    return {
+  getMetrics(): PerformanceMetrics {
+    const metrics = {
       averageRenderTime: this.average(this.metrics.renderTime),
       averageFrameRate: this.average(this.metrics.frameRate),
       peakMemoryUsage: Math.max(...this.metrics.memoryUsage, 0),
       renderTimeP95: this.percentile(this.metrics.renderTime, 95),
       frameRateMin: Math.min(...this.metrics.frameRate, 60),
     }
+
+    // Picked up by the quality gates when running under TestRunner
+    if (this.metrics.renderTime.length > 0 || this.metrics.frameRate.length > 0) {
+      recordQualityMetric({ kind: 'performance', metrics })
+    }
+
+    return metrics
   }
 
   private average(arr: number[]): number {
@@ -395,15 +311,17 @@ export class ResourceTester {
 
 // Test utilities for device compatibility
 export const deviceTestUtils = {
-  // Test component across multiple devices
+  // Test component across multiple devices (default: the runner's configured profiles)
   testAcrossDevices: async (
     testFn: (profile: DeviceProfile) => Promise<void>,
-    profiles: DeviceProfile[] = Object.values(DEVICE_PROFILES)
+    profiles: DeviceProfile[] = getConfiguredDeviceProfiles()
   ) => {
     for (const profile of profiles) {
       try {
         await testFn(profile)
+        recordQualityMetric({ kind: 'device', profile: profile.name, passed: true })
       } catch (error) {
+        recordQualityMetric({ kind: 'device', profile: profile.name, passed: false, error: String(error) })
         throw new Error(`Test failed on ${profile.name}: ${error}`)
       }
     }
@@ -0,0 +1,133 @@
+/**
+ * Device Profiles
+ *
+ * Android device profiles the device compatibility utilities test against.
+ * Kept free of react-native imports so the runner can validate the
+ * `deviceProfiles` its config declares and pass them to Jest.
+ */
+
+// Comma-separated DEVICE_PROFILES keys the runner selected, e.g. SEEKER,PIXEL_7
+export const DEVICE_PROFILES_ENV = 'TRUETAP_DEVICE_PROFILES'
+
+// Device profiles for testing
+export interface DeviceProfile {
+  name: string
+  platform: 'android' | 'ios'
+  screenSize: {
+    width: number
+    height: number
+  }
+  pixelRatio: number
+  densityDpi: number
+  isTablet: boolean
+  isEmulator: boolean
+  performanceTier: 'low' | 'medium' | 'high'
+  features: {
+    nfc: boolean
+    bluetooth: boolean
+    biometrics: boolean
+    camera: boolean
+  }
+}
+
+// Solana Seeker device profile
+export const SOLANA_SEEKER_PROFILE: DeviceProfile = {
+  name: 'Solana Seeker',
+  platform: 'android',
+  screenSize: { width: 393, height: 851 },
+  pixelRatio: 2.75,
+  densityDpi: 440,
+  isTablet: false,
+  isEmulator: false,
+  performanceTier: 'high',
+  features: {
+    nfc: true,
+    bluetooth: true,
+    biometrics: true,
+    camera: true,
+  },
+}
+
+// Common Android device profiles
+export const DEVICE_PROFILES: Record<string, DeviceProfile> = {
+  SEEKER: SOLANA_SEEKER_PROFILE,
+  
+  PIXEL_7: {
+    name: 'Pixel 7',
+    platform: 'android',
+    screenSize: { width: 393, height: 851 },
+    pixelRatio: 2.75,
+    densityDpi: 440,
+    isTablet: false,
+    isEmulator: false,
+    performanceTier: 'high',
+    features: { nfc: true, bluetooth: true, biometrics: true, camera: true },
+  },
+
+  SAMSUNG_S23: {
+    name: 'Samsung Galaxy S23',
+    platform: 'android',
+    screenSize: { width: 360, height: 780 },
+    pixelRatio: 3,
+    densityDpi: 480,
+    isTablet: false,
+    isEmulator: false,
+    performanceTier: 'high',
+    features: { nfc: true, bluetooth: true, biometrics: true, camera: true },
+  },
+
+  ANDROID_EMULATOR: {
+    name: 'Android Emulator (API 34)',
+    platform: 'android',
+    screenSize: { width: 360, height: 640 },
+    pixelRatio: 2,
+    densityDpi: 320,
+    isTablet: false,
+    isEmulator: true,
+    performanceTier: 'medium',
+    features: { nfc: false, bluetooth: false, biometrics: false, camera: true },
+  },
+
+  LOW_END_DEVICE: {
+    name: 'Budget Android Device',
+    platform: 'android',
+    screenSize: { width: 320, height: 568 },
+    pixelRatio: 1.5,
+    densityDpi: 240,
+    isTablet: false,
+    isEmulator: false,
+    performanceTier: 'low',
+    features: { nfc: false, bluetooth: true, biometrics: false, camera: true },
+  },
+
+  TABLET: {
+    name: 'Android Tablet',
+    platform: 'android',
+    screenSize: { width: 800, height: 1280 },
+    pixelRatio: 2,
+    densityDpi: 320,
+    isTablet: true,
+    isEmulator: false,
+    performanceTier: 'medium',
+    features: { nfc: false, bluetooth: true, biometrics: false, camera: true },
+  },
+}
+
+
+/**
+ * Profiles `testAcrossDevices` uses by default: the runner config's
+ * `deviceProfiles` when run through the runner, otherwise all of them.
+ */
+export const getConfiguredDeviceProfiles = (): DeviceProfile[] => {
+  const keys = (process.env[DEVICE_PROFILES_ENV] || '').split(',').map(key => key.trim()).filter(Boolean)
+  if (keys.length === 0) {
+    return Object.values(DEVICE_PROFILES)
+  }
+
+  const unknown = keys.filter(key => !DEVICE_PROFILES[key])
+  if (unknown.length > 0) {
+    throw new Error(`Unknown device profile(s) ${unknown.join(', ')}. Available: ${Object.keys(DEVICE_PROFILES).join(', ')}`)
+  }
+
+  return keys.map(key => DEVICE_PROFILES[key])
+}
@@ -10,6 +10,7 @@
 
 import { configure } from '@testing-library/react-native'
 import 'jest-extended'
+import { recordQualityMetric } from './quality-metrics'
 
 // Configure testing library for React Native
 configure({
@@ -274,6 +275,11 @@ export const accessibilityTestUtils = {
       })
     }
 
+    recordQualityMetric({
+      kind: 'accessibility',
+      violations: violations.map(({ rule, description }) => ({ rule, description })),
+    })
+
     return violations
   },
 
@@ -0,0 +1,172 @@
+/**
+ * Failure Clustering
+ *
+ * Groups failures across suites by normalized error signature and top
+ * in-repo stack frame, so one broken shared mock (e.g. the
+ * react-native-device-info mock in enhanced-test-setup.ts) shows up as one
+ * cluster with a suspected source file instead of dozens of failures.
+ */
+
+import { isAbsolute, relative } from 'path'
+import { isTestFile, toPosixPath } from './fs-utils'
+import type { TestExecutionResult } from './test-runner'
+
+export interface ClusteredFailure {
+  suite: string
+  file: string
+  // Undefined when the whole file failed before its tests ran
+  test?: string
+  // Failure message without its stack trace
+  message: string
+  quarantined?: boolean
+}
+
+export interface FailureCluster {
+  // 1-based, largest cluster first
+  id: number
+  signature: string
+  // First repository frame of the stack as `file:line`
+  topFrame?: string
+  // First repository frame outside a test file, else the top frame's file
+  suspectedSource?: string
+  size: number
+  suites: string[]
+  representative: ClusteredFailure
+  failures: ClusteredFailure[]
+}
+
+interface StackFrame {
+  file: string
+  line: number
+}
+
+const STACK_FRAME_PATTERN = /^\s*at (?:.*? \()?(.+?):(\d+):\d+\)?$/
+
+// Headers Jest puts above the actual error of a file that failed to run
+const IGNORED_MESSAGE_LINES = [/^●/, /^Test suite failed to run$/]
+
+const isStackLine = (line: string) => STACK_FRAME_PATTERN.test(line)
+
+// Frames in repository code, skipping node_modules and Node internals
+const getRepositoryFrames = (message: string, rootDir: string): StackFrame[] =>
+  message.split('\n').flatMap(line => {
+    const match = line.match(STACK_FRAME_PATTERN)
+    if (!match || !isAbsolute(match[1])) return []
+
+    const file = toPosixPath(relative(rootDir, match[1]))
+    if (file.startsWith('..') || file.includes('node_modules/')) return []
+
+    return [{ file, line: Number(match[2]) }]
+  })
+
+export const stripStackTrace = (message: string): string => {
+  const lines = message.split('\n')
+  const stackStart = lines.findIndex(isStackLine)
+  return (stackStart >= 0 ? lines.slice(0, stackStart) : lines).join('\n').trim()
+}
+
+/**
+ * First line of the error, with numbers, hex ids and the repository path
+ * replaced so the same failure in different tests gets the same signature.
+ */
+export const normalizeErrorSignature = (message: string, rootDir: string = process.cwd()): string => {
+  const firstLine = message
+    .split('\n')
+    .map(line => line.trim())
+    .find(line => line && !isStackLine(line) && !IGNORED_MESSAGE_LINES.some(pattern => pattern.test(line)))
+
+  return (firstLine || 'Unknown error')
+    .split(rootDir).join('')
+    .replace(/\b0x[0-9a-f]+\b/gi, '<hex>')
+    .replace(/\d+(\.\d+)?/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .slice(0, 200)
+}
+
+export const clusterFailures = (
+  results: Map<string, TestExecutionResult>,
+  rootDir: string = process.cwd()
+): FailureCluster[] => {
+  const groups = new Map<string, { signature: string; frames: StackFrame[]; failures: ClusteredFailure[] }>()
+
+  const add = (failure: ClusteredFailure, rawMessage: string) => {
+    const signature = normalizeErrorSignature(rawMessage, rootDir)
+    const frames = getRepositoryFrames(rawMessage, rootDir)
+    const key = `${signature}|${frames[0] ? `${frames[0].file}:${frames[0].line}` : ''}`
+
+    const group = groups.get(key) || { signature, frames, failures: [] }
+    group.failures.push(failure)
+    groups.set(key, group)
+  }
+
+  results.forEach((result, suite) => {
+    result.files.forEach(file => {
+      if (file.failureMessage) {
+        add({ suite, file: file.path, message: stripStackTrace(file.failureMessage) }, file.failureMessage)
+      }
+
+      file.tests
+        .filter(test => test.status === 'failed')
+        .forEach(test => {
+          const rawMessage = test.failureMessages[0] || ''
+          add(
+            { suite, file: file.path, test: test.fullName, message: stripStackTrace(rawMessage), quarantined: test.quarantined },
+            rawMessage
+          )
+        })
+    })
+  })
+
+  return Array.from(groups.values())
+    .sort((a, b) => b.failures.length - a.failures.length || a.signature.localeCompare(b.signature))
+    .map((group, index) => {
+      const [topFrame] = group.frames
+      const suspect = group.frames.find(frame => !isTestFile(frame.file)) || topFrame
+
+      return {
+        id: index + 1,
+        signature: group.signature,
+        topFrame: topFrame ? `${topFrame.file}:${topFrame.line}` : undefined,
+        suspectedSource: suspect?.file,
+        size: group.failures.length,
+        suites: Array.from(new Set(group.failures.map(failure => failure.suite))),
+        representative: group.failures[0],
+        failures: group.failures,
+      }
+    })
+}
+
+// Cluster id for each failed test, keyed like `suite|file|fullName`
+export const getClusterIndex = (clusters: FailureCluster[]): Map<string, FailureCluster> => {
+  const index = new Map<string, FailureCluster>()
+  clusters.forEach(cluster => {
+    cluster.failures.forEach(failure => {
+      index.set(`${failure.suite}|${failure.file}|${failure.test ?? ''}`, cluster)
+    })
+  })
+  return index
+}
+
+export const formatFailureClusters = (clusters: FailureCluster[]): string[] => {
+  const report: string[] = []
+  const failures = clusters.reduce((sum, cluster) => sum + cluster.size, 0)
+
+  report.push('-'.repeat(80))
+  report.push(`FAILURE CLUSTERS (${failures} failures, ${clusters.length} distinct causes)`)
+  report.push('-'.repeat(80))
+
+  clusters.forEach(cluster => {
+    const { representative } = cluster
+    const where = representative.test ? `${representative.file} › ${representative.test}` : representative.file
+
+    report.push(`#${cluster.id} ${cluster.size} failure(s) in ${cluster.suites.join(', ')}`)
+    report.push(`    ${cluster.signature}`)
+    if (cluster.suspectedSource) {
+      report.push(`    Suspected source: ${cluster.suspectedSource}${cluster.topFrame ? ` (top frame ${cluster.topFrame})` : ''}`)
+    }
+    report.push(`    e.g. ${where}`)
+  })
+
+  report.push('')
+  return report
+}
@@ -0,0 +1,107 @@
+/**
+ * Flaky Test Handling Tests
+ *
+ * A retry must only clear a failure when the same test passed, and the
+ * retry pattern must select exactly the failed tests
+ */
+
+import type { TestCaseResult, TestFileResult } from './jest-results'
+import {
+  applyQuarantine,
+  buildTestNamePattern,
+  mergeRetryResults,
+  summarizeTests,
+} from './flaky-tests'
+
+const createTest = (fullName: string, status: TestCaseResult['status'], failureMessages: string[] = []): TestCaseResult => ({
+  title: fullName,
+  fullName,
+  ancestors: [],
+  status,
+  duration: 10,
+  failureMessages,
+})
+
+const createFile = (path: string, tests: TestCaseResult[], overrides: Partial<TestFileResult> = {}): TestFileResult => ({
+  path,
+  status: tests.some(test => test.status === 'failed') ? 'failed' : 'passed',
+  duration: 100,
+  tests,
+  ...overrides,
+})
+
+describe('buildTestNamePattern', () => {
+  it('should match exactly the given full names', () => {
+    const pattern = new RegExp(buildTestNamePattern(['wallet sends', 'wallet sends (1.5 SOL)']))
+
+    expect(pattern.test('wallet sends')).toBe(true)
+    expect(pattern.test('wallet sends (1.5 SOL)')).toBe(true)
+    expect(pattern.test('wallet sends twice')).toBe(false)
+    expect(pattern.test('the wallet sends')).toBe(false)
+  })
+
+  it('should list duplicate names once', () => {
+    expect(buildTestNamePattern(['a', 'a'])).toBe('^(?:a)$')
+  })
+})
+
+describe('mergeRetryResults', () => {
+  it('should mark a test that passed on retry as flaky and keep its first failure', () => {
+    const [file] = mergeRetryResults(
+      [createFile('a.test.ts', [createTest('sends', 'failed', ['timeout']), createTest('reads', 'passed')])],
+      [createFile('a.test.ts', [createTest('sends', 'passed'), createTest('reads', 'skipped')])]
+    )
+
+    expect(file.status).toBe('passed')
+    expect(file.tests[0]).toMatchObject({ status: 'passed', flaky: true, attempts: 2, failureMessages: ['timeout'] })
+    expect(file.tests[1]).toEqual(createTest('reads', 'passed'))
+  })
+
+  it('should keep a test that failed again failing with both messages', () => {
+    const [file] = mergeRetryResults(
+      [createFile('a.test.ts', [createTest('sends', 'failed', ['first'])])],
+      [createFile('a.test.ts', [createTest('sends', 'failed', ['second'])])]
+    )
+
+    expect(file.status).toBe('failed')
+    expect(file.tests[0]).toMatchObject({ status: 'failed', attempts: 2, failureMessages: ['first', 'second'] })
+    expect(file.tests[0].flaky).toBeUndefined()
+  })
+
+  it('should not match a test with the same name in another file', () => {
+    const [file] = mergeRetryResults(
+      [createFile('a.test.ts', [createTest('sends', 'failed')])],
+      [createFile('b.test.ts', [createTest('sends', 'passed')])]
+    )
+
+    expect(file.tests[0].status).toBe('failed')
+  })
+
+  it('should keep a file that failed to load failing', () => {
+    const [file] = mergeRetryResults(
+      [createFile('a.test.ts', [createTest('sends', 'failed')], { failureMessage: 'Cannot find module' })],
+      [createFile('a.test.ts', [createTest('sends', 'passed')])]
+    )
+
+    expect(file.status).toBe('failed')
+  })
+})
+
+describe('summarizeTests', () => {
+  it('should not count quarantined failures as blocking', () => {
+    const quarantine = [{ file: 'a.test.ts', test: 'sends', reason: 'Devnet timeouts' }]
+    const files = applyQuarantine(
+      [createFile('a.test.ts', [createTest('sends', 'failed'), createTest('reads', 'failed')])],
+      quarantine
+    )
+
+    expect(summarizeTests(files, quarantine)).toMatchObject({ testsFailed: 2, blockingFailures: 1 })
+  })
+
+  it('should count a file that failed to load as blocking unless the file is quarantined', () => {
+    const files = [createFile('a.test.ts', [], { status: 'failed', failureMessage: 'SyntaxError' })]
+
+    expect(summarizeTests(files).blockingFailures).toBe(1)
+    expect(summarizeTests(files, [{ file: 'a.test.ts', reason: 'Rewrite pending' }]).blockingFailures).toBe(0)
+  })
+})
@@ -0,0 +1,217 @@
+/**
+ * Flaky Test Handling
+ *
+ * Retry policies, flaky classification and the checked-in quarantine list.
+ * Tests that fail and then pass on a retry are classified as flaky;
+ * quarantined tests still run but their failures do not fail the build.
+ */
+
+import { existsSync, readFileSync } from 'fs'
+import type { TestCaseResult, TestCaseStatus, TestFileResult } from './jest-results'
+import type { HistoryRun } from './results-history'
+
+export const QUARANTINE_FILE = 'test-quarantine.json'
+
+export interface RetryPolicy {
+  // Extra attempts for failed tests after the initial run
+  retries: number
+}
+
+export interface QuarantineEntry {
+  // Repository-relative test file path
+  file: string
+  // Full test name (describe blocks + title); omit to quarantine the whole file
+  test?: string
+  reason: string
+  since?: string
+  issue?: string
+}
+
+export interface QuarantineList {
+  tests: QuarantineEntry[]
+}
+
+export interface TestFailureRate {
+  runs: number
+  failures: number
+  rate: number
+}
+
+// A flaky or quarantined test as shown in reports
+export interface FlakyTestSummary {
+  suite: string
+  file: string
+  fullName: string
+  status: TestCaseStatus
+  attempts?: number
+  // From the quarantine entry
+  reason?: string
+  issue?: string
+  failureRate?: TestFailureRate
+}
+
+export const getTestKey = (file: string, fullName: string): string => `${file} › ${fullName}`
+
+export const loadQuarantine = (quarantineFile: string = QUARANTINE_FILE): QuarantineEntry[] => {
+  if (!existsSync(quarantineFile)) {
+    return []
+  }
+
+  let list: QuarantineList
+  try {
+    list = JSON.parse(readFileSync(quarantineFile, 'utf8'))
+  } catch (error: any) {
+    throw new Error(`Could not parse quarantine file ${quarantineFile}: ${error.message}`)
+  }
+
+  if (!Array.isArray(list.tests)) {
+    throw new Error(`Quarantine file ${quarantineFile} must contain a "tests" array`)
+  }
+
+  return list.tests
+}
+
+export const findQuarantineEntry = (
+  entries: QuarantineEntry[],
+  file: string,
+  fullName?: string
+): QuarantineEntry | undefined =>
+  entries.find(entry => entry.file === file && (!entry.test || entry.test === fullName))
+
+export const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Jest matches --testNamePattern against the full name of each test
+export const buildTestNamePattern = (fullNames: string[]): string =>
+  `^(?:${Array.from(new Set(fullNames)).map(escapeRegExp).join('|')})$`
+
+/**
+ * Folds a retry attempt into the original results. Tests that passed on
+ * retry are marked flaky; tests that failed again keep their failure messages.
+ */
+export const mergeRetryResults = (
+  files: TestFileResult[],
+  retryFiles: TestFileResult[]
+): TestFileResult[] => {
+  const retried = new Map<string, TestCaseResult>()
+  retryFiles.forEach(file => {
+    file.tests
+      .filter(test => test.status !== 'skipped')
+      .forEach(test => retried.set(getTestKey(file.path, test.fullName), test))
+  })
+
+  return files.map(file => {
+    const tests = file.tests.map(test => {
+      const retry = retried.get(getTestKey(file.path, test.fullName))
+      if (test.status !== 'failed' || !retry) {
+        return test
+      }
+
+      const attempts = (test.attempts || 1) + 1
+      if (retry.status === 'passed') {
+        return { ...retry, attempts, flaky: true, failureMessages: test.failureMessages }
+      }
+
+      return {
+        ...test,
+        attempts,
+        failureMessages: [...test.failureMessages, ...retry.failureMessages],
+      }
+    })
+
+    const stillFailing = tests.some(test => test.status === 'failed')
+    return {
+      ...file,
+      tests,
+      status: stillFailing || file.failureMessage ? 'failed' : 'passed',
+    }
+  })
+}
+
+export const applyQuarantine = (
+  files: TestFileResult[],
+  entries: QuarantineEntry[]
+): TestFileResult[] => {
+  if (entries.length === 0) {
+    return files
+  }
+
+  return files.map(file => ({
+    ...file,
+    tests: file.tests.map(test =>
+      findQuarantineEntry(entries, file.path, test.fullName) ? { ...test, quarantined: true } : test
+    ),
+  }))
+}
+
+export const summarizeTests = (files: TestFileResult[], quarantine: QuarantineEntry[] = []) => {
+  const tests = files.flatMap(file => file.tests)
+
+  return {
+    testsRun: tests.length,
+    testsPassed: tests.filter(test => test.status === 'passed').length,
+    testsFailed: tests.filter(test => test.status === 'failed').length,
+    testsSkipped: tests.filter(test => test.status === 'skipped').length,
+    // Failures that should fail the build
+    blockingFailures:
+      tests.filter(test => test.status === 'failed' && !test.quarantined).length +
+      files.filter(file => file.failureMessage && !findQuarantineEntry(quarantine, file.path)).length,
+  }
+}
+
+// How often each test failed (including flaky passes) in recorded runs
+export const getTestFailureRates = (
+  history: HistoryRun[],
+  keys: string[]
+): Map<string, TestFailureRate> => {
+  const rates = new Map<string, TestFailureRate>()
+  keys.forEach(key => rates.set(key, { runs: 0, failures: 0, rate: 0 }))
+
+  history.forEach(run => {
+    Object.values(run.suites).forEach(suite => {
+      suite.tests.forEach(test => {
+        const rate = rates.get(getTestKey(test.file, test.fullName))
+        if (!rate) return
+
+        rate.runs += 1
+        if (test.status === 'failed' || test.flaky) {
+          rate.failures += 1
+        }
+        rate.rate = rate.failures / rate.runs
+      })
+    })
+  })
+
+  return rates
+}
+
+export const describeFailureRate = (rate?: TestFailureRate): string =>
+  rate && rate.runs > 0
+    ? `${(rate.rate * 100).toFixed(0)}% failure rate over ${rate.runs} recorded runs`
+    : 'no recorded history'
+
+export const formatFlakyReport = (
+  flaky: FlakyTestSummary[],
+  quarantined: FlakyTestSummary[]
+): string[] => {
+  const report: string[] = []
+
+  report.push('-'.repeat(80))
+  report.push('FLAKY & QUARANTINED TESTS')
+  report.push('-'.repeat(80))
+
+  report.push(`Flaky (failed, then passed on retry): ${flaky.length}`)
+  flaky.forEach(test => {
+    report.push(`  - ${test.file} › ${test.fullName}`)
+    report.push(`    ${test.attempts} attempts; ${describeFailureRate(test.failureRate)}`)
+  })
+
+  report.push(`Quarantined: ${quarantined.length}`)
+  quarantined.forEach(test => {
+    report.push(`  - ${test.file} › ${test.fullName} [${test.status}]`)
+    report.push(`    ${test.reason || 'No reason recorded'}; ${describeFailureRate(test.failureRate)}`)
+  })
+
+  report.push('')
+  return report
+}
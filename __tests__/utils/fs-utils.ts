@@ -0,0 +1,69 @@
+/**
+ * File System Utilities
+ *
+ * Repository walking shared by the runner's static analysis commands
+ */
+
+import { existsSync, readdirSync, statSync } from 'fs'
+import { join, relative, sep } from 'path'
+
+// Directories that never contain sources or tests we care about
+export const IGNORED_DIRECTORIES = [
+  'node_modules',
+  '.git',
+  'coverage',
+  'test-results',
+  'android',
+  'ios',
+  'dist',
+  'build',
+]
+
+export const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx']
+
+export const TEST_FILE_PATTERN = /\.(test|spec)\.(ts|tsx|js)$/
+
+// Repository-relative paths always use forward slashes
+export const toPosixPath = (filePath: string): string =>
+  filePath.split(sep).join('/')
+
+export const walkFiles = (
+  rootDir: string,
+  startDir: string = rootDir,
+  filter: (relativePath: string) => boolean = () => true
+): string[] => {
+  const files: string[] = []
+  if (!existsSync(startDir)) {
+    return files
+  }
+
+  const visit = (dir: string) => {
+    readdirSync(dir).forEach(entry => {
+      if (IGNORED_DIRECTORIES.includes(entry)) return
+
+      const fullPath = join(dir, entry)
+      const stats = statSync(fullPath)
+
+      if (stats.isDirectory()) {
+        visit(fullPath)
+      } else {
+        const relativePath = toPosixPath(relative(rootDir, fullPath))
+        if (filter(relativePath)) {
+          files.push(relativePath)
+        }
+      }
+    })
+  }
+
+  visit(startDir)
+  return files.sort()
+}
+
+export const isSourceFile = (filePath: string): boolean =>
+  SOURCE_EXTENSIONS.some(extension => filePath.endsWith(extension)) && !filePath.endsWith('.d.ts')
+
+export const isTestFile = (filePath: string): boolean =>
+  TEST_FILE_PATTERN.test(filePath)
+
+export const listTestFiles = (rootDir: string = process.cwd()): string[] =>
+  walkFiles(rootDir, rootDir, isTestFile)
@@ -0,0 +1,148 @@
+/**
+ * Isolation Test Environment
+ *
+ * The test environment of `test-runner isolation` runs. It wraps the
+ * project's own environment (testEnvironmentOptions.baseEnvironment, see
+ * writeRunnerJestConfig) and compares snapshots of the sandbox state from
+ * Jest's test events: test_start/test_done surround a test together with
+ * all of its beforeEach/afterEach hooks, and run_start/run_finish surround
+ * the file's beforeAll/afterAll hooks. State the file restores in its own
+ * hooks is therefore never reported.
+ */
+
+import type { EnvironmentContext, JestEnvironment, JestEnvironmentConfig } from '@jest/environment'
+import type { Circus } from '@jest/types'
+import {
+  ISOLATION_BASE_ENVIRONMENT_ENV,
+  ISOLATION_SNAPSHOT_GLOBAL,
+  StateLeak,
+  StateSnapshot,
+  TEST_ISOLATION_ENV,
+  addLeaks,
+  diffState,
+  writeIsolationRecord,
+} from './test-isolation'
+
+// Events that surround the file and each test outside their hooks
+const RECORDED_EVENTS = new Set<Circus.Event['name']>(['run_start', 'test_start', 'test_done', 'run_finish'])
+
+type EnvironmentConstructor = new (config: JestEnvironmentConfig, context: EnvironmentContext) => JestEnvironment
+
+// Same lookup as Jest: `jest-environment-<name>` first, then `<name>`,
+// from the project and then from the runner
+const resolveEnvironment = (option: string, rootDir: string): string => {
+  // Jest only expands <rootDir> in testEnvironment itself
+  const name = option.replace(/^<rootDir>/, rootDir)
+  const candidates = name === 'jsdom' ? ['jest-environment-jsdom'] : [`jest-environment-${name}`, name]
+
+  for (const candidate of candidates) {
+    for (const paths of [[rootDir], undefined]) {
+      try {
+        return require.resolve(candidate, paths && { paths })
+      } catch {
+        // Try the next location
+      }
+    }
+  }
+
+  throw new Error(`Test environment '${name}' cannot be found from ${rootDir}`)
+}
+
+const loadEnvironment = (name: string, rootDir: string): EnvironmentConstructor => {
+  const loaded = require(resolveEnvironment(name, rootDir))
+  return loaded.TestEnvironment || loaded.default || loaded
+}
+
+// Test name as Jest reports it: describe blocks and test, without the root block
+const getTestName = (test: Circus.TestEntry): string => {
+  const names: string[] = []
+  for (let block: Circus.TestEntry | Circus.DescribeBlock | undefined = test; block?.parent; block = block.parent) {
+    names.unshift(block.name)
+  }
+  return names.join(' ')
+}
+
+export default class IsolationEnvironment implements JestEnvironment {
+  private readonly base: JestEnvironment
+  private readonly testPath: string
+  private readonly leaks = new Map<string, StateLeak>()
+  // Taken at run_start, once the file's module scope has run, so its
+  // imports (and mocks) are in place; changes made there are not reported
+  private fileState: StateSnapshot = new Map()
+  private testState: StateSnapshot = new Map()
+
+  constructor(config: JestEnvironmentConfig, context: EnvironmentContext) {
+    const { baseEnvironment, ...testEnvironmentOptions } = config.projectConfig.testEnvironmentOptions
+    const Base = loadEnvironment(
+      process.env[ISOLATION_BASE_ENVIRONMENT_ENV] || String(baseEnvironment || 'node'),
+      config.projectConfig.rootDir
+    )
+
+    this.base = new Base({ ...config, projectConfig: { ...config.projectConfig, testEnvironmentOptions } }, context)
+    this.testPath = context.testPath
+  }
+
+  get global() {
+    return this.base.global
+  }
+
+  get fakeTimers() {
+    return this.base.fakeTimers
+  }
+
+  get fakeTimersModern() {
+    return this.base.fakeTimersModern
+  }
+
+  get moduleMocker() {
+    return this.base.moduleMocker
+  }
+
+  getVmContext() {
+    return this.base.getVmContext()
+  }
+
+  exportConditions() {
+    return this.base.exportConditions?.() ?? []
+  }
+
+  setup() {
+    return this.base.setup()
+  }
+
+  teardown() {
+    return this.base.teardown()
+  }
+
+  // Circus types the handler per event kind; every event is forwarded as is
+  handleTestEvent: Circus.EventHandler = async (event: Circus.Event, state: Circus.State) => {
+    this.record(event)
+    await (this.base.handleTestEvent as ((event: Circus.Event, state: Circus.State) => unknown) | undefined)
+      ?.call(this.base, event, state)
+  }
+
+  // Undefined when recorder-setup did not run in this file
+  private snapshot(): StateSnapshot | undefined {
+    return (this.global as any)[ISOLATION_SNAPSHOT_GLOBAL]?.()
+  }
+
+  private record(event: Circus.Event) {
+    const directory = process.env[TEST_ISOLATION_ENV]
+    if (!directory || !RECORDED_EVENTS.has(event.name)) return
+
+    const snapshot = this.snapshot()
+    if (!snapshot) return
+
+    if (event.name === 'run_start') {
+      this.fileState = snapshot
+    } else if (event.name === 'test_start') {
+      this.testState = snapshot
+    } else if (event.name === 'test_done') {
+      addLeaks(this.leaks, diffState(this.testState, snapshot), getTestName(event.test))
+    } else if (event.name === 'run_finish') {
+      // Changes made outside tests that are still in place when the file ends
+      addLeaks(this.leaks, diffState(this.fileState, snapshot))
+      writeIsolationRecord(directory, this.testPath, Array.from(this.leaks.values()))
+    }
+  }
+}
@@ -0,0 +1,344 @@
+/**
+ * Jest Config Doctor
+ *
+ * Static checks for jest.config.enhanced.js that Jest itself never reports:
+ * - Duplicate keys (the later value silently wins)
+ * - moduleNameMapper entries shadowed by an earlier, broader pattern
+ * - Setup, mock and mapped files that do not exist
+ * - Inline projects that do not inherit root options such as `transform`
+ * - Coverage threshold paths that match no source files
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs'
+import { dirname, join, relative, resolve } from 'path'
+import * as ts from 'typescript'
+import { isSourceFile, toPosixPath, walkFiles } from './fs-utils'
+import {
+  JestConfig,
+  JestProjectConfig,
+  getInlineProjects,
+  getProjectName,
+  globToRegExpSource,
+  loadJestConfig,
+} from './jest-config'
+
+export type DoctorRule =
+  | 'config-load'
+  | 'duplicate-key'
+  | 'shadowed-module-mapping'
+  | 'missing-file'
+  | 'project-not-inheriting'
+  | 'unmatched-coverage-threshold'
+  | 'suite-drift'
+  | 'pipeline'
+  | 'environment'
+
+export interface DoctorFinding {
+  rule: DoctorRule
+  severity: 'error' | 'warning'
+  message: string
+  file?: string
+  line?: number
+}
+
+export interface DoctorReport {
+  valid: boolean
+  configPath: string
+  errorCount: number
+  warningCount: number
+  findings: DoctorFinding[]
+}
+
+// Options Jest resolves per project; inline projects do not inherit them from the root
+const PROJECT_SCOPED_OPTIONS = [
+  'preset',
+  'transform',
+  'transformIgnorePatterns',
+  'moduleNameMapper',
+  'moduleDirectories',
+  'setupFiles',
+  'setupFilesAfterEnv',
+  'testEnvironment',
+  'snapshotSerializers',
+]
+
+// Without these a project cannot even load our TypeScript/React Native sources
+const CRITICAL_PROJECT_OPTIONS = ['preset', 'transform']
+
+const getPropertyName = (name: ts.PropertyName): string | undefined => {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+    return name.text
+  }
+  return undefined
+}
+
+const getStringArray = (node: ts.Expression): string[] | undefined => {
+  if (!ts.isArrayLiteralExpression(node)) return undefined
+
+  return node.elements
+    .filter((element): element is ts.StringLiteral => ts.isStringLiteral(element))
+    .map(element => element.text)
+}
+
+export const findDuplicateKeys = (source: string, fileName: string): DoctorFinding[] => {
+  const findings: DoctorFinding[] = []
+  const sourceFile = ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest, true, ts.ScriptKind.JS)
+  const lineOf = (node: ts.Node) =>
+    sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1
+
+  const visit = (node: ts.Node) => {
+    if (ts.isObjectLiteralExpression(node)) {
+      const seen = new Map<string, ts.PropertyAssignment>()
+
+      node.properties.forEach(property => {
+        if (!ts.isPropertyAssignment(property)) return
+
+        const name = getPropertyName(property.name)
+        if (!name) return
+
+        const previous = seen.get(name)
+        if (previous) {
+          const dropped = (getStringArray(previous.initializer) || [])
+            .filter(value => !(getStringArray(property.initializer) || []).includes(value))
+
+          findings.push({
+            rule: 'duplicate-key',
+            severity: 'error',
+            message: `'${name}' is defined on lines ${lineOf(previous)} and ${lineOf(property)}; the later value replaces the earlier one` +
+              (dropped.length > 0 ? ` and drops ${dropped.join(', ')}` : ''),
+            file: fileName,
+            line: lineOf(property),
+          })
+        }
+
+        seen.set(name, property)
+      })
+    }
+
+    ts.forEachChild(node, visit)
+  }
+
+  visit(sourceFile)
+  return findings
+}
+
+// Builds a module path the pattern would match, e.g. ^@/components/(.*)$ -> @/components/x
+const sampleForPattern = (pattern: string): string =>
+  pattern
+    .replace(/^\^/, '')
+    .replace(/\$$/, '')
+    .replace(/\((?:\?:)?[^)]*\)/g, 'sample')
+    .replace(/\.\*|\.\+/g, 'sample')
+    .replace(/\\(.)/g, '$1')
+
+export const findShadowedMappings = (
+  mapper: Record<string, string | string[]> = {},
+  context = 'moduleNameMapper'
+): DoctorFinding[] => {
+  const findings: DoctorFinding[] = []
+  const patterns = Object.keys(mapper)
+
+  patterns.forEach((pattern, index) => {
+    const sample = sampleForPattern(pattern)
+
+    const shadowing = patterns.slice(0, index).find(earlier => {
+      try {
+        return new RegExp(earlier).test(sample)
+      } catch {
+        return false
+      }
+    })
+
+    if (shadowing) {
+      findings.push({
+        rule: 'shadowed-module-mapping',
+        severity: 'error',
+        message: `${context} '${pattern}' is never used: '${shadowing}' is listed earlier and also matches '${sample}'`,
+      })
+    }
+  })
+
+  return findings
+}
+
+const isPathLike = (entry: string): boolean =>
+  entry.startsWith('<rootDir>') || entry.startsWith('.') || entry.startsWith('/')
+
+const resolveConfigPath = (entry: string, rootDir: string): string =>
+  entry.startsWith('<rootDir>')
+    ? join(rootDir, entry.replace(/^<rootDir>\/?/, ''))
+    : resolve(rootDir, entry)
+
+const resolvesWithExtension = (filePath: string): boolean =>
+  existsSync(filePath) || ['.ts', '.tsx', '.js', '.jsx'].some(extension => existsSync(`${filePath}${extension}`))
+
+export const findMissingFiles = (
+  config: JestProjectConfig,
+  rootDir: string,
+  context: string
+): DoctorFinding[] => {
+  const findings: DoctorFinding[] = []
+
+  const checkEntries = (option: string, entries: string[] = []) => {
+    entries.filter(isPathLike).forEach(entry => {
+      if (!resolvesWithExtension(resolveConfigPath(entry, rootDir))) {
+        findings.push({
+          rule: 'missing-file',
+          severity: 'error',
+          message: `${context} ${option} references ${entry}, which does not exist`,
+        })
+      }
+    })
+  }
+
+  checkEntries('setupFiles', config.setupFiles)
+  checkEntries('setupFilesAfterEnv', config.setupFilesAfterEnv)
+  checkEntries('snapshotSerializers', config.snapshotSerializers as string[] | undefined)
+
+  // Mapper targets without capture groups point at one concrete file
+  Object.entries(config.moduleNameMapper || {}).forEach(([pattern, target]) => {
+    const targets = Array.isArray(target) ? target : [target]
+    targets
+      .filter(entry => isPathLike(entry) && !/\$\d/.test(entry))
+      .forEach(entry => {
+        if (!resolvesWithExtension(resolveConfigPath(entry, rootDir))) {
+          findings.push({
+            rule: 'missing-file',
+            severity: 'error',
+            message: `${context} moduleNameMapper '${pattern}' maps to ${entry}, which does not exist`,
+          })
+        }
+      })
+  })
+
+  return findings
+}
+
+export const findNonInheritingProjects = (config: JestConfig): DoctorFinding[] =>
+  getInlineProjects(config).flatMap(project => {
+    const missing = PROJECT_SCOPED_OPTIONS.filter(
+      option => config[option] !== undefined && project[option] === undefined
+    )
+    if (missing.length === 0) return []
+
+    const critical = missing.filter(option => CRITICAL_PROJECT_OPTIONS.includes(option))
+    return [{
+      rule: 'project-not-inheriting' as const,
+      severity: critical.length > 0 ? 'error' as const : 'warning' as const,
+      message: `Project '${getProjectName(project) || 'unnamed'}' does not inherit root ${missing.join(', ')}; ` +
+        'Jest applies root options to inline projects only when repeated there',
+    }]
+  })
+
+export const findUnmatchedCoverageThresholds = (
+  config: JestConfig,
+  rootDir: string
+): DoctorFinding[] => {
+  const thresholds = Object.keys(config.coverageThreshold || {}).filter(key => key !== 'global')
+  if (thresholds.length === 0) return []
+
+  const sourceFiles = walkFiles(rootDir, rootDir, isSourceFile)
+
+  return thresholds.flatMap(key => {
+    const target = resolveConfigPath(key, rootDir)
+    let matches: string[]
+
+    if (/[*?{}]/.test(key)) {
+      const pattern = new RegExp(`^${globToRegExpSource(toPosixPath(relative(rootDir, target)))}`)
+      matches = sourceFiles.filter(file => pattern.test(file))
+    } else if (existsSync(target) && statSync(target).isFile()) {
+      matches = [key]
+    } else {
+      const prefix = toPosixPath(relative(rootDir, target)).replace(/\/?$/, '/')
+      matches = sourceFiles.filter(file => file.startsWith(prefix))
+    }
+
+    if (matches.length > 0) return []
+
+    return [{
+      rule: 'unmatched-coverage-threshold' as const,
+      severity: 'warning' as const,
+      message: `coverageThreshold '${key}' matches no source files, so its thresholds are never enforced`,
+    }]
+  })
+}
+
+export const diagnoseJestConfig = (configPath: string): DoctorFinding[] => {
+  const fileName = toPosixPath(configPath)
+  const rootDir = dirname(resolve(configPath))
+
+  if (!existsSync(configPath)) {
+    return [{
+      rule: 'config-load',
+      severity: 'error',
+      message: `Jest config ${configPath} does not exist`,
+    }]
+  }
+
+  const findings = findDuplicateKeys(readFileSync(configPath, 'utf8'), fileName)
+
+  let config: JestConfig
+  try {
+    config = loadJestConfig(configPath)
+  } catch (error: any) {
+    findings.push({
+      rule: 'config-load',
+      severity: 'error',
+      message: `Could not load ${configPath}: ${error.message}`,
+      file: fileName,
+    })
+    return findings
+  }
+
+  findings.push(...findShadowedMappings(config.moduleNameMapper))
+  findings.push(...findMissingFiles(config, rootDir, 'Root'))
+
+  getInlineProjects(config).forEach(project => {
+    const context = `Project '${getProjectName(project) || 'unnamed'}'`
+    findings.push(...findShadowedMappings(project.moduleNameMapper, `${context} moduleNameMapper`))
+    findings.push(...findMissingFiles(project, rootDir, context))
+  })
+
+  findings.push(...findNonInheritingProjects(config))
+  findings.push(...findUnmatchedCoverageThresholds(config, rootDir))
+
+  return findings.map(finding => ({ file: fileName, ...finding }))
+}
+
+export const createDoctorReport = (
+  configPath: string,
+  findings: DoctorFinding[]
+): DoctorReport => {
+  const errorCount = findings.filter(finding => finding.severity === 'error').length
+
+  return {
+    valid: errorCount === 0,
+    configPath,
+    errorCount,
+    warningCount: findings.length - errorCount,
+    findings,
+  }
+}
+
+export const formatDoctorReport = (report: DoctorReport): string => {
+  const lines: string[] = []
+
+  lines.push('Test Environment Doctor:')
+  lines.push(`Config: ${report.configPath}`)
+  lines.push(`Status: ${report.valid ? '✅ Valid' : '❌ Invalid'} (${report.errorCount} errors, ${report.warningCount} warnings)`)
+
+  const sections: Array<[string, DoctorFinding['severity']]> = [['Errors', 'error'], ['Warnings', 'warning']]
+  sections.forEach(([title, severity]) => {
+    const entries = report.findings.filter(finding => finding.severity === severity)
+    if (entries.length === 0) return
+
+    lines.push('')
+    lines.push(`${title}:`)
+    entries.forEach(finding => {
+      const location = finding.line ? ` (${finding.file}:${finding.line})` : ''
+      lines.push(`  - [${finding.rule}] ${finding.message}${location}`)
+    })
+  })
+
+  return lines.join('\n')
+}
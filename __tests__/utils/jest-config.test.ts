@@ -0,0 +1,97 @@
+/**
+ * Jest Configuration Utilities Tests
+ *
+ * Suites are derived from the Jest projects, so a pattern or worker count
+ * that differs from Jest's own reading runs a different set of tests
+ */
+
+import {
+  globToRegExpSource,
+  resolveSuites,
+  suiteFromJestProject,
+  testMatchToPattern,
+  toWorkerCount,
+} from './jest-config'
+
+const matches = (glob: string, path: string) => new RegExp(globToRegExpSource(glob)).test(path)
+
+describe('globToRegExpSource', () => {
+  it('should match zero or more directories for **/', () => {
+    expect(matches('<rootDir>/__tests__/**/*.test.ts', '__tests__/a.test.ts')).toBe(true)
+    expect(matches('<rootDir>/__tests__/**/*.test.ts', '__tests__/integration/deep/a.test.ts')).toBe(true)
+  })
+
+  it('should not let a single * cross directories', () => {
+    expect(matches('src/*.test.ts', 'src/a.test.ts')).toBe(true)
+    expect(matches('src/*.test.ts', 'src/nested/a.test.ts')).toBe(false)
+  })
+
+  it('should support the (a|b) groups used in the Jest config', () => {
+    const glob = '<rootDir>/__tests__/**/*.(test|spec).(ts|tsx|js)'
+
+    expect(matches(glob, '__tests__/a.spec.tsx')).toBe(true)
+    expect(matches(glob, '__tests__/a.test.js')).toBe(true)
+    expect(matches(glob, '__tests__/a.story.tsx')).toBe(false)
+  })
+
+  it('should support {a,b} alternatives', () => {
+    expect(matches('src/**/*.{ts,tsx}', 'src/view.tsx')).toBe(true)
+    expect(matches('src/**/*.{ts,tsx}', 'src/view.js')).toBe(false)
+  })
+
+  it('should escape regex characters and anchor the end', () => {
+    expect(matches('src/a.test.ts', 'src/aXtest.ts')).toBe(false)
+    expect(matches('src/a.test.ts', 'src/a.test.tsx')).toBe(false)
+  })
+})
+
+describe('testMatchToPattern', () => {
+  it('should accept a path matching any of the globs', () => {
+    const pattern = new RegExp(testMatchToPattern(['__tests__/unit/**/*.test.ts', 'src/**/__tests__/*.test.ts']))
+
+    expect(pattern.test('src/services/__tests__/wallet.test.ts')).toBe(true)
+    expect(pattern.test('__tests__/integration/wallet.test.ts')).toBe(false)
+  })
+})
+
+describe('toWorkerCount', () => {
+  it('should resolve percentages against the CPU count', () => {
+    expect(toWorkerCount('50%', 8)).toBe(4)
+    expect(toWorkerCount('30%', 4)).toBe(1)
+  })
+
+  it('should use all CPUs but one when unset', () => {
+    expect(toWorkerCount(undefined, 8)).toBe(7)
+    expect(toWorkerCount(undefined, 1)).toBe(1)
+  })
+
+  it('should parse plain counts and never go below one worker', () => {
+    expect(toWorkerCount('3', 8)).toBe(3)
+    expect(toWorkerCount(2, 8)).toBe(2)
+    expect(toWorkerCount(0, 8)).toBe(1)
+    expect(toWorkerCount('10%', 2)).toBe(1)
+  })
+})
+
+describe('suiteFromJestProject', () => {
+  it('should fall back to root options the project leaves unset', () => {
+    const suite = suiteFromJestProject(
+      { displayName: 'unit' },
+      { testMatch: ['src/**/*.test.ts'], testTimeout: 15000, maxWorkers: 2 }
+    )
+
+    expect(suite).toMatchObject({ name: 'Unit Tests', project: 'unit', timeout: 15000, maxWorkers: 2 })
+    expect(suite.testMatch).toEqual(['src/**/*.test.ts'])
+  })
+})
+
+describe('resolveSuites', () => {
+  it('should apply runner overrides on top of the Jest project', () => {
+    const suites = resolveSuites(
+      { maxWorkers: 1, projects: [{ displayName: 'unit', testMatch: ['src/**/*.test.ts'], testTimeout: 10000 }] },
+      { unit: { timeout: 20000 } }
+    )
+
+    expect(suites.get('unit')).toMatchObject({ timeout: 20000, maxWorkers: 1, project: 'unit' })
+  })
+})
@@ -0,0 +1,322 @@
+/**
+ * Jest Configuration Utilities
+ *
+ * Loads jest.config.enhanced.js and derives TestRunner suites from its
+ * `projects`, so `test-runner run <suite>` and `jest --selectProjects <suite>`
+ * execute the same tests with the same settings
+ */
+
+import { mkdirSync, writeFileSync } from 'fs'
+import { cpus } from 'os'
+import { dirname, resolve } from 'path'
+import type { TestSuiteConfig } from './test-runner'
+
+export const DEFAULT_JEST_CONFIG = 'jest.config.enhanced.js'
+
+// Subset of Jest options the runner reads
+export interface JestProjectConfig {
+  displayName?: string | { name: string; color?: string }
+  testMatch?: string[]
+  testTimeout?: number
+  testEnvironment?: string
+  setupFiles?: string[]
+  setupFilesAfterEnv?: string[]
+  transform?: Record<string, unknown>
+  moduleNameMapper?: Record<string, string | string[]>
+  [key: string]: unknown
+}
+
+export interface JestConfig extends JestProjectConfig {
+  projects?: Array<JestProjectConfig | string>
+  maxWorkers?: number | string
+  collectCoverageFrom?: string[]
+  coverageThreshold?: Record<string, Record<string, number>>
+  moduleDirectories?: string[]
+  moduleFileExtensions?: string[]
+  testPathIgnorePatterns?: string[]
+}
+
+// Runner-side suite settings; any field left out is taken from the Jest project
+export type SuiteOverride = Partial<TestSuiteConfig>
+
+export interface SuiteDrift {
+  suite: string
+  severity: 'warning' | 'error'
+  field: keyof TestSuiteConfig | 'project'
+  runnerValue?: unknown
+  jestValue?: unknown
+  message: string
+}
+
+// Jest's own defaults for options the config leaves unset
+const JEST_DEFAULT_TIMEOUT = 5000
+const JEST_DEFAULT_ENVIRONMENT = 'node'
+
+export const loadJestConfig = (configPath: string): JestConfig => {
+  const loaded = require(resolve(configPath))
+  return (loaded && loaded.default) || loaded
+}
+
+/**
+ * Writes a Jest config that loads `configPath` and appends `setupFile` to
+ * the setupFilesAfterEnv of the root and of every inline project (projects
+ * do not inherit the root's list). With `testEnvironment`, it also becomes
+ * the environment of each of them, and the one it replaces is passed as
+ * testEnvironmentOptions.baseEnvironment; an environment set only by a
+ * preset is not seen and becomes Jest's default. Projects given as config
+ * file paths are left as they are. Returns the written file.
+ */
+export const writeRunnerJestConfig = (
+  configPath: string,
+  setupFile: string,
+  outputFile: string,
+  testEnvironment?: string
+): string => {
+  const source = resolve(configPath)
+
+  mkdirSync(dirname(outputFile), { recursive: true })
+  writeFileSync(outputFile, [
+    `// Generated by test-runner from ${source}; do not edit`,
+    "const { dirname, resolve } = require('path')",
+    '',
+    `const source = ${JSON.stringify(source)}`,
+    `const setupFile = ${JSON.stringify(resolve(setupFile))}`,
+    `const testEnvironment = ${JSON.stringify(testEnvironment && resolve(testEnvironment))}`,
+    'const loaded = require(source)',
+    'const config = (loaded && loaded.default) || loaded',
+    '',
+    'const withRecorders = options => ({',
+    '  ...options,',
+    '  setupFilesAfterEnv: [...(options.setupFilesAfterEnv || []), setupFile],',
+    '  ...(testEnvironment && {',
+    '    testEnvironment,',
+    '    testEnvironmentOptions: {',
+    '      ...options.testEnvironmentOptions,',
+    `      baseEnvironment: options.testEnvironment || ${JSON.stringify(JEST_DEFAULT_ENVIRONMENT)},`,
+    '    },',
+    '  }),',
+    '})',
+    '',
+    '// This file lives elsewhere, so rootDir must not default to its directory',
+    "const resolveRootDir = options => resolve(dirname(source), options.rootDir || '.')",
+    '',
+    'const wrap = options => ({',
+    '  ...withRecorders(options),',
+    '  rootDir: resolveRootDir(options),',
+    '  ...(options.projects && {',
+    '    projects: options.projects.map(project =>',
+    "      typeof project === 'string' ? project : withRecorders({ ...project, rootDir: resolveRootDir(project) })",
+    '    ),',
+    '  }),',
+    '})',
+    '',
+    "module.exports = typeof config === 'function' ? async () => wrap(await config()) : wrap(config)",
+    '',
+  ].join('\n'))
+
+  return outputFile
+}
+
+export const getProjectName = (project: JestProjectConfig): string | undefined => {
+  const { displayName } = project
+  return typeof displayName === 'string' ? displayName : displayName?.name
+}
+
+export const getInlineProjects = (config: JestConfig): JestProjectConfig[] =>
+  (config.projects || []).filter(
+    (project): project is JestProjectConfig => typeof project === 'object' && project !== null
+  )
+
+export const stripRootDir = (pattern: string): string =>
+  pattern.replace(/^<rootDir>\/?/, '')
+
+/**
+ * Converts a Jest testMatch glob to an equivalent testPathPattern regex.
+ * Supports `**`, `*`, `?`, `{a,b}` and the `(a|b)` groups used in our config.
+ */
+export const globToRegExpSource = (glob: string): string => {
+  const pattern = stripRootDir(glob)
+  let source = ''
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` matches zero or more directories
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?'
+        i += 2
+      } else {
+        source += '.*'
+        i += 1
+      }
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '{') {
+      source += '(?:'
+    } else if (char === '}') {
+      source += ')'
+    } else if (char === ',') {
+      source += pattern.lastIndexOf('{', i) > pattern.lastIndexOf('}', i) ? '|' : ','
+    } else if (char === '(' || char === ')' || char === '|') {
+      source += char === '(' ? '(?:' : char
+    } else if ('\\^$+.[]'.includes(char)) {
+      source += `\\${char}`
+    } else {
+      source += char
+    }
+  }
+
+  return `${source}$`
+}
+
+export const testMatchToPattern = (testMatch: string[]): string =>
+  testMatch.map(globToRegExpSource).join('|')
+
+// Same resolution as Jest: `'50%'` is half the CPUs, unset is all but one
+export const toWorkerCount = (maxWorkers: JestConfig['maxWorkers'], cpuCount: number = cpus().length): number => {
+  if (maxWorkers === undefined) {
+    return Math.max(cpuCount - 1, 1)
+  }
+
+  if (typeof maxWorkers === 'number') {
+    return maxWorkers > 0 ? maxWorkers : 1
+  }
+
+  const count = maxWorkers.trim().endsWith('%')
+    ? Math.floor((parseFloat(maxWorkers) / 100) * cpuCount)
+    : parseInt(maxWorkers, 10)
+  return count > 0 ? count : 1
+}
+
+// Suite settings as Jest resolves them for a project
+export const suiteFromJestProject = (
+  project: JestProjectConfig,
+  rootConfig: JestConfig
+): TestSuiteConfig => {
+  const name = getProjectName(project) || 'default'
+  const testMatch = project.testMatch || rootConfig.testMatch || []
+
+  return {
+    name: `${name.charAt(0).toUpperCase()}${name.slice(1)} Tests`,
+    project: name,
+    testMatch,
+    pattern: testMatchToPattern(testMatch),
+    timeout: project.testTimeout ?? rootConfig.testTimeout ?? JEST_DEFAULT_TIMEOUT,
+    maxWorkers: toWorkerCount(rootConfig.maxWorkers),
+    coverage: true,
+  }
+}
+
+// Projects do not inherit the root testEnvironment, so an unset one is Jest's default
+export const getProjectEnvironment = (project: JestProjectConfig): string =>
+  project.testEnvironment || JEST_DEFAULT_ENVIRONMENT
+
+export const suitesFromJestConfig = (config: JestConfig): Map<string, TestSuiteConfig> => {
+  const suites = new Map<string, TestSuiteConfig>()
+
+  getInlineProjects(config).forEach(project => {
+    const name = getProjectName(project)
+    if (name) {
+      suites.set(name, suiteFromJestProject(project, config))
+    }
+  })
+
+  return suites
+}
+
+// Applies runner overrides on top of the project-derived suites
+export const resolveSuites = (
+  config: JestConfig | undefined,
+  overrides: Record<string, SuiteOverride> = {}
+): Map<string, TestSuiteConfig> => {
+  const suites = config ? suitesFromJestConfig(config) : new Map<string, TestSuiteConfig>()
+
+  Object.entries(overrides).forEach(([key, override]) => {
+    const base = suites.get(override.project || key)
+    const testMatch = override.testMatch || base?.testMatch
+
+    const suite: TestSuiteConfig = {
+      name: key,
+      pattern: '',
+      timeout: JEST_DEFAULT_TIMEOUT,
+      maxWorkers: 1,
+      coverage: true,
+      ...base,
+      ...override,
+      testMatch,
+    }
+
+    // Keep the regex in sync with globs unless the override set one explicitly
+    if (!override.pattern && testMatch) {
+      suite.pattern = testMatchToPattern(testMatch)
+    }
+
+    suites.set(key, suite)
+  })
+
+  return suites
+}
+
+/**
+ * Reports where runner overrides make a suite behave differently from
+ * `jest --selectProjects <project>`.
+ */
+export const detectSuiteDrift = (
+  config: JestConfig | undefined,
+  overrides: Record<string, SuiteOverride> = {}
+): SuiteDrift[] => {
+  const drift: SuiteDrift[] = []
+  const projectSuites = config ? suitesFromJestConfig(config) : new Map<string, TestSuiteConfig>()
+
+  Object.entries(overrides).forEach(([key, override]) => {
+    const projectName = override.project || key
+    const projectSuite = projectSuites.get(projectName)
+    const project = config && getInlineProjects(config).find(entry => getProjectName(entry) === projectName)
+
+    if (!projectSuite || !project) {
+      drift.push({
+        suite: key,
+        severity: override.project ? 'error' : 'warning',
+        field: 'project',
+        runnerValue: override.project,
+        message: override.project
+          ? `Suite '${key}' references Jest project '${override.project}', which does not exist`
+          : `Suite '${key}' has no matching Jest project; it cannot be reproduced with --selectProjects`,
+      })
+      return
+    }
+
+    const compared: Array<keyof TestSuiteConfig> = ['environment', 'timeout', 'maxWorkers', 'testMatch']
+    compared.forEach(field => {
+      if (override[field] === undefined) return
+
+      const runnerValue = override[field]
+      const jestValue = field === 'environment' ? getProjectEnvironment(project) : projectSuite[field]
+      if (JSON.stringify(runnerValue) !== JSON.stringify(jestValue)) {
+        drift.push({
+          suite: key,
+          severity: 'warning',
+          field,
+          runnerValue,
+          jestValue,
+          message: `Suite '${key}' ${field} is ${JSON.stringify(runnerValue)} in the runner but ${JSON.stringify(jestValue)} in Jest project '${projectName}'`,
+        })
+      }
+    })
+
+    if (override.pattern) {
+      drift.push({
+        suite: key,
+        severity: 'warning',
+        field: 'pattern',
+        runnerValue: override.pattern,
+        message: `Suite '${key}' narrows Jest project '${projectName}' with testPathPattern ${override.pattern}`,
+      })
+    }
+  })
+
+  return drift
+}
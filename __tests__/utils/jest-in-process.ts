@@ -0,0 +1,225 @@
+/**
+ * In-Process Jest Execution
+ *
+ * Runs Jest through its programmatic API (`runCLI` from @jest/core) in the
+ * runner's own process, returning typed aggregated results and forwarding
+ * events to reporter objects passed in from code. Shell mode
+ * (jest-process.ts) remains the fallback when @jest/core is not installed.
+ */
+
+import type { Reporter } from '@jest/reporters'
+import type { AggregatedResult } from '@jest/test-result'
+import type { Config } from '@jest/types'
+
+export type ExecutionMode = 'shell' | 'in-process'
+
+export interface InProcessOptions {
+  // Receive Jest's reporter events alongside the default reporter
+  reporters?: Reporter[]
+  // Jest cannot be stopped in-process: an abort stops forwarding reporter
+  // events and marks the result cancelled once Jest has finished
+  signal?: AbortSignal
+  cwd?: string
+  // Applied to process.env for the duration of the run (workers inherit it)
+  env?: NodeJS.ProcessEnv
+}
+
+export interface InProcessResult {
+  results?: AggregatedResult
+  cancelled: boolean
+  // Set when Jest threw before producing results
+  error?: string
+  // Tail of what Jest wrote to stderr (e.g. coverage threshold failures)
+  output: string
+}
+
+type YargsOptions = Record<string, { type?: string }>
+
+// Same as shell mode: only the end of the output is kept
+const MAX_RETAINED_LINES = 200
+
+interface BridgeRegistration {
+  reporters: Reporter[]
+  cancelled: boolean
+}
+
+// Reporter objects by bridge id; Jest loads the bridge in this same process
+const registeredReporters = new Map<string, BridgeRegistration>()
+let nextBridgeId = 0
+
+export const isInProcessAvailable = (): boolean => {
+  try {
+    require.resolve('@jest/core')
+    require.resolve('jest-cli')
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Converts CLI arguments into the argv object `runCLI` expects, using
+ * jest-cli's own option table so both modes accept the same arguments.
+ */
+export const parseJestArgs = (args: string[]): Config.Argv => {
+  const { yargsOptions } = require('jest-cli') as { yargsOptions: YargsOptions }
+  const argv: Record<string, unknown> = { _: [], $0: 'jest' }
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index]
+    if (!arg.startsWith('--')) {
+      ;(argv._ as string[]).push(arg)
+      continue
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s)
+    const type = yargsOptions[name]?.type
+    const takeValue = () => inlineValue ?? args[++index]
+
+    if (type === 'boolean') {
+      argv[name] = inlineValue === undefined ? true : inlineValue !== 'false'
+    } else if (type === 'array') {
+      const values = (argv[name] as string[] | undefined) || []
+      if (inlineValue !== undefined) {
+        values.push(inlineValue)
+      } else {
+        // Like yargs, array options take every value up to the next flag
+        while (index + 1 < args.length && !args[index + 1].startsWith('--')) {
+          values.push(args[++index])
+        }
+      }
+      argv[name] = values
+    } else if (type === 'number') {
+      argv[name] = Number(takeValue())
+    } else {
+      argv[name] = takeValue()
+    }
+  }
+
+  return argv as Config.Argv
+}
+
+/**
+ * Forwards Jest reporter events to the reporters registered under
+ * `options.id`. Jest instantiates it from this module's path.
+ */
+export default class ReporterBridge implements Reporter {
+  private readonly registration: BridgeRegistration
+
+  constructor(_globalConfig: Config.GlobalConfig, options: { id: string }) {
+    this.registration = registeredReporters.get(options.id) || { reporters: [], cancelled: true }
+  }
+
+  private async forward<K extends keyof Reporter>(event: K, ...args: unknown[]) {
+    // Checked per event: the run may be aborted after Jest created the bridge
+    if (this.registration.cancelled) return
+
+    for (const reporter of this.registration.reporters) {
+      const handler = reporter[event] as ((...handlerArgs: unknown[]) => unknown) | undefined
+      await handler?.apply(reporter, args)
+    }
+  }
+
+  onRunStart: Reporter['onRunStart'] = (...args) => this.forward('onRunStart', ...args)
+  onTestFileStart: Reporter['onTestFileStart'] = (...args) => this.forward('onTestFileStart', ...args)
+  onTestCaseStart: Reporter['onTestCaseStart'] = (...args) => this.forward('onTestCaseStart', ...args)
+  onTestCaseResult: Reporter['onTestCaseResult'] = (...args) => this.forward('onTestCaseResult', ...args)
+  onTestFileResult: Reporter['onTestFileResult'] = (...args) => this.forward('onTestFileResult', ...args)
+  onRunComplete: Reporter['onRunComplete'] = (...args) => this.forward('onRunComplete', ...args)
+
+  getLastError(): Error | void {
+    if (this.registration.cancelled) return
+
+    for (const reporter of this.registration.reporters) {
+      const error = reporter.getLastError?.()
+      if (error) return error
+    }
+  }
+}
+
+/**
+ * Passing `reporters` to runCLI replaces the configured ones, so the bridge
+ * is appended to them (or to `--reporters` from the arguments) to keep
+ * e.g. jest-junit writing its file.
+ */
+const getConfiguredReporters = async (argv: Config.Argv, cwd: string): Promise<unknown[]> => {
+  if (argv.reporters) {
+    return argv.reporters
+  }
+
+  const { readConfigs } = require('jest-config') as typeof import('jest-config')
+  const { globalConfig } = await readConfigs(argv, [cwd])
+  return globalConfig.reporters || ['default']
+}
+
+export const runJestInProcess = async (
+  args: string[],
+  options: InProcessOptions = {}
+): Promise<InProcessResult> => {
+  if (options.signal?.aborted) {
+    return { cancelled: true, output: '' }
+  }
+
+  const { runCLI } = require('@jest/core') as typeof import('@jest/core')
+  const argv = parseJestArgs(args)
+  const cwd = options.cwd || process.cwd()
+
+  const bridgeId = String(nextBridgeId++)
+  const registration: BridgeRegistration = { reporters: options.reporters || [], cancelled: false }
+  registeredReporters.set(bridgeId, registration)
+
+  const previousEnv: NodeJS.ProcessEnv = {}
+  Object.entries(options.env || {}).forEach(([key, value]) => {
+    previousEnv[key] = process.env[key]
+    process.env[key] = value
+  })
+
+  // Copied, not redirected: Jest's own output still reaches the terminal
+  const stderrLines: string[] = []
+  const writeStderr = process.stderr.write
+  process.stderr.write = ((chunk: Uint8Array | string, ...rest: any[]) => {
+    stderrLines.push(...chunk.toString().split('\n'))
+    stderrLines.splice(0, Math.max(0, stderrLines.length - MAX_RETAINED_LINES))
+    return (writeStderr as (...writeArgs: any[]) => boolean).call(process.stderr, chunk, ...rest)
+  }) as typeof process.stderr.write
+
+  const restore = () => {
+    process.stderr.write = writeStderr
+    registeredReporters.delete(bridgeId)
+    Object.entries(previousEnv).forEach(([key, value]) => {
+      if (value === undefined) {
+        delete process.env[key]
+      } else {
+        process.env[key] = value
+      }
+    })
+  }
+
+  // runCLI cannot be interrupted, so an abort does not stop Jest: it drops
+  // further reporter events, and the environment and bridge stay in place
+  // until Jest settles and the run resolves as cancelled
+  const onAbort = () => {
+    registration.cancelled = true
+  }
+  options.signal?.addEventListener('abort', onAbort, { once: true })
+
+  try {
+    if (registration.reporters.length > 0) {
+      const reporters = await getConfiguredReporters(argv, cwd)
+      argv.reporters = [...reporters, [__filename, { id: bridgeId }]] as unknown as string[]
+    }
+
+    const { results } = await runCLI(argv, [cwd])
+    const output = stderrLines.join('\n')
+    return registration.cancelled ? { cancelled: true, output } : { results, cancelled: false, output }
+  } catch (error: any) {
+    return {
+      cancelled: registration.cancelled,
+      error: error?.stack || String(error),
+      output: stderrLines.join('\n'),
+    }
+  } finally {
+    options.signal?.removeEventListener('abort', onAbort)
+    restore()
+  }
+}
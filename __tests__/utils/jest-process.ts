@@ -0,0 +1,206 @@
+/**
+ * Jest Process Execution
+ *
+ * Runs Jest as an asynchronous child process so several suites can execute
+ * at once, with live line-prefixed output and cancellation support
+ */
+
+import { ChildProcess, spawn, spawnSync } from 'child_process'
+import { OPEN_HANDLES_HEADER } from './resource-diagnostics'
+
+export interface JestProcessOptions {
+  // Prefix for each streamed output line, e.g. the suite key
+  prefix?: string
+  // Echo output to the console as it arrives
+  stream?: boolean
+  // Abort kills the Jest process (and its workers)
+  signal?: AbortSignal
+  cwd?: string
+  env?: NodeJS.ProcessEnv
+}
+
+export interface JestProcessResult {
+  exitCode: number | null
+  cancelled: boolean
+  // Tail of combined output, kept for error reporting
+  output: string
+  // Jest's open-handle report (detectOpenHandles), kept in full
+  openHandleReport?: string
+}
+
+// Only the end of the output is useful once the results JSON exists
+const MAX_RETAINED_LINES = 200
+
+const createLineWriter = (
+  onLine: (line: string) => void
+) => {
+  let pending = ''
+
+  return {
+    write: (chunk: Buffer | string) => {
+      pending += chunk.toString()
+      const lines = pending.split('\n')
+      pending = lines.pop() || ''
+      lines.forEach(onLine)
+    },
+    flush: () => {
+      if (pending) {
+        onLine(pending)
+        pending = ''
+      }
+    },
+  }
+}
+
+// Jest processes still running, stopped if the runner itself is interrupted
+const activeProcesses = new Set<ChildProcess>()
+
+// Jest's workers are in the child's process group (or process tree on Windows)
+const killProcessTree = (child: ChildProcess) => {
+  if (child.pid === undefined || child.exitCode !== null) return
+
+  try {
+    if (process.platform === 'win32') {
+      // Killing the shell wrapper alone would leave Jest running
+      spawnSync('taskkill', ['/pid', child.pid.toString(), '/T', '/F'], { stdio: 'ignore' })
+    } else {
+      process.kill(-child.pid, 'SIGTERM')
+    }
+  } catch {
+    // Process already exited
+  }
+}
+
+// For callers that exit on a signal before the handler below runs
+export const stopJestProcesses = () => {
+  activeProcesses.forEach(killProcessTree)
+}
+
+// Detached children do not receive the terminal's Ctrl-C or a CI cancel
+const onInterrupt = (signal: NodeJS.Signals) => {
+  stopJestProcesses()
+  process.exit(signal === 'SIGINT' ? 130 : 143)
+}
+
+const trackProcess = (child: ChildProcess) => {
+  if (activeProcesses.size === 0) {
+    process.on('SIGINT', onInterrupt)
+    process.on('SIGTERM', onInterrupt)
+  }
+  activeProcesses.add(child)
+}
+
+const untrackProcess = (child: ChildProcess) => {
+  activeProcesses.delete(child)
+  if (activeProcesses.size === 0) {
+    process.removeListener('SIGINT', onInterrupt)
+    process.removeListener('SIGTERM', onInterrupt)
+  }
+}
+
+// npx is a .cmd script on Windows, which only starts through a shell
+const useShell = process.platform === 'win32'
+
+const quoteShellArg = (arg: string): string =>
+  (/[\s"&|<>^()*]/.test(arg) ? `"${arg.replace(/"/g, '""')}"` : arg)
+
+export const formatJestCommand = (args: string[]): string =>
+  `npx jest ${args.map(arg => (/[\s*{}()|]/.test(arg) ? `'${arg}'` : arg)).join(' ')}`
+
+export const runJestProcess = (
+  args: string[],
+  options: JestProcessOptions = {}
+): Promise<JestProcessResult> => {
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      resolve({ exitCode: null, cancelled: true, output: '' })
+      return
+    }
+
+    const retained: string[] = []
+    let handleReport: string[] | undefined
+    const onLine = (line: string) => {
+      if (handleReport) {
+        handleReport.push(line)
+      } else if (OPEN_HANDLES_HEADER.test(line)) {
+        handleReport = [line]
+      }
+
+      retained.push(line)
+      if (retained.length > MAX_RETAINED_LINES) {
+        retained.shift()
+      }
+
+      if (options.stream) {
+        console.log(options.prefix ? `[${options.prefix}] ${line}` : line)
+      }
+    }
+
+    const stdout = createLineWriter(onLine)
+    const stderr = createLineWriter(onLine)
+
+    // Own process group so cancellation also stops Jest's workers
+    const child = spawn('npx', ['jest', ...args].map(arg => (useShell ? quoteShellArg(arg) : arg)), {
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: !useShell,
+      shell: useShell,
+    })
+    trackProcess(child)
+
+    let cancelled = false
+
+    const onAbort = () => {
+      cancelled = true
+      killProcessTree(child)
+    }
+
+    options.signal?.addEventListener('abort', onAbort, { once: true })
+
+    child.stdout?.on('data', stdout.write)
+    child.stderr?.on('data', stderr.write)
+
+    child.on('error', error => {
+      untrackProcess(child)
+      options.signal?.removeEventListener('abort', onAbort)
+      reject(error)
+    })
+
+    child.on('close', exitCode => {
+      untrackProcess(child)
+      options.signal?.removeEventListener('abort', onAbort)
+      stdout.flush()
+      stderr.flush()
+
+      resolve({
+        exitCode,
+        cancelled,
+        output: retained.join('\n'),
+        openHandleReport: handleReport?.join('\n'),
+      })
+    })
+  })
+}
+
+// Runs tasks with at most `concurrency` in flight, preserving input order in results
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length)
+  let nextIndex = 0
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+      results[index] = await task(items[index], index)
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length))
+  await Promise.all(Array.from({ length: workerCount }, worker))
+
+  return results
+}
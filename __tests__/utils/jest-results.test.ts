@@ -0,0 +1,179 @@
+/**
+ * Jest Result Parsing Tests
+ *
+ * The runner's pass/fail decision and its coverage numbers come from these
+ * parsers, not from Jest's console output
+ */
+
+import {
+  CoverageMetric,
+  CoverageSummaryEntry,
+  JestFileResult,
+  JestJsonResults,
+  findCoverageThresholdErrors,
+  getFailedTests,
+  parseCoverageSummary,
+  parseJestResults,
+  stripAnsi,
+} from './jest-results'
+
+const metric = (covered: number, total: number): CoverageMetric => ({
+  covered,
+  total,
+  skipped: 0,
+  pct: total === 0 ? 'Unknown' : Math.round((covered / total) * 10000) / 100,
+})
+
+const entry = (covered: number, total: number): CoverageSummaryEntry => ({
+  lines: metric(covered, total),
+  statements: metric(covered, total),
+  functions: metric(covered, total),
+  branches: metric(covered, total),
+})
+
+const createFileResult = (overrides: Partial<JestFileResult> = {}): JestFileResult => ({
+  name: '/repo/src/math.test.ts',
+  status: 'passed',
+  message: '',
+  startTime: 1000,
+  endTime: 1250,
+  assertionResults: [],
+  ...overrides,
+})
+
+const createJson = (overrides: Partial<JestJsonResults> = {}): JestJsonResults => ({
+  success: true,
+  startTime: 1000,
+  numTotalTests: 0,
+  numPassedTests: 0,
+  numFailedTests: 0,
+  numPendingTests: 0,
+  numTodoTests: 0,
+  numRuntimeErrorTestSuites: 0,
+  testResults: [],
+  ...overrides,
+})
+
+describe('parseCoverageSummary', () => {
+  it('should return undefined without a total entry', () => {
+    expect(parseCoverageSummary({})).toBeUndefined()
+  })
+
+  it('should weight directory percentages by size', () => {
+    const parsed = parseCoverageSummary({
+      total: entry(11, 20),
+      '/repo/src/small.ts': entry(1, 10),
+      '/repo/src/large.ts': entry(10, 10),
+      '/repo/lib/other.ts': entry(0, 0),
+    }, '/repo')
+
+    // (1 + 10) / (10 + 10), not the average of 10% and 100%
+    expect(parsed?.byDirectory.src.lines).toBe(55)
+    expect(parsed?.totals.lines).toBe(55)
+    expect(parsed?.byDirectory.lib.lines).toBe(100)
+  })
+
+  it('should treat an unknown total percentage as fully covered', () => {
+    expect(parseCoverageSummary({ total: entry(0, 0) })?.totals.branches).toBe(100)
+  })
+})
+
+describe('parseJestResults', () => {
+  it('should map statuses and make paths relative to the root', () => {
+    const parsed = parseJestResults(createJson({
+      numTotalTests: 3,
+      numPassedTests: 1,
+      numPendingTests: 1,
+      numTodoTests: 1,
+      testResults: [createFileResult({
+        assertionResults: [
+          { ancestorTitles: ['math'], title: 'adds', fullName: 'math adds', status: 'passed', failureMessages: [] },
+          { ancestorTitles: ['math'], title: 'later', fullName: 'math later', status: 'todo', failureMessages: [] },
+          { ancestorTitles: [], title: 'off', fullName: 'off', status: 'pending', duration: null, failureMessages: [] },
+        ],
+      })],
+    }), undefined, '/repo')
+
+    expect(parsed.files[0].path).toBe('src/math.test.ts')
+    expect(parsed.files[0].duration).toBe(250)
+    expect(parsed.files[0].tests.map(test => test.status)).toEqual(['passed', 'skipped', 'skipped'])
+    expect(parsed.testsSkipped).toBe(2)
+    expect(parsed.success).toBe(true)
+  })
+
+  it('should report a failed file without failed tests as an error', () => {
+    const parsed = parseJestResults(createJson({
+      success: false,
+      numRuntimeErrorTestSuites: 1,
+      testResults: [createFileResult({ status: 'failed', message: '\u001b[31mCannot find module ./missing\u001b[39m' })],
+    }), undefined, '/repo')
+
+    expect(parsed.success).toBe(false)
+    expect(parsed.files[0].failureMessage).toBe('Cannot find module ./missing')
+    expect(parsed.errors).toEqual(['src/math.test.ts: Cannot find module ./missing'])
+  })
+
+  it('should not count a failed file with failed tests as a file error', () => {
+    const parsed = parseJestResults(createJson({
+      success: false,
+      numTotalTests: 1,
+      numFailedTests: 1,
+      testResults: [createFileResult({
+        status: 'failed',
+        message: 'math adds failed',
+        assertionResults: [
+          { ancestorTitles: [], title: 'adds', fullName: 'adds', status: 'failed', failureMessages: ['expected 2'] },
+        ],
+      })],
+    }), undefined, '/repo')
+
+    expect(parsed.errors).toEqual([])
+    expect(getFailedTests(parsed.files).map(({ file, test }) => `${file} ${test.fullName}`))
+      .toEqual(['src/math.test.ts adds'])
+  })
+
+  it('should list unchecked snapshot keys and removed snapshot files as obsolete', () => {
+    const parsed = parseJestResults(createJson({
+      snapshot: {
+        updated: 0,
+        filesRemovedList: ['/repo/src/__snapshots__/gone.test.ts.snap'],
+        uncheckedKeysByFile: [{ filePath: '/repo/src/math.test.ts', keys: ['math 1'] }],
+      },
+    }), undefined, '/repo')
+
+    expect(parsed.obsoleteSnapshots).toEqual([
+      { file: 'src/math.test.ts', keys: ['math 1'] },
+      { file: 'src/__snapshots__/gone.test.ts.snap' },
+    ])
+  })
+})
+
+describe('stripAnsi', () => {
+  it('should remove color codes', () => {
+    expect(stripAnsi('\u001b[1m\u001b[31mfailed\u001b[39m\u001b[22m')).toBe('failed')
+  })
+})
+
+describe('findCoverageThresholdErrors', () => {
+  it('should find global, path and uncovered-count threshold failures', () => {
+    const output = [
+      'PASS src/math.test.ts',
+      '\u001b[31mJest: "global" coverage threshold for lines (85%) not met: 80.5%\u001b[39m',
+      '  Jest: "./src/services/" coverage threshold for branches (95%) not met: 90%',
+      'Jest: Uncovered count for statements (10) exceeded global threshold (5)',
+      'Jest: Coverage data for ./src/legacy/ was not found.',
+      'Test Suites: 1 passed, 1 total',
+    ].join('\n')
+
+    expect(findCoverageThresholdErrors(output)).toEqual([
+      'Jest: "global" coverage threshold for lines (85%) not met: 80.5%',
+      'Jest: "./src/services/" coverage threshold for branches (95%) not met: 90%',
+      'Jest: Uncovered count for statements (10) exceeded global threshold (5)',
+      'Jest: Coverage data for ./src/legacy/ was not found.',
+    ])
+  })
+
+  it('should ignore test output that mentions coverage', () => {
+    expect(findCoverageThresholdErrors('console.log\n  Jest: coverage threshold for lines is 85%')).toEqual([])
+  })
+})
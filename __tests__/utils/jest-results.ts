@@ -0,0 +1,285 @@
+/**
+ * Jest Result Parsing
+ *
+ * Converts Jest's machine-readable output into TestRunner results:
+ * - `--json` aggregated results (per-file and per-test entries, obsolete snapshots)
+ * - `coverage-summary.json` from the json-summary coverage reporter
+ */
+
+import { existsSync, readFileSync } from 'fs'
+import { dirname, isAbsolute, relative } from 'path'
+
+// Subset of Jest's `--json` output consumed by the runner
+export interface JestAssertionResult {
+  ancestorTitles: string[]
+  title: string
+  fullName: string
+  status: 'passed' | 'failed' | 'pending' | 'skipped' | 'todo' | 'disabled' | 'focused'
+  duration?: number | null
+  failureMessages: string[]
+}
+
+export interface JestFileResult {
+  name: string
+  status: 'passed' | 'failed'
+  message: string
+  startTime: number
+  endTime: number
+  assertionResults: JestAssertionResult[]
+}
+
+// Obsolete snapshots are only listed here, not per file
+export interface JestSnapshotSummary {
+  updated: number
+  // Snapshot files whose test file no longer exists (deleted only with -u)
+  filesRemovedList?: string[]
+  uncheckedKeysByFile: Array<{ filePath: string; keys: string[] }>
+}
+
+export interface JestJsonResults {
+  success: boolean
+  startTime: number
+  numTotalTests: number
+  numPassedTests: number
+  numFailedTests: number
+  numPendingTests: number
+  numTodoTests: number
+  numRuntimeErrorTestSuites: number
+  snapshot?: JestSnapshotSummary
+  testResults: JestFileResult[]
+}
+
+// Shape of coverage/coverage-summary.json
+export interface CoverageMetric {
+  total: number
+  covered: number
+  skipped: number
+  pct: number | 'Unknown'
+}
+
+export interface CoverageSummaryEntry {
+  lines: CoverageMetric
+  statements: CoverageMetric
+  functions: CoverageMetric
+  branches: CoverageMetric
+}
+
+export type CoverageSummary = Record<string, CoverageSummaryEntry>
+
+// Normalized results exposed on TestExecutionResult
+export interface CoverageTotals {
+  lines: number
+  functions: number
+  branches: number
+  statements: number
+}
+
+export type TestCaseStatus = 'passed' | 'failed' | 'skipped'
+
+export interface TestCaseResult {
+  title: string
+  fullName: string
+  ancestors: string[]
+  status: TestCaseStatus
+  duration: number
+  failureMessages: string[]
+  // Set by the runner when retries or the quarantine list apply
+  attempts?: number
+  flaky?: boolean
+  quarantined?: boolean
+}
+
+export interface TestFileResult {
+  path: string
+  status: 'passed' | 'failed'
+  duration: number
+  tests: TestCaseResult[]
+  // Suite-level failure such as a syntax error or a throwing import
+  failureMessage?: string
+}
+
+export interface ObsoleteSnapshot {
+  // Test file with unused snapshot entries, or a .snap file without a test file
+  file: string
+  // Unused snapshot names; undefined when the whole .snap file is obsolete
+  keys?: string[]
+}
+
+export interface ParsedJestResults {
+  success: boolean
+  testsRun: number
+  testsPassed: number
+  testsFailed: number
+  testsSkipped: number
+  files: TestFileResult[]
+  coverage?: CoverageTotals
+  coverageByDirectory?: Record<string, CoverageTotals>
+  obsoleteSnapshots?: ObsoleteSnapshot[]
+  errors: string[]
+}
+
+const COVERAGE_KEYS: Array<keyof CoverageTotals> = ['lines', 'functions', 'branches', 'statements']
+
+// Jest colors its failure messages; reports and logs want plain text
+export const stripAnsi = (text: string): string =>
+  text.replace(/\u001b\[[0-9;]*m/g, '')
+
+// Printed by Jest's coverage reporter after the run, e.g.
+// `Jest: "global" coverage threshold for lines (85%) not met: 80.5%`
+const COVERAGE_THRESHOLD_ERROR = /^Jest: (?:".+" coverage threshold for|Uncovered count for|Coverage data for) /
+
+// Threshold failures fail the Jest run but not any test, so retries cannot clear them
+export const findCoverageThresholdErrors = (output: string): string[] =>
+  stripAnsi(output)
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => COVERAGE_THRESHOLD_ERROR.test(line))
+
+const toRelativePath = (filePath: string, rootDir: string): string =>
+  isAbsolute(filePath) ? relative(rootDir, filePath) : filePath
+
+const toCaseStatus = (status: JestAssertionResult['status']): TestCaseStatus => {
+  if (status === 'passed' || status === 'failed') return status
+  return 'skipped'
+}
+
+const toPercentage = (metric: CoverageMetric): number =>
+  typeof metric.pct === 'number' ? metric.pct : 100
+
+export const readJsonFile = <T>(filePath: string): T | undefined => {
+  if (!existsSync(filePath)) {
+    return undefined
+  }
+
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf8')) as T
+  } catch {
+    return undefined
+  }
+}
+
+export const parseCoverageSummary = (
+  summary: CoverageSummary,
+  rootDir: string = process.cwd()
+): { totals: CoverageTotals; byDirectory: Record<string, CoverageTotals> } | undefined => {
+  const total = summary.total
+  if (!total) {
+    return undefined
+  }
+
+  const totals = {} as CoverageTotals
+  COVERAGE_KEYS.forEach(key => {
+    totals[key] = toPercentage(total[key])
+  })
+
+  // Sum covered/total per directory so percentages are weighted by size
+  const sums = new Map<string, Record<keyof CoverageTotals, { covered: number; total: number }>>()
+
+  Object.entries(summary).forEach(([file, entry]) => {
+    if (file === 'total') return
+
+    const directory = dirname(toRelativePath(file, rootDir))
+    let bucket = sums.get(directory)
+    if (!bucket) {
+      bucket = {
+        lines: { covered: 0, total: 0 },
+        functions: { covered: 0, total: 0 },
+        branches: { covered: 0, total: 0 },
+        statements: { covered: 0, total: 0 },
+      }
+      sums.set(directory, bucket)
+    }
+
+    COVERAGE_KEYS.forEach(key => {
+      bucket![key].covered += entry[key].covered
+      bucket![key].total += entry[key].total
+    })
+  })
+
+  const byDirectory: Record<string, CoverageTotals> = {}
+  Array.from(sums.keys()).sort().forEach(directory => {
+    const bucket = sums.get(directory)!
+    const entry = {} as CoverageTotals
+    COVERAGE_KEYS.forEach(key => {
+      const { covered, total } = bucket[key]
+      entry[key] = total === 0 ? 100 : Math.round((covered / total) * 10000) / 100
+    })
+    byDirectory[directory] = entry
+  })
+
+  return { totals, byDirectory }
+}
+
+export const parseJestResults = (
+  json: JestJsonResults,
+  coverageSummary?: CoverageSummary,
+  rootDir: string = process.cwd()
+): ParsedJestResults => {
+  const errors: string[] = []
+
+  const files: TestFileResult[] = json.testResults.map(fileResult => {
+    const path = toRelativePath(fileResult.name, rootDir)
+
+    const tests: TestCaseResult[] = fileResult.assertionResults.map(assertion => ({
+      title: assertion.title,
+      fullName: assertion.fullName,
+      ancestors: assertion.ancestorTitles,
+      status: toCaseStatus(assertion.status),
+      duration: assertion.duration || 0,
+      failureMessages: assertion.failureMessages.map(stripAnsi),
+    }))
+
+    // A failed file without failed tests never got to run its tests
+    const hasFailedTest = tests.some(test => test.status === 'failed')
+    const failureMessage = fileResult.status === 'failed' && !hasFailedTest && fileResult.message
+      ? stripAnsi(fileResult.message)
+      : undefined
+
+    if (failureMessage) {
+      errors.push(`${path}: ${failureMessage}`)
+    }
+
+    return {
+      path,
+      status: fileResult.status,
+      duration: Math.max(0, fileResult.endTime - fileResult.startTime),
+      tests,
+      failureMessage,
+    }
+  })
+
+  const coverage = coverageSummary
+    ? parseCoverageSummary(coverageSummary, rootDir)
+    : undefined
+
+  const obsoleteSnapshots: ObsoleteSnapshot[] = [
+    ...(json.snapshot?.uncheckedKeysByFile || []).map(entry => ({
+      file: toRelativePath(entry.filePath, rootDir),
+      keys: entry.keys,
+    })),
+    ...(json.snapshot?.filesRemovedList || []).map(file => ({ file: toRelativePath(file, rootDir) })),
+  ]
+
+  return {
+    success: json.success && json.numFailedTests === 0 && json.numRuntimeErrorTestSuites === 0,
+    testsRun: json.numTotalTests,
+    testsPassed: json.numPassedTests,
+    testsFailed: json.numFailedTests,
+    testsSkipped: json.numPendingTests + json.numTodoTests,
+    files,
+    coverage: coverage?.totals,
+    coverageByDirectory: coverage?.byDirectory,
+    obsoleteSnapshots: obsoleteSnapshots.length > 0 ? obsoleteSnapshots : undefined,
+    errors,
+  }
+}
+
+// Flatten failed tests across files for reporting
+export const getFailedTests = (
+  files: TestFileResult[]
+): Array<{ file: string; test: TestCaseResult }> =>
+  files.flatMap(file =>
+    file.tests
+      .filter(test => test.status === 'failed')
+      .map(test => ({ file: file.path, test }))
+  )
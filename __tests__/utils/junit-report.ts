@@ -0,0 +1,96 @@
+/**
+ * JUnit XML Output
+ *
+ * Builds one JUnit document from TestRunner results, so sharded or
+ * multi-suite runs show up in CI as a single coherent run
+ */
+
+import type { TestExecutionResult } from './test-runner'
+
+export const JUNIT_SUITE_NAME = 'True Tap Test Suite'
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // XML 1.0 forbids most control characters
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+
+const toSeconds = (milliseconds: number): string => (milliseconds / 1000).toFixed(3)
+
+export const formatJUnitXml = (
+  results: Map<string, TestExecutionResult>,
+  suiteName: string = JUNIT_SUITE_NAME
+): string => {
+  const xml: string[] = []
+  let totalTests = 0
+  let totalFailures = 0
+  let totalSkipped = 0
+  let totalErrors = 0
+  let totalTime = 0
+
+  const testsuites: string[] = []
+
+  results.forEach((result, suiteKey) => {
+    result.files.forEach(file => {
+      const name = `${suiteKey} › ${file.path}`
+      const failures = file.tests.filter(test => test.status === 'failed').length
+      const skipped = file.tests.filter(test => test.status === 'skipped').length
+      const errors = file.failureMessage ? 1 : 0
+
+      totalTests += file.tests.length
+      totalFailures += failures
+      totalSkipped += skipped
+      totalErrors += errors
+      totalTime += file.duration
+
+      testsuites.push(
+        `  <testsuite name="${escapeXml(name)}" tests="${file.tests.length}" failures="${failures}" ` +
+        `skipped="${skipped}" errors="${errors}" time="${toSeconds(file.duration)}">`
+      )
+
+      if (file.failureMessage) {
+        testsuites.push(`    <error message="Test file failed to run">${escapeXml(file.failureMessage)}</error>`)
+      }
+
+      file.tests.forEach(test => {
+        const classname = escapeXml([suiteKey, ...test.ancestors].join(' › '))
+        const open = `    <testcase classname="${classname}" name="${escapeXml(test.title)}" file="${escapeXml(file.path)}" time="${toSeconds(test.duration)}"`
+
+        if (test.status === 'passed' && !test.flaky) {
+          testsuites.push(`${open} />`)
+          return
+        }
+
+        testsuites.push(`${open}>`)
+        if (test.status === 'skipped') {
+          testsuites.push('      <skipped />')
+        } else if (test.status === 'failed') {
+          const message = test.failureMessages[0]?.split('\n')[0] || 'Test failed'
+          testsuites.push(
+            `      <failure message="${escapeXml(message)}">${escapeXml(test.failureMessages.join('\n\n'))}</failure>`
+          )
+        }
+        if (test.flaky) {
+          testsuites.push(`      <system-out>Flaky: passed after ${test.attempts} attempts</system-out>`)
+        }
+        testsuites.push('    </testcase>')
+      })
+
+      testsuites.push('  </testsuite>')
+    })
+  })
+
+  xml.push('<?xml version="1.0" encoding="UTF-8"?>')
+  xml.push(
+    `<testsuites name="${escapeXml(suiteName)}" tests="${totalTests}" failures="${totalFailures}" ` +
+    `skipped="${totalSkipped}" errors="${totalErrors}" time="${toSeconds(totalTime)}">`
+  )
+  xml.push(...testsuites)
+  xml.push('</testsuites>')
+
+  return `${xml.join('\n')}\n`
+}
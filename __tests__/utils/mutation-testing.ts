@@ -0,0 +1,271 @@
+/**
+ * Mutation Testing
+ *
+ * Generates mutants for source files (flipped comparisons, swapped logical
+ * operators, removed awaits, changed constants), and tracks which ones the
+ * tests kill. Results are cached per file, keyed by the contents of the
+ * file and its tests, so reruns skip unchanged files.
+ */
+
+import { createHash } from 'crypto'
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import * as ts from 'typescript'
+import { stopJestProcesses } from './jest-process'
+
+export const MUTATION_CACHE_FILE = 'test-results/mutation-cache.json'
+
+// Bump when mutators change so cached results are not reused
+const MUTATOR_VERSION = 1
+
+export type MutatorName =
+  | 'comparison'
+  | 'equality'
+  | 'logical'
+  | 'remove-await'
+  | 'numeric-constant'
+  | 'boolean-constant'
+
+export interface Mutant {
+  id: number
+  mutator: MutatorName
+  line: number
+  column: number
+  start: number
+  end: number
+  original: string
+  replacement: string
+}
+
+// killed: a test failed; timeout: counts as killed; no-coverage: no test imports the file
+export type MutantStatus = 'killed' | 'survived' | 'timeout' | 'no-coverage'
+
+export interface MutantResult extends Mutant {
+  status: MutantStatus
+}
+
+export interface FileMutationReport {
+  file: string
+  tests: string[]
+  mutants: MutantResult[]
+  // killed (incl. timeouts) / all mutants, as a percentage; null without mutants
+  score: number | null
+  cached?: boolean
+  // Set when the file's tests fail before any mutation
+  error?: string
+}
+
+export interface MutationReport {
+  target: string
+  files: FileMutationReport[]
+  score: number | null
+}
+
+interface MutationCache {
+  version: number
+  files: Record<string, { hash: string; report: FileMutationReport }>
+}
+
+const COMPARISON_SWAPS: Partial<Record<ts.SyntaxKind, ts.SyntaxKind>> = {
+  [ts.SyntaxKind.LessThanToken]: ts.SyntaxKind.GreaterThanEqualsToken,
+  [ts.SyntaxKind.LessThanEqualsToken]: ts.SyntaxKind.GreaterThanToken,
+  [ts.SyntaxKind.GreaterThanToken]: ts.SyntaxKind.LessThanEqualsToken,
+  [ts.SyntaxKind.GreaterThanEqualsToken]: ts.SyntaxKind.LessThanToken,
+}
+
+const EQUALITY_SWAPS: Partial<Record<ts.SyntaxKind, ts.SyntaxKind>> = {
+  [ts.SyntaxKind.EqualsEqualsEqualsToken]: ts.SyntaxKind.ExclamationEqualsEqualsToken,
+  [ts.SyntaxKind.ExclamationEqualsEqualsToken]: ts.SyntaxKind.EqualsEqualsEqualsToken,
+  [ts.SyntaxKind.EqualsEqualsToken]: ts.SyntaxKind.ExclamationEqualsToken,
+  [ts.SyntaxKind.ExclamationEqualsToken]: ts.SyntaxKind.EqualsEqualsToken,
+}
+
+const LOGICAL_SWAPS: Partial<Record<ts.SyntaxKind, ts.SyntaxKind>> = {
+  [ts.SyntaxKind.AmpersandAmpersandToken]: ts.SyntaxKind.BarBarToken,
+  [ts.SyntaxKind.BarBarToken]: ts.SyntaxKind.AmpersandAmpersandToken,
+}
+
+// Literals in types, enums and import paths are not runtime behaviour
+const isInTypeOrDeclarationContext = (node: ts.Node): boolean => {
+  for (let current = node.parent; current; current = current.parent) {
+    if (ts.isTypeNode(current) || ts.isEnumMember(current) || ts.isImportDeclaration(current)) {
+      return true
+    }
+  }
+  return false
+}
+
+export const generateMutants = (source: string, fileName: string): Mutant[] => {
+  const sourceFile = ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest, true)
+  const mutants: Mutant[] = []
+
+  const add = (mutator: MutatorName, start: number, end: number, replacement: string) => {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(start)
+    mutants.push({
+      id: mutants.length + 1,
+      mutator,
+      line: line + 1,
+      column: character + 1,
+      start,
+      end,
+      original: source.slice(start, end),
+      replacement,
+    })
+  }
+
+  const visit = (node: ts.Node) => {
+    if (ts.isBinaryExpression(node)) {
+      const operator = node.operatorToken
+      const swaps: Array<[MutatorName, Partial<Record<ts.SyntaxKind, ts.SyntaxKind>>]> = [
+        ['comparison', COMPARISON_SWAPS],
+        ['equality', EQUALITY_SWAPS],
+        ['logical', LOGICAL_SWAPS],
+      ]
+
+      swaps.forEach(([mutator, table]) => {
+        const replacement = table[operator.kind]
+        if (replacement !== undefined) {
+          add(mutator, operator.getStart(sourceFile), operator.getEnd(), ts.tokenToString(replacement)!)
+        }
+      })
+    } else if (ts.isAwaitExpression(node)) {
+      // `await x` -> `x`: drops the wait, keeps the expression
+      add('remove-await', node.getStart(sourceFile), node.expression.getStart(sourceFile), '')
+    } else if (ts.isNumericLiteral(node) && !isInTypeOrDeclarationContext(node)) {
+      const value = Number(node.text)
+      add('numeric-constant', node.getStart(sourceFile), node.getEnd(), String(value === 0 ? 1 : value + 1))
+    } else if (
+      (node.kind === ts.SyntaxKind.TrueKeyword || node.kind === ts.SyntaxKind.FalseKeyword) &&
+      !isInTypeOrDeclarationContext(node)
+    ) {
+      add('boolean-constant', node.getStart(sourceFile), node.getEnd(), node.kind === ts.SyntaxKind.TrueKeyword ? 'false' : 'true')
+    }
+
+    ts.forEachChild(node, visit)
+  }
+
+  visit(sourceFile)
+  return mutants
+}
+
+export const applyMutant = (source: string, mutant: Mutant): string =>
+  `${source.slice(0, mutant.start)}${mutant.replacement}${source.slice(mutant.end)}`
+
+/**
+ * Writes a mutant to disk for the duration of `run`, restoring the original
+ * afterwards, including when the process is interrupted.
+ */
+export const withMutantOnDisk = async <T>(
+  file: string,
+  original: string,
+  mutated: string,
+  run: () => Promise<T>
+): Promise<T> => {
+  const restore = () => writeFileSync(file, original)
+  const onSignal = (signal: NodeJS.Signals) => {
+    // Jest would otherwise keep testing the restored file after we exit
+    stopJestProcesses()
+    restore()
+    process.exit(signal === 'SIGINT' ? 130 : 143)
+  }
+
+  process.once('SIGINT', onSignal)
+  process.once('SIGTERM', onSignal)
+  writeFileSync(file, mutated)
+
+  try {
+    return await run()
+  } finally {
+    restore()
+    process.removeListener('SIGINT', onSignal)
+    process.removeListener('SIGTERM', onSignal)
+  }
+}
+
+export const getMutationScore = (mutants: MutantResult[]): number | null => {
+  if (mutants.length === 0) return null
+  const detected = mutants.filter(mutant => mutant.status === 'killed' || mutant.status === 'timeout').length
+  return Math.round((detected / mutants.length) * 1000) / 10
+}
+
+// The file, its tests and everything they import, directly or not
+export const getDependencyClosure = (graph: Map<string, Set<string>>, files: string[]): string[] => {
+  const closure = new Set<string>()
+  const queue = [...files]
+
+  while (queue.length > 0) {
+    const file = queue.shift()!
+    if (closure.has(file)) continue
+    closure.add(file)
+    ;(graph.get(file) || []).forEach(dependency => queue.push(dependency))
+  }
+
+  return Array.from(closure).sort()
+}
+
+// Changes to the file, its tests, anything they import or the mutant limit
+// invalidate the cached result
+export const hashMutationInputs = (
+  file: string,
+  tests: string[],
+  graph: Map<string, Set<string>>,
+  options: { maxMutantsPerFile?: number } = {}
+): string => {
+  const hash = createHash('sha1').update(`v${MUTATOR_VERSION}\0max=${options.maxMutantsPerFile ?? 'all'}\0`)
+  getDependencyClosure(graph, [file, ...tests]).forEach(path => {
+    hash.update(`${path}\0`)
+    hash.update(existsSync(path) ? readFileSync(path) : '')
+    hash.update('\0')
+  })
+  return hash.digest('hex')
+}
+
+export const loadMutationCache = (cacheFile: string = MUTATION_CACHE_FILE): MutationCache => {
+  try {
+    const cache = JSON.parse(readFileSync(cacheFile, 'utf8')) as MutationCache
+    if (cache.version === MUTATOR_VERSION) return cache
+  } catch {
+    // Missing or unreadable cache: start over
+  }
+  return { version: MUTATOR_VERSION, files: {} }
+}
+
+export const saveMutationCache = (cache: MutationCache, cacheFile: string = MUTATION_CACHE_FILE) => {
+  writeFileSync(cacheFile, JSON.stringify(cache, null, 2))
+}
+
+export const formatMutationReport = (report: MutationReport): string => {
+  const lines: string[] = []
+  const formatScore = (score: number | null) => (score === null ? 'n/a' : `${score.toFixed(1)}%`)
+
+  lines.push('='.repeat(80))
+  lines.push(`MUTATION TESTING: ${report.target}`)
+  lines.push('='.repeat(80))
+
+  report.files.forEach(file => {
+    const killed = file.mutants.filter(mutant => mutant.status === 'killed' || mutant.status === 'timeout').length
+    const cached = file.cached ? ' (cached)' : ''
+    lines.push('')
+    lines.push(`${file.file}: ${formatScore(file.score)} (${killed}/${file.mutants.length} killed)${cached}`)
+
+    if (file.error) {
+      lines.push(`  ⚠️ ${file.error}`)
+      return
+    }
+    if (file.tests.length === 0) {
+      lines.push('  No tests import this file')
+    }
+
+    file.mutants
+      .filter(mutant => mutant.status === 'survived' || mutant.status === 'no-coverage')
+      .forEach(mutant => {
+        const replacement = mutant.replacement || '(removed)'
+        lines.push(`  - ${mutant.line}:${mutant.column} ${mutant.mutator}: ${mutant.original} → ${replacement} [${mutant.status}]`)
+      })
+  })
+
+  lines.push('')
+  lines.push(`Mutation score: ${formatScore(report.score)}`)
+  lines.push('')
+
+  return lines.join('\n')
+}
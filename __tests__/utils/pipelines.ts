@@ -0,0 +1,135 @@
+/**
+ * Test Pipelines
+ *
+ * Named pipelines of ordered phases (fast feedback, comprehensive,
+ * performance & device). Each phase runs its member suites within a time
+ * budget and only starts once the phases it depends on have passed.
+ */
+
+import type { TestExecutionResult } from './test-runner'
+
+export interface PipelinePhaseConfig {
+  name: string
+  suites: string[]
+  // Milliseconds; exceeding it is reported but does not fail the phase
+  budget: number
+  // Phases that must pass first (defaults to every earlier phase)
+  dependsOn?: string[]
+  // Only run member suites affected by changes since the base ref
+  affected?: boolean
+  parallel?: boolean
+}
+
+export interface PipelineConfig {
+  description?: string
+  phases: PipelinePhaseConfig[]
+}
+
+export type PhaseStatus = 'passed' | 'failed' | 'skipped'
+
+export interface PhaseResult {
+  name: string
+  status: PhaseStatus
+  // Suites that actually ran (affected phases may run a subset)
+  suites: string[]
+  duration: number
+  budget: number
+  overBudget: boolean
+  // Why a phase was skipped or ran fewer suites than configured
+  note?: string
+}
+
+export interface PipelineResult {
+  name: string
+  success: boolean
+  phases: PhaseResult[]
+  results: Map<string, TestExecutionResult>
+  duration: number
+}
+
+export const getPhaseDependencies = (config: PipelineConfig, index: number): string[] =>
+  config.phases[index].dependsOn ?? config.phases.slice(0, index).map(phase => phase.name)
+
+// Problems that would make the pipeline fail before running anything
+export const validatePipeline = (
+  name: string,
+  config: PipelineConfig,
+  knownSuites: string[]
+): string[] => {
+  const errors: string[] = []
+
+  if (!Array.isArray(config.phases) || config.phases.length === 0) {
+    return [`Pipeline '${name}' has no phases`]
+  }
+
+  config.phases.forEach((phase, index) => {
+    const label = `Pipeline '${name}' phase '${phase.name}'`
+    const earlierPhases = config.phases.slice(0, index).map(earlier => earlier.name)
+
+    if (config.phases.findIndex(other => other.name === phase.name) !== index) {
+      errors.push(`${label} is defined more than once`)
+    }
+
+    if (!Array.isArray(phase.suites) || phase.suites.length === 0) {
+      errors.push(`${label} has no suites`)
+    } else {
+      phase.suites
+        .filter(suite => !knownSuites.includes(suite))
+        .forEach(suite => errors.push(`${label} references unknown suite '${suite}'`))
+    }
+
+    if (typeof phase.budget !== 'number' || phase.budget <= 0) {
+      errors.push(`${label} needs a positive budget in milliseconds`)
+    }
+
+    ;(phase.dependsOn || [])
+      .filter(dependency => !earlierPhases.includes(dependency))
+      .forEach(dependency => errors.push(`${label} depends on '${dependency}', which is not an earlier phase`))
+  })
+
+  return errors
+}
+
+const formatMinutes = (milliseconds: number): string => {
+  const seconds = Math.round(milliseconds / 1000)
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`
+}
+
+const PHASE_STATUS_LABELS: Record<PhaseStatus, string> = {
+  passed: '✅ PASS',
+  failed: '❌ FAIL',
+  skipped: '⏭ SKIP',
+}
+
+export const formatPipelineReport = (result: PipelineResult): string => {
+  const lines: string[] = []
+
+  lines.push('-'.repeat(80))
+  lines.push(`PIPELINE: ${result.name}`)
+  lines.push('-'.repeat(80))
+
+  result.phases.forEach((phase, index) => {
+    const budget = phase.status === 'skipped'
+      ? ''
+      : ` — ${formatMinutes(phase.duration)} of ${formatMinutes(phase.budget)} budget`
+    lines.push(`${PHASE_STATUS_LABELS[phase.status]} Phase ${index + 1}: ${phase.name}${budget}`)
+
+    if (phase.suites.length > 0) {
+      lines.push(`  Suites: ${phase.suites.join(', ')}`)
+    }
+    if (phase.note) {
+      lines.push(`  ${phase.note}`)
+    }
+    if (phase.overBudget) {
+      lines.push(`  ⚠️ Over budget by ${formatMinutes(phase.duration - phase.budget)}`)
+    }
+  })
+
+  const overruns = result.phases.filter(phase => phase.overBudget).length
+  lines.push('')
+  lines.push(`Total: ${formatMinutes(result.duration)}${overruns > 0 ? ` (${overruns} phase(s) over budget)` : ''}`)
+  lines.push(result.success ? '✅ PIPELINE PASSED' : '❌ PIPELINE FAILED')
+  lines.push('')
+
+  return lines.join('\n')
+}
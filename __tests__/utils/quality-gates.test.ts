@@ -0,0 +1,121 @@
+/**
+ * Quality Gates Tests
+ *
+ * Gate thresholds are inclusive, and a gate without data only fails the
+ * run when it is marked required
+ */
+
+import {
+  QualityGatePolicy,
+  evaluateQualityGates,
+  validateQualityGatePolicy,
+} from './quality-gates'
+import type { CoverageTotals } from './jest-results'
+import type { QualityMetricRecord } from './quality-metrics'
+import type { TestExecutionResult } from './test-runner'
+
+const createResult = (overrides: Partial<TestExecutionResult> = {}): TestExecutionResult => ({
+  success: true,
+  testsRun: 1,
+  testsPassed: 1,
+  testsFailed: 0,
+  testsSkipped: 0,
+  files: [],
+  duration: 1000,
+  startedAt: 1000,
+  finishedAt: 2000,
+  errors: [],
+  ...overrides,
+})
+
+const coverage = (lines: number): CoverageTotals => ({ lines, functions: 100, branches: 100, statements: 100 })
+
+const performance = (test: string, averageRenderTime: number): QualityMetricRecord => ({
+  kind: 'performance',
+  test,
+  metrics: {
+    averageRenderTime,
+    averageFrameRate: 60,
+    peakMemoryUsage: 100,
+    renderTimeP95: averageRenderTime,
+    frameRateMin: 55,
+  },
+})
+
+const evaluate = (policy: QualityGatePolicy, results: Record<string, Partial<TestExecutionResult>>) =>
+  evaluateQualityGates(
+    policy,
+    new Map(Object.entries(results).map(([suite, overrides]) => [suite, createResult(overrides)]))
+  )
+
+describe('evaluateQualityGates', () => {
+  it('should pass a coverage gate at exactly the minimum', () => {
+    const verdict = evaluate(
+      { gates: [{ type: 'coverage', suite: 'unit', min: 85 }] },
+      { unit: { coverage: coverage(85) } }
+    )
+
+    expect(verdict.passed).toBe(true)
+    expect(verdict.gates[0]).toMatchObject({ name: 'unit lines coverage >= 85%', status: 'passed' })
+  })
+
+  it('should name every suite below a coverage gate without a suite', () => {
+    const verdict = evaluate(
+      { gates: [{ type: 'coverage', min: 80 }] },
+      { unit: { coverage: coverage(79.5) }, integration: { coverage: coverage(90) }, e2e: {} }
+    )
+
+    expect(verdict.passed).toBe(false)
+    expect(verdict.gates[0].reason).toBe('Below 80% lines: unit 79.5%')
+  })
+
+  it('should skip gates without data unless they are required', () => {
+    const verdict = evaluate(
+      {
+        gates: [
+          { type: 'accessibility' },
+          { type: 'device-matrix', minProfiles: 3, required: true },
+        ],
+      },
+      { unit: {} }
+    )
+
+    expect(verdict.gates.map(gate => gate.status)).toEqual(['skipped', 'failed'])
+    expect(verdict.gates[1].reason).toBe('No device-profile results were recorded (gate is required)')
+    expect(verdict.passed).toBe(false)
+  })
+
+  it('should average performance metrics and point at the worst test', () => {
+    const verdict = evaluate(
+      { gates: [{ type: 'performance', metric: 'averageRenderTime', max: 50 }] },
+      { unit: { qualityMetrics: [performance('Home renders', 40), performance('Send renders', 80)] } }
+    )
+
+    expect(verdict.gates[0]).toMatchObject({
+      status: 'failed',
+      reason: 'averageRenderTime 60 over 2 tests; worst: Send renders (80)',
+    })
+  })
+
+  it('should only count device profiles on which every test passed', () => {
+    const device = (profile: string, passed: boolean): QualityMetricRecord => ({ kind: 'device', profile, passed })
+    const verdict = evaluate(
+      { gates: [{ type: 'device-matrix', minProfiles: 2 }] },
+      { unit: { qualityMetrics: [device('pixel-7', true), device('iphone-se', true), device('iphone-se', false)] } }
+    )
+
+    expect(verdict.gates[0]).toMatchObject({ status: 'failed', reason: '1 of 2 profiles passing (failing: iphone-se)' })
+  })
+})
+
+describe('validateQualityGatePolicy', () => {
+  it('should reject gates missing their threshold or with unknown metrics', () => {
+    expect(() => validateQualityGatePolicy({ gates: [{ type: 'coverage' } as any] }, 'policy'))
+      .toThrow('Gate 1: coverage gates need "min"')
+    expect(() => validateQualityGatePolicy(
+      { gates: [{ name: 'FPS', type: 'performance', metric: 'fps' as any, min: 55 }] },
+      'policy'
+    )).toThrow("Gate 1 (FPS): unknown performance metric 'fps'")
+    expect(() => validateQualityGatePolicy({} as QualityGatePolicy, 'policy')).toThrow('must contain a "gates" array')
+  })
+})
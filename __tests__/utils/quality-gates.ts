@@ -0,0 +1,330 @@
+/**
+ * Quality Gates
+ *
+ * Evaluates the declarative gate policy (quality-gates.json, or inline in
+ * the runner config) after a run: coverage per suite, PerformanceTester
+ * metrics, accessibility violations and the device-profile matrix. Each gate
+ * reports a verdict with a reason; gates without data are skipped unless
+ * marked `required`.
+ */
+
+import { existsSync, readFileSync } from 'fs'
+import type { CoverageTotals } from './jest-results'
+import type { AccessibilityRecord, PerformanceMetrics, QualityMetricRecord } from './quality-metrics'
+import type { TestExecutionResult } from './test-runner'
+
+export const QUALITY_GATES_FILE = 'quality-gates.json'
+
+interface GateBase {
+  // Shown in the verdict; defaults to a description of the gate
+  name?: string
+  // Fail instead of skipping when the run produced no data for the gate
+  required?: boolean
+}
+
+export interface CoverageGate extends GateBase {
+  type: 'coverage'
+  // Defaults to every suite that collected coverage
+  suite?: string
+  metric?: keyof CoverageTotals
+  min: number
+}
+
+export interface PerformanceGate extends GateBase {
+  type: 'performance'
+  metric: keyof PerformanceMetrics
+  max?: number
+  min?: number
+}
+
+export interface AccessibilityGate extends GateBase {
+  type: 'accessibility'
+  maxViolations?: number
+}
+
+export interface DeviceMatrixGate extends GateBase {
+  type: 'device-matrix'
+  // Distinct device profiles on which every test passed
+  minProfiles: number
+}
+
+export type QualityGate = CoverageGate | PerformanceGate | AccessibilityGate | DeviceMatrixGate
+
+export interface QualityGatePolicy {
+  gates: QualityGate[]
+}
+
+export type GateStatus = 'passed' | 'failed' | 'skipped'
+
+export interface GateResult {
+  name: string
+  // 'plugin' for gates checked by runner plugins
+  type: QualityGate['type'] | 'plugin'
+  status: GateStatus
+  reason: string
+}
+
+export interface QualityVerdict {
+  passed: boolean
+  policyFile: string
+  gates: GateResult[]
+}
+
+const PERFORMANCE_METRICS: Array<keyof PerformanceMetrics> = [
+  'averageRenderTime',
+  'averageFrameRate',
+  'peakMemoryUsage',
+  'renderTimeP95',
+  'frameRateMin',
+]
+
+const COVERAGE_METRICS: Array<keyof CoverageTotals> = ['lines', 'functions', 'branches', 'statements']
+
+// Averages are averaged across tests; extremes take the worst test
+const aggregatePerformanceMetric = (metric: keyof PerformanceMetrics, values: number[]): number => {
+  switch (metric) {
+    case 'peakMemoryUsage':
+    case 'renderTimeP95':
+      return Math.max(...values)
+    case 'frameRateMin':
+      return Math.min(...values)
+    default:
+      return values.reduce((a, b) => a + b, 0) / values.length
+  }
+}
+
+const validateGate = (gate: QualityGate, index: number) => {
+  const label = `Gate ${index + 1}${gate.name ? ` (${gate.name})` : ''}`
+
+  switch (gate.type) {
+    case 'coverage':
+      if (typeof gate.min !== 'number') throw new Error(`${label}: coverage gates need "min"`)
+      if (gate.metric && !COVERAGE_METRICS.includes(gate.metric)) {
+        throw new Error(`${label}: unknown coverage metric '${gate.metric}'`)
+      }
+      return
+    case 'performance':
+      if (!PERFORMANCE_METRICS.includes(gate.metric)) {
+        throw new Error(`${label}: unknown performance metric '${gate.metric}'`)
+      }
+      if (typeof gate.min !== 'number' && typeof gate.max !== 'number') {
+        throw new Error(`${label}: performance gates need "min" or "max"`)
+      }
+      return
+    case 'accessibility':
+      return
+    case 'device-matrix':
+      if (typeof gate.minProfiles !== 'number') throw new Error(`${label}: device-matrix gates need "minProfiles"`)
+      return
+    default:
+      throw new Error(`${label}: unknown gate type '${(gate as { type: string }).type}'`)
+  }
+}
+
+export const loadQualityGatePolicy = (policyFile: string = QUALITY_GATES_FILE): QualityGatePolicy | undefined => {
+  if (!existsSync(policyFile)) {
+    return undefined
+  }
+
+  let policy: QualityGatePolicy
+  try {
+    policy = JSON.parse(readFileSync(policyFile, 'utf8'))
+  } catch (error: any) {
+    throw new Error(`Could not parse quality gate policy ${policyFile}: ${error.message}`)
+  }
+
+  return validateQualityGatePolicy(policy, policyFile)
+}
+
+// Also used for policies declared inline in the runner config
+export const validateQualityGatePolicy = (policy: QualityGatePolicy, source: string): QualityGatePolicy => {
+  if (!policy || !Array.isArray(policy.gates)) {
+    throw new Error(`Quality gate policy ${source} must contain a "gates" array`)
+  }
+
+  policy.gates.forEach(validateGate)
+  return policy
+}
+
+const describeGate = (gate: QualityGate): string => {
+  switch (gate.type) {
+    case 'coverage':
+      return `${gate.suite || 'All suites'} ${gate.metric || 'lines'} coverage >= ${gate.min}%`
+    case 'performance':
+      return [
+        typeof gate.min === 'number' ? `${gate.metric} >= ${gate.min}` : '',
+        typeof gate.max === 'number' ? `${gate.metric} <= ${gate.max}` : '',
+      ].filter(Boolean).join(' and ')
+    case 'accessibility':
+      return `Accessibility violations <= ${gate.maxViolations ?? 0}`
+    case 'device-matrix':
+      return `Tests pass on ${gate.minProfiles}+ device profiles`
+  }
+}
+
+const evaluateCoverageGate = (
+  gate: CoverageGate,
+  results: Map<string, TestExecutionResult>
+): Omit<GateResult, 'name' | 'type'> => {
+  const metric = gate.metric || 'lines'
+  const suites = Array.from(results.entries())
+    .filter(([key, result]) => (gate.suite ? key === gate.suite : true) && result.coverage)
+
+  if (suites.length === 0) {
+    return {
+      status: 'skipped',
+      reason: gate.suite ? `No coverage collected for suite '${gate.suite}'` : 'No suite collected coverage',
+    }
+  }
+
+  const below = suites.filter(([, result]) => result.coverage![metric] < gate.min)
+  const measured = suites.map(([key, result]) => `${key} ${result.coverage![metric]}%`).join(', ')
+
+  return below.length > 0
+    ? { status: 'failed', reason: `Below ${gate.min}% ${metric}: ${below.map(([key, result]) => `${key} ${result.coverage![metric]}%`).join(', ')}` }
+    : { status: 'passed', reason: measured }
+}
+
+const evaluatePerformanceGate = (
+  gate: PerformanceGate,
+  records: QualityMetricRecord[]
+): Omit<GateResult, 'name' | 'type'> => {
+  const samples = records.flatMap(record =>
+    record.kind === 'performance'
+      ? [{ value: record.metrics[gate.metric], where: record.test || record.file || 'unknown test' }]
+      : []
+  )
+
+  if (samples.length === 0) {
+    return { status: 'skipped', reason: 'No PerformanceTester metrics were recorded' }
+  }
+
+  const value = aggregatePerformanceMetric(gate.metric, samples.map(sample => sample.value))
+  const rounded = Math.round(value * 100) / 100
+  const tooHigh = typeof gate.max === 'number' && value > gate.max
+  const tooLow = typeof gate.min === 'number' && value < gate.min
+
+  if (!tooHigh && !tooLow) {
+    return { status: 'passed', reason: `${gate.metric} ${rounded} over ${samples.length} tests` }
+  }
+
+  // Point at the test that contributes most to the failure
+  const worst = samples.reduce((a, b) => (tooHigh ? (b.value > a.value ? b : a) : (b.value < a.value ? b : a)))
+  return {
+    status: 'failed',
+    reason: `${gate.metric} ${rounded} over ${samples.length} tests; worst: ${worst.where} (${Math.round(worst.value * 100) / 100})`,
+  }
+}
+
+const evaluateAccessibilityGate = (
+  gate: AccessibilityGate,
+  records: QualityMetricRecord[]
+): Omit<GateResult, 'name' | 'type'> => {
+  const checks = records.filter((record): record is AccessibilityRecord => record.kind === 'accessibility')
+
+  if (checks.length === 0) {
+    return { status: 'skipped', reason: 'No accessibility checks were recorded' }
+  }
+
+  const violations = checks.flatMap(check =>
+    check.violations.map(violation => `${violation.rule} in ${check.test || check.file || 'unknown test'}`)
+  )
+  const maxViolations = gate.maxViolations ?? 0
+
+  return violations.length > maxViolations
+    ? { status: 'failed', reason: `${violations.length} violations in ${checks.length} checks: ${violations.slice(0, 5).join('; ')}` }
+    : { status: 'passed', reason: `${violations.length} violations in ${checks.length} checks` }
+}
+
+const evaluateDeviceMatrixGate = (
+  gate: DeviceMatrixGate,
+  records: QualityMetricRecord[]
+): Omit<GateResult, 'name' | 'type'> => {
+  const profiles = new Map<string, { passed: number; failed: number }>()
+  records.forEach(record => {
+    if (record.kind !== 'device') return
+    const entry = profiles.get(record.profile) || { passed: 0, failed: 0 }
+    if (record.passed) {
+      entry.passed += 1
+    } else {
+      entry.failed += 1
+    }
+    profiles.set(record.profile, entry)
+  })
+
+  if (profiles.size === 0) {
+    return { status: 'skipped', reason: 'No device-profile results were recorded' }
+  }
+
+  const passing = Array.from(profiles.entries()).filter(([, entry]) => entry.failed === 0).map(([profile]) => profile)
+  const failing = Array.from(profiles.keys()).filter(profile => !passing.includes(profile))
+  const detail = failing.length > 0 ? ` (failing: ${failing.join(', ')})` : ''
+
+  return {
+    status: passing.length >= gate.minProfiles ? 'passed' : 'failed',
+    reason: `${passing.length} of ${profiles.size} profiles passing${detail}`,
+  }
+}
+
+export const evaluateQualityGates = (
+  policy: QualityGatePolicy,
+  results: Map<string, TestExecutionResult>,
+  policyFile: string = QUALITY_GATES_FILE
+): QualityVerdict => {
+  const records = Array.from(results.values()).flatMap(result => result.qualityMetrics || [])
+
+  const gates = policy.gates.map(gate => {
+    let outcome: Omit<GateResult, 'name' | 'type'>
+    switch (gate.type) {
+      case 'coverage':
+        outcome = evaluateCoverageGate(gate, results)
+        break
+      case 'performance':
+        outcome = evaluatePerformanceGate(gate, records)
+        break
+      case 'accessibility':
+        outcome = evaluateAccessibilityGate(gate, records)
+        break
+      case 'device-matrix':
+        outcome = evaluateDeviceMatrixGate(gate, records)
+        break
+    }
+
+    if (outcome.status === 'skipped' && gate.required) {
+      outcome = { status: 'failed', reason: `${outcome.reason} (gate is required)` }
+    }
+
+    return { name: gate.name || describeGate(gate), type: gate.type, ...outcome }
+  })
+
+  return {
+    passed: gates.every(gate => gate.status !== 'failed'),
+    policyFile,
+    gates,
+  }
+}
+
+const GATE_STATUS_LABELS: Record<GateStatus, string> = {
+  passed: '✅ PASS',
+  failed: '❌ FAIL',
+  skipped: '⏭ SKIP',
+}
+
+export const formatQualityVerdict = (verdict: QualityVerdict): string => {
+  const lines: string[] = []
+
+  lines.push('-'.repeat(80))
+  lines.push(`QUALITY GATES (${verdict.policyFile})`)
+  lines.push('-'.repeat(80))
+
+  verdict.gates.forEach(gate => {
+    lines.push(`${GATE_STATUS_LABELS[gate.status]} ${gate.name}`)
+    lines.push(`  ${gate.reason}`)
+  })
+
+  lines.push('')
+  lines.push(verdict.passed ? '✅ QUALITY GATES PASSED' : '❌ QUALITY GATES FAILED')
+  lines.push('')
+
+  return lines.join('\n')
+}
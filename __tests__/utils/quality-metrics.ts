@@ -0,0 +1,116 @@
+/**
+ * Quality Metrics
+ *
+ * Carries PerformanceTester metrics, accessibility check results, the
+ * device-profile matrix and per-file heap usage from Jest workers back to
+ * TestRunner. The runner sets TRUETAP_QUALITY_METRICS_DIR; each worker
+ * appends JSON lines there. Outside the runner, recording is a no-op.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, readdirSync } from 'fs'
+import { join, relative } from 'path'
+
+export const QUALITY_METRICS_ENV = 'TRUETAP_QUALITY_METRICS_DIR'
+
+// Shape returned by PerformanceTester.getMetrics()
+export interface PerformanceMetrics {
+  averageRenderTime: number
+  averageFrameRate: number
+  peakMemoryUsage: number
+  renderTimeP95: number
+  frameRateMin: number
+}
+
+interface QualityRecordBase {
+  // Repository-relative test file and full test name, when recorded inside a test
+  file?: string
+  test?: string
+  recordedAt?: number
+}
+
+export interface PerformanceRecord extends QualityRecordBase {
+  kind: 'performance'
+  metrics: PerformanceMetrics
+}
+
+export interface AccessibilityRecord extends QualityRecordBase {
+  kind: 'accessibility'
+  violations: Array<{ rule: string; description: string }>
+}
+
+export interface DeviceRecord extends QualityRecordBase {
+  kind: 'device'
+  profile: string
+  passed: boolean
+  error?: string
+}
+
+// Recorded once per test file, after its tests finish
+export interface HeapRecord extends QualityRecordBase {
+  kind: 'heap'
+  // Heap used after the file's tests minus before them, in bytes
+  heapRetained: number
+}
+
+export type QualityMetricRecord = PerformanceRecord | AccessibilityRecord | DeviceRecord | HeapRecord
+
+// Omit applied to each union member so every record kind keeps its own fields
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never
+
+type RecordInput = DistributiveOmit<QualityMetricRecord, 'file' | 'test' | 'recordedAt'>
+
+const getTestContext = (): QualityRecordBase => {
+  const state = (globalThis as any).expect?.getState?.()
+  if (!state) return {}
+
+  return {
+    file: state.testPath ? relative(process.cwd(), state.testPath).replace(/\\/g, '/') : undefined,
+    test: state.currentTestName,
+  }
+}
+
+export const recordQualityMetric = (input: RecordInput) => {
+  const directory = process.env[QUALITY_METRICS_ENV]
+  if (!directory) return
+
+  const context = getTestContext()
+  // Heap usage belongs to the file; the last test's name would mislead
+  const record = { ...context, test: input.kind === 'heap' ? undefined : context.test, ...input, recordedAt: Date.now() }
+  mkdirSync(directory, { recursive: true })
+  // One file per worker avoids interleaved writes
+  appendFileSync(join(directory, `${process.pid}.jsonl`), `${JSON.stringify(record)}\n`)
+}
+
+const getRecordKey = (record: QualityMetricRecord): string =>
+  [record.kind, record.file, record.test, record.kind === 'device' ? record.profile : ''].join('|')
+
+// Later records for the same test (e.g. from a retry) replace earlier ones
+export const readQualityMetrics = (directory: string): QualityMetricRecord[] => {
+  if (!existsSync(directory)) {
+    return []
+  }
+
+  const parsed: QualityMetricRecord[] = []
+
+  readdirSync(directory)
+    .filter(file => file.endsWith('.jsonl'))
+    .forEach(file => {
+      readFileSync(join(directory, file), 'utf8')
+        .split('\n')
+        .filter(line => line.trim())
+        .forEach(line => {
+          try {
+            parsed.push(JSON.parse(line) as QualityMetricRecord)
+          } catch {
+            // A worker killed mid-write leaves a partial line
+          }
+        })
+    })
+
+  const records = new Map<string, QualityMetricRecord>()
+  parsed
+    .sort((a, b) => (a.recordedAt || 0) - (b.recordedAt || 0))
+    .forEach(record => records.set(getRecordKey(record), record))
+
+  return Array.from(records.values())
+}
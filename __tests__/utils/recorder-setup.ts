@@ -0,0 +1,21 @@
+/**
+ * Runner Recorder Setup
+ *
+ * Added to every Jest project's setupFilesAfterEnv by the config the
+ * runner generates for its runs (see writeRunnerJestConfig), so the
+ * recorders run in every test file whatever setup files a project lists.
+ * Each recorder is a no-op unless the runner enabled it for the run.
+ */
+
+import { installHeapRecorder } from './resource-diagnostics'
+import { installTestImpactRecorder } from './test-impact'
+import { installIsolationRecorder } from './test-isolation'
+
+// Per-test source coverage while `test-runner impact` builds the impact map
+installTestImpactRecorder()
+
+// Heap retained by this file's tests, tracked across runs for leak detection
+installHeapRecorder()
+
+// State snapshots that isolation-environment compares, for `test-runner isolation`
+installIsolationRecorder()
@@ -0,0 +1,649 @@
+/**
+ * Report Writers
+ *
+ * Renders a TestRunner run as plain text, Markdown (PR comments), JSON
+ * (described by test-report.schema.json), merged JUnit XML or a
+ * self-contained HTML dashboard. All writers share one RunReport model.
+ */
+
+import { FailureCluster, clusterFailures, formatFailureClusters, getClusterIndex } from './failure-clusters'
+import {
+  FlakyTestSummary,
+  QuarantineEntry,
+  describeFailureRate,
+  findQuarantineEntry,
+  formatFlakyReport,
+  getTestFailureRates,
+  getTestKey,
+} from './flaky-tests'
+import { CoverageTotals, TestFileResult, getFailedTests } from './jest-results'
+import { formatJUnitXml } from './junit-report'
+import {
+  HeapGrowth,
+  OpenHandle,
+  describeOpenHandle,
+  findHeapGrowth,
+  formatBytes,
+} from './resource-diagnostics'
+import type { HistoryRun } from './results-history'
+import type { ShardSpec } from './test-sharding'
+import { TagSummary, summarizeTags } from './test-tags'
+import type { TestExecutionResult } from './test-runner'
+
+export const REPORT_SCHEMA_VERSION = 1
+
+// Relative to the default output directory (test-results/)
+export const REPORT_SCHEMA_REF = '../__tests__/utils/test-report.schema.json'
+
+export type SuiteStatus = 'passed' | 'failed' | 'cancelled'
+
+export type RunStatus = 'passed' | 'passed-with-quarantined-failures' | 'failed'
+
+export interface SuiteReport {
+  key: string
+  name: string
+  status: SuiteStatus
+  testsRun: number
+  testsPassed: number
+  testsFailed: number
+  testsSkipped: number
+  duration: number
+  coverage?: CoverageTotals
+  coverageByDirectory?: Record<string, CoverageTotals>
+  shard?: ShardSpec
+  // Seed of a randomized test order
+  seed?: number
+  files: TestFileResult[]
+  openHandles: OpenHandle[]
+  errors: string[]
+}
+
+export interface RunSummary {
+  totalTests: number
+  passed: number
+  failed: number
+  skipped: number
+  flaky: number
+  quarantined: number
+  // Percentage of tests passed; null when no tests ran
+  successRate: number | null
+  wallClockDuration: number
+  summedDuration: number
+  // Summed suite duration over wall clock; null when nothing ran
+  parallelism: number | null
+}
+
+export interface RunReport {
+  $schema: string
+  schemaVersion: number
+  generatedAt: string
+  status: RunStatus
+  summary: RunSummary
+  suites: SuiteReport[]
+  flaky: FlakyTestSummary[]
+  quarantined: FlakyTestSummary[]
+  // Failures grouped by shared cause, largest first
+  failureClusters: FailureCluster[]
+  // Test files whose heap kept growing across recent runs
+  heapGrowth: HeapGrowth[]
+  // Results per `@tag` found in test names
+  tags: TagSummary[]
+}
+
+export interface ReportWriter {
+  // Name used with `--report`
+  format: string
+  // Written below the output directory
+  fileName: string
+  render: (report: RunReport, results: Map<string, TestExecutionResult>) => string
+}
+
+export interface RunReportContext {
+  suiteNames: Record<string, string>
+  quarantine: QuarantineEntry[]
+  // Recent runs, used for flaky and quarantined failure rates and heap trends
+  history: HistoryRun[]
+}
+
+export const buildRunReport = (
+  results: Map<string, TestExecutionResult>,
+  context: RunReportContext
+): RunReport => {
+  const suites: SuiteReport[] = []
+  const flaky: FlakyTestSummary[] = []
+  const quarantined: FlakyTestSummary[] = []
+
+  results.forEach((result, key) => {
+    suites.push({
+      key,
+      name: context.suiteNames[key] || key,
+      status: result.cancelled ? 'cancelled' : result.success ? 'passed' : 'failed',
+      testsRun: result.testsRun,
+      testsPassed: result.testsPassed,
+      testsFailed: result.testsFailed,
+      testsSkipped: result.testsSkipped,
+      duration: result.duration,
+      coverage: result.coverage,
+      coverageByDirectory: result.coverageByDirectory,
+      shard: result.shard,
+      seed: result.seed,
+      files: result.files,
+      openHandles: result.openHandles || [],
+      errors: result.errors,
+    })
+
+    result.files.forEach(file => {
+      file.tests.forEach(test => {
+        const summary: FlakyTestSummary = {
+          suite: key,
+          file: file.path,
+          fullName: test.fullName,
+          status: test.status,
+          attempts: test.attempts,
+        }
+
+        if (test.flaky) {
+          flaky.push(summary)
+        }
+        if (test.quarantined) {
+          const entry = findQuarantineEntry(context.quarantine, file.path, test.fullName)
+          quarantined.push({ ...summary, reason: entry?.reason, issue: entry?.issue })
+        }
+      })
+    })
+  })
+
+  if (flaky.length > 0 || quarantined.length > 0) {
+    const failureRates = getTestFailureRates(
+      context.history,
+      [...flaky, ...quarantined].map(test => getTestKey(test.file, test.fullName))
+    )
+    ;[...flaky, ...quarantined].forEach(test => {
+      test.failureRate = failureRates.get(getTestKey(test.file, test.fullName))
+    })
+  }
+
+  const totalTests = suites.reduce((sum, suite) => sum + suite.testsRun, 0)
+  const passed = suites.reduce((sum, suite) => sum + suite.testsPassed, 0)
+  const failed = suites.reduce((sum, suite) => sum + suite.testsFailed, 0)
+  const summedDuration = suites.reduce((sum, suite) => sum + suite.duration, 0)
+
+  const allResults = Array.from(results.values())
+  const wallClockDuration = allResults.length > 0
+    ? Math.max(...allResults.map(result => result.finishedAt)) - Math.min(...allResults.map(result => result.startedAt))
+    : 0
+
+  const allSuitesPassed = suites.every(suite => suite.status === 'passed')
+
+  return {
+    $schema: REPORT_SCHEMA_REF,
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    status: !allSuitesPassed ? 'failed' : failed > 0 ? 'passed-with-quarantined-failures' : 'passed',
+    summary: {
+      totalTests,
+      passed,
+      failed,
+      skipped: suites.reduce((sum, suite) => sum + suite.testsSkipped, 0),
+      flaky: flaky.length,
+      quarantined: quarantined.length,
+      successRate: totalTests > 0 ? Math.round((passed / totalTests) * 1000) / 10 : null,
+      wallClockDuration,
+      summedDuration,
+      parallelism: wallClockDuration > 0 ? Math.round((summedDuration / wallClockDuration) * 100) / 100 : null,
+    },
+    suites,
+    flaky,
+    quarantined,
+    failureClusters: clusterFailures(results),
+    heapGrowth: findHeapGrowth(context.history),
+    tags: summarizeTags(results),
+  }
+}
+
+const formatSeconds = (milliseconds: number): string => `${(milliseconds / 1000).toFixed(2)}s`
+
+const formatSuccessRate = (summary: RunSummary): string =>
+  summary.successRate === null ? 'n/a (no tests ran)' : `${summary.successRate.toFixed(1)}%`
+
+const SUITE_STATUS_LABELS: Record<SuiteStatus, string> = {
+  passed: '✅ PASS',
+  failed: '❌ FAIL',
+  cancelled: '⏹ CANCELLED',
+}
+
+const RUN_STATUS_LABELS: Record<RunStatus, string> = {
+  passed: '✅ ALL TESTS PASSED',
+  'passed-with-quarantined-failures': '✅ PASSED (quarantined failures only)',
+  failed: '❌ SOME TESTS FAILED',
+}
+
+const firstLine = (text?: string): string => text?.trim().split('\n')[0] || ''
+
+export const textReportWriter: ReportWriter = {
+  format: 'text',
+  fileName: 'report.txt',
+  render: report => {
+    const lines: string[] = []
+    const clusterIndex = getClusterIndex(report.failureClusters)
+
+    lines.push('='.repeat(80))
+    lines.push('TRUE TAP - TESTING INTEGRATION REPORT')
+    lines.push('='.repeat(80))
+    lines.push('')
+
+    report.suites.forEach(suite => {
+      lines.push(`${SUITE_STATUS_LABELS[suite.status]} ${suite.name}`)
+      lines.push(`  Tests: ${suite.testsRun} total, ${suite.testsPassed} passed, ${suite.testsFailed} failed, ${suite.testsSkipped} skipped`)
+      lines.push(`  Duration: ${formatSeconds(suite.duration)}`)
+
+      if (suite.seed !== undefined) {
+        lines.push(`  Test order: randomized, seed ${suite.seed}`)
+      }
+
+      if (suite.coverage) {
+        lines.push(`  Coverage: ${suite.coverage.statements}% statements, ${suite.coverage.branches}% branches`)
+      }
+
+      const failedTests = getFailedTests(suite.files)
+      if (failedTests.length > 0) {
+        lines.push(`  Failed Tests: ${failedTests.length}`)
+        failedTests.forEach(({ file, test }) => {
+          const marker = test.quarantined ? ' [quarantined]' : ''
+          lines.push(`    - ${file} › ${test.fullName} (${test.duration}ms)${marker}`)
+          // Shared causes are described once, in the clusters section
+          const cluster = clusterIndex.get(`${suite.key}|${file}|${test.fullName}`)
+          const message = cluster && cluster.size > 1
+            ? `See failure cluster #${cluster.id}`
+            : firstLine(test.failureMessages[0])
+          if (message) {
+            lines.push(`      ${message}`)
+          }
+        })
+      }
+
+      if (suite.errors.length > 0) {
+        lines.push(`  Errors: ${suite.errors.length}`)
+        suite.errors.forEach(error => {
+          lines.push(`    - ${error.split('\n')[0]}`)
+        })
+      }
+
+      if (suite.openHandles.length > 0) {
+        lines.push(`  Open Handles: ${suite.openHandles.length}`)
+        suite.openHandles.forEach(handle => {
+          lines.push(`    - ${describeOpenHandle(handle)}`)
+        })
+      }
+
+      lines.push('')
+    })
+
+    if (report.failureClusters.length > 0) {
+      lines.push(...formatFailureClusters(report.failureClusters))
+    }
+
+    if (report.flaky.length > 0 || report.quarantined.length > 0) {
+      lines.push(...formatFlakyReport(report.flaky, report.quarantined))
+    }
+
+    if (report.heapGrowth.length > 0) {
+      lines.push('-'.repeat(80))
+      lines.push('HEAP GROWTH ACROSS RUNS')
+      lines.push('-'.repeat(80))
+      report.heapGrowth.forEach(entry => {
+        lines.push(`  - ${entry.file} (${entry.suite}): +${formatBytes(entry.growth)}`)
+        lines.push(`    ${entry.samples.map(formatBytes).join(' → ')}`)
+      })
+      lines.push('')
+    }
+
+    if (report.tags.length > 0) {
+      lines.push('-'.repeat(80))
+      lines.push('RESULTS BY TAG')
+      lines.push('-'.repeat(80))
+      report.tags.forEach(tag => {
+        lines.push(
+          `  @${tag.tag}: ${tag.total} tests, ${tag.passed} passed, ${tag.failed} failed, ${tag.skipped} skipped ` +
+          `(${tag.suites.join(', ')})`
+        )
+      })
+      lines.push('')
+    }
+
+    const { summary } = report
+    lines.push('-'.repeat(80))
+    lines.push('SUMMARY')
+    lines.push('-'.repeat(80))
+    lines.push(`Total Tests: ${summary.totalTests}`)
+    lines.push(`Passed: ${summary.passed}`)
+    lines.push(`Failed: ${summary.failed}`)
+    lines.push(`Flaky: ${summary.flaky}`)
+    lines.push(`Quarantined: ${summary.quarantined}`)
+    lines.push(`Success Rate: ${formatSuccessRate(summary)}`)
+    lines.push(`Wall Clock: ${formatSeconds(summary.wallClockDuration)}`)
+    lines.push(`Summed Suite Duration: ${formatSeconds(summary.summedDuration)}`)
+    if (summary.parallelism !== null) {
+      lines.push(`Effective Parallelism: ${summary.parallelism.toFixed(2)}x`)
+    }
+    lines.push('')
+
+    lines.push(RUN_STATUS_LABELS[report.status])
+    lines.push('')
+
+    return lines.join('\n')
+  },
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+// Table cells cannot contain pipes or line breaks
+const escapeMarkdownCell = (text: string): string =>
+  text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ')
+
+export const markdownReportWriter: ReportWriter = {
+  format: 'md',
+  fileName: 'report.md',
+  render: report => {
+    const { summary } = report
+    const lines: string[] = []
+
+    lines.push(`## ${RUN_STATUS_LABELS[report.status]}`)
+    lines.push('')
+    lines.push(
+      `**${summary.totalTests}** tests: ${summary.passed} passed, ${summary.failed} failed, ${summary.skipped} skipped, ` +
+      `${summary.flaky} flaky, ${summary.quarantined} quarantined · success rate ${formatSuccessRate(summary)} · ` +
+      `${formatSeconds(summary.wallClockDuration)} wall clock`
+    )
+    lines.push('')
+
+    lines.push('| Suite | Status | Tests | Passed | Failed | Skipped | Duration | Coverage (statements / branches) |')
+    lines.push('| --- | --- | ---: | ---: | ---: | ---: | ---: | --- |')
+    report.suites.forEach(suite => {
+      const coverage = suite.coverage ? `${suite.coverage.statements}% / ${suite.coverage.branches}%` : '—'
+      lines.push(
+        `| ${escapeMarkdownCell(suite.name)} | ${SUITE_STATUS_LABELS[suite.status]} | ${suite.testsRun} | ${suite.testsPassed} | ` +
+        `${suite.testsFailed} | ${suite.testsSkipped} | ${formatSeconds(suite.duration)} | ${coverage} |`
+      )
+    })
+
+    if (report.failureClusters.length > 0) {
+      lines.push('')
+      lines.push(`### Failure clusters (${report.failureClusters.length})`)
+      lines.push('')
+      lines.push('| # | Failures | Suites | Suspected source | Error | Example |')
+      lines.push('| ---: | ---: | --- | --- | --- | --- |')
+      report.failureClusters.forEach(cluster => {
+        const { representative } = cluster
+        const example = representative.test ? `${representative.file} › ${representative.test}` : representative.file
+        const source = cluster.suspectedSource ? `\`${escapeMarkdownCell(cluster.topFrame || cluster.suspectedSource)}\`` : '—'
+        lines.push(
+          `| ${cluster.id} | ${cluster.size} | ${cluster.suites.join(', ')} | ${source} | ` +
+          `${escapeMarkdownCell(cluster.signature)} | ${escapeMarkdownCell(example)} |`
+        )
+      })
+    }
+
+    const failedTests = report.suites.flatMap(suite =>
+      getFailedTests(suite.files).map(entry => ({ ...entry, suite }))
+    )
+    if (failedTests.length > 0) {
+      lines.push('')
+      lines.push(`### Failed tests (${failedTests.length})`)
+      failedTests.forEach(({ suite, file, test }) => {
+        const marker = test.quarantined ? ' _(quarantined)_' : ''
+        lines.push('')
+        lines.push('<details>')
+        lines.push(
+          `<summary><b>${escapeHtml(suite.name)}</b> › <code>${escapeHtml(file)}</code> › ${escapeHtml(test.fullName)}${marker}</summary>`
+        )
+        lines.push('')
+        lines.push('```')
+        lines.push(test.failureMessages.join('\n\n').trim())
+        lines.push('```')
+        lines.push('</details>')
+      })
+    }
+
+    const errors = report.suites.flatMap(suite => suite.errors.map(error => ({ suite, error })))
+    if (errors.length > 0) {
+      lines.push('')
+      lines.push(`### Errors (${errors.length})`)
+      errors.forEach(({ suite, error }) => lines.push(`- **${suite.name}**: ${escapeMarkdownCell(firstLine(error))}`))
+    }
+
+    const openHandles = report.suites.flatMap(suite => suite.openHandles.map(handle => ({ suite, handle })))
+    if (openHandles.length > 0) {
+      lines.push('')
+      lines.push(`### Open handles (${openHandles.length})`)
+      openHandles.forEach(({ suite, handle }) => {
+        lines.push(`- **${suite.name}**: ${escapeMarkdownCell(describeOpenHandle(handle))}`)
+      })
+    }
+
+    if (report.heapGrowth.length > 0) {
+      lines.push('')
+      lines.push('### Heap growth across runs')
+      lines.push('')
+      lines.push('| Test file | Suite | Growth | Heap retained by file (oldest → latest) |')
+      lines.push('| --- | --- | ---: | --- |')
+      report.heapGrowth.forEach(entry => {
+        lines.push(
+          `| \`${escapeMarkdownCell(entry.file)}\` | ${entry.suite} | +${formatBytes(entry.growth)} | ` +
+          `${entry.samples.map(formatBytes).join(' → ')} |`
+        )
+      })
+    }
+
+    if (report.tags.length > 0) {
+      lines.push('')
+      lines.push('### Results by tag')
+      lines.push('')
+      lines.push('| Tag | Tests | Passed | Failed | Skipped | Suites |')
+      lines.push('| --- | ---: | ---: | ---: | ---: | --- |')
+      report.tags.forEach(tag => {
+        lines.push(
+          `| \`@${escapeMarkdownCell(tag.tag)}\` | ${tag.total} | ${tag.passed} | ${tag.failed} | ${tag.skipped} | ` +
+          `${tag.suites.join(', ')} |`
+        )
+      })
+    }
+
+    if (report.flaky.length > 0 || report.quarantined.length > 0) {
+      lines.push('')
+      lines.push('### Flaky & quarantined tests')
+      lines.push('')
+      lines.push('| Test | Kind | Status | Details |')
+      lines.push('| --- | --- | --- | --- |')
+      report.flaky.forEach(test => {
+        lines.push(
+          `| \`${escapeMarkdownCell(test.file)}\` › ${escapeMarkdownCell(test.fullName)} | flaky | ${test.status} | ` +
+          `${test.attempts} attempts; ${describeFailureRate(test.failureRate)} |`
+        )
+      })
+      report.quarantined.forEach(test => {
+        const reason = escapeMarkdownCell(test.reason || 'No reason recorded')
+        lines.push(
+          `| \`${escapeMarkdownCell(test.file)}\` › ${escapeMarkdownCell(test.fullName)} | quarantined | ${test.status} | ` +
+          `${reason}; ${describeFailureRate(test.failureRate)} |`
+        )
+      })
+    }
+
+    lines.push('')
+    return lines.join('\n')
+  },
+}
+
+export const jsonReportWriter: ReportWriter = {
+  format: 'json',
+  fileName: 'report.json',
+  render: report => `${JSON.stringify(report, null, 2)}\n`,
+}
+
+// jest-junit already writes junit.xml for each Jest run
+export const junitReportWriter: ReportWriter = {
+  format: 'junit',
+  fileName: 'junit-merged.xml',
+  render: (_report, results) => formatJUnitXml(results),
+}
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; margin: 2rem; color: #1f2328; }
+  h1 { font-size: 1.5rem; }
+  .cards { display: flex; gap: 1rem; flex-wrap: wrap; margin-bottom: 1.5rem; }
+  .card { border: 1px solid #d0d7de; border-radius: 6px; padding: 0.75rem 1rem; min-width: 8rem; }
+  .card b { display: block; font-size: 1.4rem; }
+  .passed { color: #1a7f37; } .failed { color: #cf222e; } .cancelled, .skipped { color: #9a6700; }
+  details.suite { border: 1px solid #d0d7de; border-radius: 6px; margin-bottom: 0.75rem; padding: 0.5rem 1rem; }
+  details.suite > summary { cursor: pointer; font-weight: 600; }
+  table { border-collapse: collapse; width: 100%; margin: 0.5rem 0; }
+  th, td { text-align: left; padding: 0.25rem 0.5rem; border-bottom: 1px solid #eaeef2; vertical-align: top; }
+  pre { background: #f6f8fa; padding: 0.5rem; overflow-x: auto; white-space: pre-wrap; }
+`
+
+const renderHtmlFile = (file: TestFileResult): string => {
+  const rows = file.tests.map(test => {
+    const markers = [test.flaky ? 'flaky' : '', test.quarantined ? 'quarantined' : ''].filter(Boolean).join(', ')
+    const failure = test.failureMessages.length > 0
+      ? `<pre>${escapeHtml(test.failureMessages.join('\n\n'))}</pre>`
+      : ''
+    return (
+      `<tr><td class="${test.status}">${test.status}</td><td>${escapeHtml(test.fullName)}${failure}</td>` +
+      `<td>${test.duration}ms</td><td>${markers}</td></tr>`
+    )
+  })
+
+  return [
+    `<details${file.status === 'failed' ? ' open' : ''}>`,
+    `<summary class="${file.status}">${escapeHtml(file.path)} (${file.tests.length} tests, ${formatSeconds(file.duration)})</summary>`,
+    file.failureMessage ? `<pre>${escapeHtml(file.failureMessage)}</pre>` : '',
+    '<table><tr><th>Status</th><th>Test</th><th>Duration</th><th>Notes</th></tr>',
+    ...rows,
+    '</table>',
+    '</details>',
+  ].join('\n')
+}
+
+export const htmlReportWriter: ReportWriter = {
+  format: 'html',
+  fileName: 'report.html',
+  render: report => {
+    const { summary } = report
+
+    const cards = [
+      ['Tests', summary.totalTests],
+      ['Passed', summary.passed],
+      ['Failed', summary.failed],
+      ['Skipped', summary.skipped],
+      ['Flaky', summary.flaky],
+      ['Quarantined', summary.quarantined],
+      ['Success rate', formatSuccessRate(summary)],
+      ['Wall clock', formatSeconds(summary.wallClockDuration)],
+    ].map(([label, value]) => `<div class="card">${label}<b>${escapeHtml(String(value))}</b></div>`)
+
+    const suites = report.suites.map(suite => {
+      const coverage = suite.coverage
+        ? `<table><tr><th>Directory</th><th>Lines</th><th>Functions</th><th>Branches</th><th>Statements</th></tr>` +
+          Object.entries(suite.coverageByDirectory || {})
+            .map(([directory, totals]) =>
+              `<tr><td>${escapeHtml(directory)}</td><td>${totals.lines}%</td><td>${totals.functions}%</td>` +
+              `<td>${totals.branches}%</td><td>${totals.statements}%</td></tr>`
+            )
+            .join('') +
+          '</table>'
+        : ''
+
+      return [
+        `<details class="suite"${suite.status === 'passed' ? '' : ' open'}>`,
+        `<summary><span class="${suite.status}">${SUITE_STATUS_LABELS[suite.status]}</span> ${escapeHtml(suite.name)} — ` +
+          `${suite.testsPassed}/${suite.testsRun} passed, ${formatSeconds(suite.duration)}</summary>`,
+        ...suite.errors.map(error => `<pre>${escapeHtml(error)}</pre>`),
+        suite.openHandles.length > 0
+          ? `<h3>Open handles (${suite.openHandles.length})</h3>` +
+            suite.openHandles
+              .map(handle => `<p>${escapeHtml(describeOpenHandle(handle))}</p><pre>${escapeHtml(handle.stack.join('\n'))}</pre>`)
+              .join('')
+          : '',
+        coverage,
+        ...suite.files.map(renderHtmlFile),
+        '</details>',
+      ].join('\n')
+    })
+
+    const clusters = report.failureClusters.length > 0
+      ? [
+          `<h2>Failure clusters (${report.failureClusters.length})</h2>`,
+          '<table><tr><th>#</th><th>Failures</th><th>Suites</th><th>Suspected source</th><th>Representative failure</th></tr>',
+          ...report.failureClusters.map(cluster => {
+            const { representative } = cluster
+            const example = representative.test ? `${representative.file} › ${representative.test}` : representative.file
+            return (
+              `<tr><td>${cluster.id}</td><td>${cluster.size}</td><td>${escapeHtml(cluster.suites.join(', '))}</td>` +
+              `<td>${escapeHtml(cluster.topFrame || cluster.suspectedSource || '—')}</td>` +
+              `<td>${escapeHtml(example)}<pre>${escapeHtml(representative.message)}</pre></td></tr>`
+            )
+          }),
+          '</table>',
+        ]
+      : []
+
+    const heapGrowth = report.heapGrowth.length > 0
+      ? [
+          '<h2>Heap growth across runs</h2>',
+          '<table><tr><th>Test file</th><th>Suite</th><th>Growth</th><th>Heap retained by file (oldest → latest)</th></tr>',
+          ...report.heapGrowth.map(entry =>
+            `<tr><td>${escapeHtml(entry.file)}</td><td>${escapeHtml(entry.suite)}</td><td>+${formatBytes(entry.growth)}</td>` +
+            `<td>${entry.samples.map(formatBytes).join(' → ')}</td></tr>`
+          ),
+          '</table>',
+        ]
+      : []
+
+    const tags = report.tags.length > 0
+      ? [
+          '<h2>Results by tag</h2>',
+          '<table><tr><th>Tag</th><th>Tests</th><th>Passed</th><th>Failed</th><th>Skipped</th><th>Suites</th></tr>',
+          ...report.tags.map(tag =>
+            `<tr><td>@${escapeHtml(tag.tag)}</td><td>${tag.total}</td><td>${tag.passed}</td><td>${tag.failed}</td>` +
+            `<td>${tag.skipped}</td><td>${escapeHtml(tag.suites.join(', '))}</td></tr>`
+          ),
+          '</table>',
+        ]
+      : []
+
+    return [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      '<title>True Tap Test Report</title>',
+      `<style>${HTML_STYLES}</style>`,
+      '</head>',
+      '<body>',
+      `<h1>True Tap Test Report — <span class="${report.status === 'failed' ? 'failed' : 'passed'}">${RUN_STATUS_LABELS[report.status]}</span></h1>`,
+      `<p>Generated ${escapeHtml(report.generatedAt)}</p>`,
+      `<div class="cards">${cards.join('')}</div>`,
+      ...clusters,
+      ...heapGrowth,
+      ...tags,
+      ...suites,
+      '</body>',
+      '</html>',
+      '',
+    ].join('\n')
+  },
+}
+
+export const DEFAULT_REPORT_WRITERS: ReportWriter[] = [
+  textReportWriter,
+  markdownReportWriter,
+  jsonReportWriter,
+  junitReportWriter,
+  htmlReportWriter,
+]
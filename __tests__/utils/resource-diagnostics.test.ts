@@ -0,0 +1,82 @@
+/**
+ * Resource Diagnostics Tests
+ *
+ * Open handles must point at the repository code that created them, and a
+ * heap trend is only reported when it keeps growing across runs
+ */
+
+import { findHeapGrowth, parseOpenHandleReport } from './resource-diagnostics'
+import type { HistoryRun } from './results-history'
+
+const MB = 1024 * 1024
+
+const createRun = (id: string, heapByFile: Record<string, number>): HistoryRun => ({
+  id,
+  timestamp: '2026-01-01T00:00:00.000Z',
+  wallClockDuration: 1000,
+  suites: {
+    unit: {
+      success: true,
+      testsRun: 1,
+      testsPassed: 1,
+      testsFailed: 0,
+      testsSkipped: 0,
+      duration: 1000,
+      heapRetained: heapByFile,
+      tests: [],
+    },
+  },
+})
+
+describe('parseOpenHandleReport', () => {
+  const report = [
+    'PASS src/wallet.test.ts',
+    '\u001b[1mJest has detected the following 2 open handles potentially keeping Jest from exiting:\u001b[22m',
+    '',
+    '  ●  Timeout',
+    '',
+    '      at Object.<anonymous> (/repo/src/services/poller.ts:12:5)',
+    '      at Object.<anonymous> (/repo/src/wallet.test.ts:8:3)',
+    '      at Runtime._execModule (/repo/node_modules/jest-runtime/build/index.js:1439:24)',
+    '',
+    '  ●  TCPSERVERWRAP',
+    '',
+    '      at Server.listen (node:net:1912:7)',
+    '      at startServer (/repo/src/server.test.ts:4:10)',
+  ].join('\n')
+
+  it('should classify each handle and locate its innermost repository frame', () => {
+    const handles = parseOpenHandleReport(report, '/repo')
+
+    expect(handles.map(handle => [handle.kind, handle.type, handle.location, handle.testFile])).toEqual([
+      ['timer', 'Timeout', 'src/services/poller.ts:12', 'src/wallet.test.ts'],
+      ['socket', 'TCPSERVERWRAP', 'src/server.test.ts:4', 'src/server.test.ts'],
+    ])
+    expect(handles[0].stack).toHaveLength(3)
+  })
+
+  it('should return nothing without the open handles header', () => {
+    expect(parseOpenHandleReport('  ●  Timeout\n      at x (/repo/a.ts:1:1)', '/repo')).toEqual([])
+  })
+})
+
+describe('findHeapGrowth', () => {
+  it('should flag a file whose heap grew in each of the last runs', () => {
+    const history = [0, 4, 8, 12].map(index => createRun(`run-${index}`, {
+      'src/leaky.test.ts': (10 + index) * MB,
+      'src/stable.test.ts': (index % 8 === 0 ? 10 : 20) * MB,
+    }))
+
+    expect(findHeapGrowth(history)).toEqual([
+      { suite: 'unit', file: 'src/leaky.test.ts', samples: [10 * MB, 14 * MB, 18 * MB, 22 * MB], growth: 12 * MB },
+    ])
+  })
+
+  it('should ignore growth below the minimum and series shorter than the trend', () => {
+    const history = [1, 2, 3, 4].map(index => createRun(`run-${index}`, { 'src/a.test.ts': index * MB }))
+
+    expect(findHeapGrowth(history)).toEqual([])
+    expect(findHeapGrowth(history.slice(1), { minGrowth: 0 })).toEqual([])
+    expect(findHeapGrowth(history, { minGrowth: 3 * MB })).toHaveLength(1)
+  })
+})
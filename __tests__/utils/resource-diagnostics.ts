@@ -0,0 +1,203 @@
+/**
+ * Resource Diagnostics
+ *
+ * Heap each test file retains, tracked across runs to flag files whose
+ * retained heap keeps growing, and Jest's `detectOpenHandles` report parsed
+ * into timers, sockets and listeners with the stack that created them.
+ */
+
+import { isAbsolute, relative } from 'path'
+import { runInNewContext } from 'vm'
+import { isTestFile, toPosixPath } from './fs-utils'
+import { stripAnsi } from './jest-results'
+import { QUALITY_METRICS_ENV, recordQualityMetric } from './quality-metrics'
+import type { HistoryRun } from './results-history'
+
+// Set by the runner when heap tracking is requested; its Jest workers then
+// start with --expose-gc
+export const HEAP_TRACKING_ENV = 'TRUETAP_TRACK_HEAP'
+
+// Header Jest prints above the open-handle report
+export const OPEN_HANDLES_HEADER = /Jest has detected the following \d+ open handles?/
+
+// Consecutive recent runs a file's heap must grow across before it is flagged
+export const HEAP_TREND_RUNS = 3
+
+export const MIN_HEAP_GROWTH_BYTES = 5 * 1024 * 1024
+
+export type OpenHandleKind = 'timer' | 'socket' | 'listener' | 'other'
+
+export interface OpenHandle {
+  kind: OpenHandleKind
+  // Async resource type as Jest reports it, e.g. Timeout or TCPSERVERWRAP
+  type: string
+  // Creation stack, innermost frame first
+  stack: string[]
+  // `file:line` of the innermost repository frame
+  location?: string
+  // Test file on the creation stack
+  testFile?: string
+}
+
+export interface HeapGrowth {
+  suite: string
+  file: string
+  // Heap retained by the file, oldest run first (bytes)
+  samples: number[]
+  growth: number
+}
+
+const HANDLE_KINDS: Record<string, OpenHandleKind> = {
+  Timeout: 'timer',
+  Immediate: 'timer',
+  TIMERWRAP: 'timer',
+  TCPWRAP: 'socket',
+  TCPSERVERWRAP: 'socket',
+  TLSWRAP: 'socket',
+  PIPEWRAP: 'socket',
+  PIPESERVERWRAP: 'socket',
+  UDPWRAP: 'socket',
+  HTTPCLIENTREQUEST: 'socket',
+  HTTPINCOMINGMESSAGE: 'socket',
+  SIGNALWRAP: 'listener',
+  FSEVENTWRAP: 'listener',
+  STATWATCHER: 'listener',
+}
+
+const STACK_FRAME_PATTERN = /^at (?:.*? \()?(.+?):(\d+):\d+\)?$/
+
+// The sandbox has no `gc`; a fresh context gets it when the worker was
+// started with --expose-gc
+const getGarbageCollector = (): (() => void) | undefined => {
+  const gc = runInNewContext('typeof gc === "function" ? gc : undefined')
+  return typeof gc === 'function' ? gc : undefined
+}
+
+/**
+ * Records the heap each test file retains: heap used after its tests minus
+ * heap used before them, both after a collection. The worker's total heap
+ * would also count earlier files and Jest's own module registry. Only
+ * active when the runner tracks heap (`--track-heap`), and only in workers
+ * that can collect; without a collection the numbers are noise.
+ */
+export const installHeapRecorder = () => {
+  if (!process.env[QUALITY_METRICS_ENV] || !process.env[HEAP_TRACKING_ENV] || typeof beforeAll !== 'function') return
+
+  const collectGarbage = getGarbageCollector()
+  if (!collectGarbage) return
+
+  let heapBefore = 0
+
+  beforeAll(() => {
+    collectGarbage()
+    heapBefore = process.memoryUsage().heapUsed
+  })
+
+  afterAll(() => {
+    collectGarbage()
+    recordQualityMetric({ kind: 'heap', heapRetained: process.memoryUsage().heapUsed - heapBefore })
+  })
+}
+
+const createOpenHandle = (type: string, stackLines: string[], rootDir: string): OpenHandle => {
+  const frames = stackLines.flatMap(line => {
+    const match = line.match(STACK_FRAME_PATTERN)
+    if (!match) return []
+
+    const file = isAbsolute(match[1]) ? toPosixPath(relative(rootDir, match[1])) : match[1]
+    if (file.startsWith('..') || file.includes('node_modules/') || file.startsWith('node:')) return []
+
+    return [{ file, line: Number(match[2]) }]
+  })
+
+  return {
+    kind: HANDLE_KINDS[type] || 'other',
+    type,
+    stack: stackLines,
+    location: frames[0] ? `${frames[0].file}:${frames[0].line}` : undefined,
+    testFile: frames.find(frame => isTestFile(frame.file))?.file,
+  }
+}
+
+// Parses the `●  Type` blocks Jest prints after the open-handle header
+export const parseOpenHandleReport = (output: string, rootDir: string = process.cwd()): OpenHandle[] => {
+  const lines = stripAnsi(output).split('\n')
+  const start = lines.findIndex(line => OPEN_HANDLES_HEADER.test(line))
+  if (start < 0) return []
+
+  const handles: OpenHandle[] = []
+  let current: { type: string; stack: string[] } | undefined
+
+  const flush = () => {
+    if (current) {
+      handles.push(createOpenHandle(current.type, current.stack, rootDir))
+    }
+  }
+
+  lines.slice(start + 1).forEach(line => {
+    const heading = line.match(/^\s*●\s+(\S+)\s*$/)
+    if (heading) {
+      flush()
+      current = { type: heading[1], stack: [] }
+    } else if (current && /^\s*at /.test(line)) {
+      current.stack.push(line.trim())
+    }
+  })
+
+  flush()
+  return handles
+}
+
+// In-process runs return the handles as errors: message is the type, stack the creation stack
+export const describeHandleErrors = (
+  errors: Array<{ message?: string; stack?: string }>,
+  rootDir: string = process.cwd()
+): OpenHandle[] =>
+  errors.map(error => {
+    const stack = (error.stack || '').split('\n').map(line => line.trim()).filter(line => line.startsWith('at '))
+    return createOpenHandle(error.message || 'Unknown', stack, rootDir)
+  })
+
+/**
+ * Files whose retained heap grew in each of the last HEAP_TREND_RUNS runs
+ * that measured them, by at least `minGrowth` bytes overall.
+ */
+export const findHeapGrowth = (
+  history: HistoryRun[],
+  options: { runs?: number; minGrowth?: number } = {}
+): HeapGrowth[] => {
+  const runs = options.runs ?? HEAP_TREND_RUNS
+  const minGrowth = options.minGrowth ?? MIN_HEAP_GROWTH_BYTES
+  const samples = new Map<string, { suite: string; file: string; values: number[] }>()
+
+  history.forEach(run => {
+    Object.entries(run.suites).forEach(([suite, entry]) => {
+      Object.entries(entry.heapRetained || {}).forEach(([file, heapRetained]) => {
+        const key = `${suite}|${file}`
+        const series = samples.get(key) || { suite, file, values: [] }
+        series.values.push(heapRetained)
+        samples.set(key, series)
+      })
+    })
+  })
+
+  return Array.from(samples.values())
+    .flatMap(({ suite, file, values }) => {
+      const recent = values.slice(-(runs + 1))
+      if (recent.length < runs + 1) return []
+
+      const keepsGrowing = recent.every((value, index) => index === 0 || value > recent[index - 1])
+      const growth = recent[recent.length - 1] - recent[0]
+
+      return keepsGrowing && growth >= minGrowth ? [{ suite, file, samples: recent, growth }] : []
+    })
+    .sort((a, b) => b.growth - a.growth)
+}
+
+export const formatBytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+
+export const describeOpenHandle = (handle: OpenHandle): string => {
+  const where = handle.location ? ` created at ${handle.location}` : ''
+  const test = handle.testFile && !handle.location?.startsWith(`${handle.testFile}:`) ? ` (from ${handle.testFile})` : ''
+  return `${handle.kind} (${handle.type})${where}${test}`
+}
@@ -0,0 +1,261 @@
+/**
+ * Test Results History
+ *
+ * Persists each TestRunner run to a JSON-lines store so pass rate, duration
+ * and coverage can be tracked per suite across runs
+ */
+
+import { execSync } from 'child_process'
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs'
+import { dirname } from 'path'
+import type { CoverageTotals, TestCaseStatus } from './jest-results'
+import type { HeapRecord } from './quality-metrics'
+import type { TestExecutionResult } from './test-runner'
+
+export const HISTORY_FILE = 'test-results/history.jsonl'
+
+// Strategy doc target: full suite under 45 seconds
+export const FULL_SUITE_TARGET_MS = 45000
+
+export interface HistoryTestEntry {
+  file: string
+  fullName: string
+  status: TestCaseStatus
+  duration: number
+  flaky?: boolean
+  quarantined?: boolean
+}
+
+export interface HistorySuiteEntry {
+  success: boolean
+  testsRun: number
+  testsPassed: number
+  testsFailed: number
+  testsSkipped: number
+  duration: number
+  coverage?: CoverageTotals
+  // Per test file duration in milliseconds, used to balance shards
+  files?: Record<string, number>
+  // Per test file heap retained by its tests, in bytes
+  heapRetained?: Record<string, number>
+  tests: HistoryTestEntry[]
+}
+
+export interface HistoryRun {
+  id: string
+  timestamp: string
+  commit?: string
+  branch?: string
+  wallClockDuration: number
+  suites: Record<string, HistorySuiteEntry>
+}
+
+export interface SuiteTrendPoint {
+  runId: string
+  timestamp: string
+  commit?: string
+  passRate: number
+  duration: number
+  testsRun: number
+  coverage?: number
+}
+
+const readGit = (args: string): string | undefined => {
+  try {
+    return execSync(`git ${args}`, { encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] }).trim() || undefined
+  } catch {
+    return undefined
+  }
+}
+
+const getHeapByFile = (result: TestExecutionResult): Record<string, number> | undefined => {
+  const records = (result.qualityMetrics || []).filter((record): record is HeapRecord => record.kind === 'heap' && !!record.file)
+  return records.length > 0 ? Object.fromEntries(records.map(record => [record.file!, record.heapRetained])) : undefined
+}
+
+export const createHistoryRun = (results: Map<string, TestExecutionResult>): HistoryRun => {
+  const suites: Record<string, HistorySuiteEntry> = {}
+  let startedAt = Infinity
+  let finishedAt = 0
+
+  results.forEach((result, key) => {
+    startedAt = Math.min(startedAt, result.startedAt)
+    finishedAt = Math.max(finishedAt, result.finishedAt)
+
+    suites[key] = {
+      success: result.success,
+      testsRun: result.testsRun,
+      testsPassed: result.testsPassed,
+      testsFailed: result.testsFailed,
+      testsSkipped: result.testsSkipped,
+      duration: result.duration,
+      coverage: result.coverage,
+      files: Object.fromEntries(result.files.map(file => [file.path, file.duration])),
+      heapRetained: getHeapByFile(result),
+      tests: result.files.flatMap(file =>
+        file.tests.map(test => ({
+          file: file.path,
+          fullName: test.fullName,
+          status: test.status,
+          duration: test.duration,
+          flaky: test.flaky,
+          quarantined: test.quarantined,
+        }))
+      ),
+    }
+  })
+
+  const timestamp = new Date().toISOString()
+
+  return {
+    id: `${timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp,
+    commit: readGit('rev-parse --short HEAD'),
+    branch: readGit('rev-parse --abbrev-ref HEAD'),
+    wallClockDuration: results.size > 0 ? finishedAt - startedAt : 0,
+    suites,
+  }
+}
+
+export const appendHistoryRun = (run: HistoryRun, historyFile: string = HISTORY_FILE) => {
+  mkdirSync(dirname(historyFile), { recursive: true })
+  appendFileSync(historyFile, `${JSON.stringify(run)}\n`)
+}
+
+// Returns runs oldest first; unreadable lines (e.g. an interrupted write) are skipped
+export const readHistory = (historyFile: string = HISTORY_FILE, limit?: number): HistoryRun[] => {
+  if (!existsSync(historyFile)) {
+    return []
+  }
+
+  const runs = readFileSync(historyFile, 'utf8')
+    .split('\n')
+    .filter(line => line.trim())
+    .flatMap(line => {
+      try {
+        return [JSON.parse(line) as HistoryRun]
+      } catch {
+        return []
+      }
+    })
+
+  return limit ? runs.slice(-limit) : runs
+}
+
+export const getSuiteTrend = (history: HistoryRun[], suiteKey: string): SuiteTrendPoint[] =>
+  history
+    .filter(run => run.suites[suiteKey])
+    .map(run => {
+      const suite = run.suites[suiteKey]
+      const executed = suite.testsPassed + suite.testsFailed
+
+      return {
+        runId: run.id,
+        timestamp: run.timestamp,
+        commit: run.commit,
+        passRate: executed > 0 ? (suite.testsPassed / executed) * 100 : 0,
+        duration: suite.duration,
+        testsRun: suite.testsRun,
+        coverage: suite.coverage?.lines,
+      }
+    })
+
+// Compares the mean of the latest half of the points with the earlier half
+const describeTrend = (values: number[], higherIsBetter: boolean, unit: string): string => {
+  if (values.length < 2) return 'not enough runs'
+
+  const middle = Math.floor(values.length / 2)
+  const mean = (entries: number[]) => entries.reduce((a, b) => a + b, 0) / entries.length
+  const delta = mean(values.slice(middle)) - mean(values.slice(0, middle))
+
+  if (Math.abs(delta) < 0.01) return 'stable'
+
+  const improving = higherIsBetter ? delta > 0 : delta < 0
+  return `${improving ? '▲ improving' : '▼ regressing'} (${delta > 0 ? '+' : ''}${delta.toFixed(2)}${unit})`
+}
+
+export const getSuiteKeys = (history: HistoryRun[]): string[] =>
+  Array.from(new Set(history.flatMap(run => Object.keys(run.suites)))).sort()
+
+// Whether the run included every suite, e.g. `all` rather than `run unit` or `affected`
+export const isFullRun = (run: HistoryRun, suiteKeys: string[]): boolean =>
+  suiteKeys.length > 0 && suiteKeys.every(key => run.suites[key])
+
+export const formatHistoryReport = (
+  history: HistoryRun[],
+  // `fullSuites`: the suites a full run covers (default: every suite in the history)
+  options: { suite?: string; fullSuites?: string[] } = {}
+): string => {
+  const report: string[] = []
+
+  report.push('='.repeat(80))
+  report.push('TRUE TAP - TEST HISTORY')
+  report.push('='.repeat(80))
+
+  if (history.length === 0) {
+    report.push('')
+    report.push(`No runs recorded yet in ${HISTORY_FILE}`)
+    return report.join('\n')
+  }
+
+  report.push(`Runs: ${history.length} (${history[0].timestamp} → ${history[history.length - 1].timestamp})`)
+  report.push('')
+
+  const suiteKeys = options.suite ? [options.suite] : getSuiteKeys(history)
+
+  suiteKeys.forEach(suiteKey => {
+    const trend = getSuiteTrend(history, suiteKey)
+    if (trend.length === 0) {
+      report.push(`${suiteKey}: no recorded runs`)
+      report.push('')
+      return
+    }
+
+    report.push(suiteKey)
+    report.push('  Date                 Commit    Tests  Pass Rate  Duration  Coverage')
+    trend.forEach(point => {
+      report.push([
+        `  ${point.timestamp.slice(0, 19).replace('T', ' ')}`,
+        (point.commit || '-').padEnd(8),
+        point.testsRun.toString().padStart(5),
+        `${point.passRate.toFixed(1)}%`.padStart(9),
+        `${(point.duration / 1000).toFixed(2)}s`.padStart(8),
+        point.coverage !== undefined ? `${point.coverage.toFixed(1)}%`.padStart(8) : '       -',
+      ].join('  '))
+    })
+
+    const coverage = trend.filter(point => point.coverage !== undefined).map(point => point.coverage!)
+    report.push(`  Pass rate: ${describeTrend(trend.map(point => point.passRate), true, '%')}`)
+    report.push(`  Duration:  ${describeTrend(trend.map(point => point.duration / 1000), false, 's')}`)
+    report.push(`  Coverage:  ${coverage.length > 0 ? describeTrend(coverage, true, '%') : 'not collected'}`)
+    report.push('')
+  })
+
+  if (!options.suite) {
+    const latest = history[history.length - 1]
+    const totalTests = Object.values(latest.suites).reduce((sum, suite) => sum + suite.testsRun, 0)
+    const summedDuration = Object.values(latest.suites).reduce((sum, suite) => sum + suite.duration, 0)
+    const fullSuites = options.fullSuites || getSuiteKeys(history)
+
+    // Partial runs (a single suite, `affected`) would pass the target trivially
+    const fullRuns = history.filter(run => isFullRun(run, fullSuites))
+    const latestFull = fullRuns[fullRuns.length - 1]
+
+    report.push('-'.repeat(80))
+    report.push(`Latest run (${Object.keys(latest.suites).join(', ')}): ${totalTests} tests in ` +
+      `${(summedDuration / 1000).toFixed(2)}s summed, ${(latest.wallClockDuration / 1000).toFixed(2)}s wall clock`)
+
+    if (latestFull) {
+      const label = latestFull === latest ? '' : ` (latest full run, ${latestFull.timestamp.slice(0, 19).replace('T', ' ')})`
+      report.push(`Full suite target: <${FULL_SUITE_TARGET_MS / 1000}s → ` +
+        `${(latestFull.wallClockDuration / 1000).toFixed(2)}s${label} ` +
+        (latestFull.wallClockDuration <= FULL_SUITE_TARGET_MS ? '✅ within target' : '❌ over target'))
+      report.push(`Full run wall clock: ${describeTrend(fullRuns.map(run => run.wallClockDuration / 1000), false, 's')}`)
+    } else {
+      report.push(`Full suite target: <${FULL_SUITE_TARGET_MS / 1000}s → not evaluated; ` +
+        `no recorded run covered every suite (${fullSuites.join(', ')})`)
+    }
+  }
+
+  return report.join('\n')
+}
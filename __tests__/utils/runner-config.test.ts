@@ -0,0 +1,67 @@
+/**
+ * Runner Config Validation Tests
+ *
+ * Every problem in truetap.testrc is reported at once, with the path of the
+ * offending key, before any suite runs
+ */
+
+import { assertValidRunnerConfig, validateRunnerConfig } from './runner-config'
+
+describe('validateRunnerConfig', () => {
+  it('should accept a complete valid config', () => {
+    expect(validateRunnerConfig({
+      jestConfig: 'jest.config.js',
+      execution: 'in-process',
+      suites: { unit: { timeout: 10000, maxWorkers: 2, retry: { retries: 1 } } },
+      pipelines: { ci: { phases: [{ name: 'fast', suites: ['unit'], budget: 60000 }] } },
+      qualityGates: { gates: [{ type: 'coverage', min: 80 }] },
+      reports: ['md'],
+      run: { parallel: true, concurrency: 2, trackHeap: true },
+    })).toEqual([])
+  })
+
+  it('should report unknown keys at every level with the known ones', () => {
+    const errors = validateRunnerConfig({
+      jestconfig: 'jest.config.js',
+      suites: { unit: { timout: 1000 } },
+      pipelines: { ci: { phases: [{ name: 'fast', suites: ['unit'], budget: 1, depends: ['x'] }] } },
+      run: { failfast: true },
+    })
+
+    expect(errors).toHaveLength(4)
+    expect(errors[0]).toMatch(/^Unknown option 'jestconfig'\. Known options: jestConfig, suites/)
+    expect(errors[1]).toMatch(/^suites\.unit: unknown option 'timout'/)
+    expect(errors[2]).toMatch(/^pipelines\.ci\.phases\[0\]: unknown option 'depends'/)
+    expect(errors[3]).toMatch(/^run: unknown option 'failfast'/)
+  })
+
+  it('should report invalid values with their path', () => {
+    expect(validateRunnerConfig({
+      execution: 'docker',
+      suites: { unit: { timeout: -1, maxWorkers: 1.5, testMatch: 'src/**' } },
+      retry: { retries: -1 },
+      run: { coverage: 'yes' },
+    })).toEqual([
+      'execution must be one of shell, in-process',
+      'suites.unit.timeout must be a positive number of milliseconds',
+      'suites.unit.maxWorkers must be a positive integer',
+      'suites.unit.testMatch must be a list of glob patterns',
+      'retry must be { retries: <non-negative integer> }',
+      'run.coverage must be true or false',
+    ])
+  })
+
+  it('should reject a config that is not an object', () => {
+    expect(validateRunnerConfig([])).toEqual(['The config must export an object'])
+  })
+})
+
+describe('assertValidRunnerConfig', () => {
+  it('should list every problem in one error', () => {
+    expect(() => assertValidRunnerConfig({ execution: 'docker', snapshotBudget: 0 }, 'truetap.testrc.js')).toThrow(
+      'Invalid runner config truetap.testrc.js:\n' +
+      '  - execution must be one of shell, in-process\n' +
+      '  - snapshotBudget must be a positive number of KB'
+    )
+  })
+})
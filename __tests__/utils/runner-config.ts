@@ -0,0 +1,345 @@
+/**
+ * Test Runner Configuration
+ *
+ * Loads the optional runner config file (truetap.testrc.*) from the
+ * repository root and validates it, so a typo fails on load with the
+ * offending key instead of being silently ignored. Suites come from the Jest
+ * config projects; the runner config only overrides or adds to them.
+ */
+
+import { existsSync, readFileSync } from 'fs'
+import { join, resolve } from 'path'
+import type { NewCodeThresholds } from './coverage-diff'
+import { DEVICE_PROFILES } from './device-profiles'
+import type { RetryPolicy } from './flaky-tests'
+import { DEFAULT_JEST_CONFIG, SuiteOverride } from './jest-config'
+import type { ExecutionMode } from './jest-in-process'
+import type { PipelineConfig, PipelinePhaseConfig } from './pipelines'
+import { QualityGatePolicy, validateQualityGatePolicy } from './quality-gates'
+import type { PluginSpec } from './runner-plugins'
+
+// Defaults for `all` and `affected`; command-line flags override them
+export interface RunDefaults {
+  parallel?: boolean
+  // Maximum suites running at once when parallel (defaults to CPU count)
+  concurrency?: number
+  failFast?: boolean
+  // Overrides each suite's own coverage setting
+  coverage?: boolean
+  // Record the heap each test file retains (Jest workers start with --expose-gc)
+  trackHeap?: boolean
+}
+
+// suites, pipelines, plugins, retry and newCodeCoverage have no
+// command-line override; the other keys do (see CLI_OPTIONS)
+export interface RunnerConfig {
+  // Jest config the suites are derived from and run against
+  jestConfig?: string
+  suites?: Record<string, SuiteOverride>
+  // How Jest is started: a child process (default) or in-process via runCLI
+  execution?: ExecutionMode
+  // Quality gate policy file (default: quality-gates.json) or an inline policy
+  qualityGates?: string | QualityGatePolicy
+  // Named pipelines for `test-runner pipeline <name>`
+  pipelines?: Record<string, PipelineConfig>
+  // Minimum coverage of added code per path for `coverage-diff`
+  // (defaults to the path entries of the Jest coverageThreshold)
+  newCodeCoverage?: NewCodeThresholds
+  // Largest .snap file in KB before `snapshots size` fails (default 50)
+  snapshotBudget?: number
+  // Module paths (relative to this file), `[path, options]` pairs or inline plugins
+  plugins?: PluginSpec[]
+  // Report formats written after every run, e.g. ['md', 'html']
+  reports?: string[]
+  // Retry policy for suites that do not declare their own
+  retry?: RetryPolicy
+  // DEVICE_PROFILES keys `testAcrossDevices` runs against (default: all)
+  deviceProfiles?: string[]
+  // Per-file durations `--shard` balances by (see `test-runner shard-durations`);
+  // without it shards are split by file count
+  shardDurations?: string
+  run?: RunDefaults
+}
+
+export const RUNNER_CONFIG_FILES = [
+  'truetap.testrc.ts',
+  'truetap.testrc.js',
+  'truetap.testrc.json',
+]
+
+export interface LoadedRunnerConfig {
+  config: RunnerConfig
+  // Undefined when no config file exists
+  path?: string
+}
+
+const RUNNER_CONFIG_KEYS: Array<keyof RunnerConfig> = [
+  'jestConfig',
+  'suites',
+  'execution',
+  'qualityGates',
+  'pipelines',
+  'newCodeCoverage',
+  'snapshotBudget',
+  'plugins',
+  'reports',
+  'retry',
+  'deviceProfiles',
+  'shardDurations',
+  'run',
+]
+
+const SUITE_KEYS: Array<keyof SuiteOverride> = [
+  'name',
+  'pattern',
+  'timeout',
+  'maxWorkers',
+  'coverage',
+  'environment',
+  'project',
+  'testMatch',
+  'retry',
+]
+
+const PIPELINE_KEYS: Array<keyof PipelineConfig> = ['description', 'phases']
+
+const PHASE_KEYS: Array<keyof PipelinePhaseConfig> = ['name', 'suites', 'budget', 'dependsOn', 'affected', 'parallel']
+
+const EXECUTION_MODES: ExecutionMode[] = ['shell', 'in-process']
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(entry => typeof entry === 'string' && entry.length > 0)
+
+const isPositiveNumber = (value: unknown) => typeof value === 'number' && value > 0
+
+const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) > 0
+
+// Nested objects get the same typo check as the top level
+const validateKeys = (value: Record<string, unknown>, knownKeys: readonly string[], path: string, errors: string[]) => {
+  Object.keys(value)
+    .filter(key => !knownKeys.includes(key))
+    .forEach(key => errors.push(`${path}: unknown option '${key}'. Known options: ${knownKeys.join(', ')}`))
+}
+
+const validateRetry = (retry: unknown, path: string, errors: string[]) => {
+  if (!isObject(retry) || !Number.isInteger(retry.retries) || retry.retries < 0) {
+    errors.push(`${path} must be { retries: <non-negative integer> }`)
+  }
+}
+
+const validateSuite = (key: string, suite: unknown, errors: string[]) => {
+  const path = `suites.${key}`
+  if (!isObject(suite)) {
+    errors.push(`${path} must be an object`)
+    return
+  }
+
+  validateKeys(suite, SUITE_KEYS, path, errors)
+
+  // environment is a Jest testEnvironment name or module path
+  ;(['name', 'pattern', 'project', 'environment'] as const)
+    .filter(field => suite[field] !== undefined && typeof suite[field] !== 'string')
+    .forEach(field => errors.push(`${path}.${field} must be a string`))
+
+  if (suite.timeout !== undefined && !isPositiveNumber(suite.timeout)) {
+    errors.push(`${path}.timeout must be a positive number of milliseconds`)
+  }
+  if (suite.maxWorkers !== undefined && !isPositiveInteger(suite.maxWorkers)) {
+    errors.push(`${path}.maxWorkers must be a positive integer`)
+  }
+  if (suite.coverage !== undefined && typeof suite.coverage !== 'boolean') {
+    errors.push(`${path}.coverage must be true or false`)
+  }
+  if (suite.testMatch !== undefined && !isStringList(suite.testMatch)) {
+    errors.push(`${path}.testMatch must be a list of glob patterns`)
+  }
+  if (suite.retry !== undefined) {
+    validateRetry(suite.retry, `${path}.retry`, errors)
+  }
+}
+
+// Suite references are checked once suites are resolved (`doctor`, `pipeline`)
+const validatePipelineShape = (name: string, pipeline: unknown, errors: string[]) => {
+  const path = `pipelines.${name}`
+  if (!isObject(pipeline) || !Array.isArray(pipeline.phases) || pipeline.phases.length === 0) {
+    errors.push(`${path} needs a non-empty phases list`)
+    return
+  }
+
+  validateKeys(pipeline, PIPELINE_KEYS, path, errors)
+
+  pipeline.phases.forEach((phase: unknown, index: number) => {
+    const phasePath = `${path}.phases[${index}]`
+    if (!isObject(phase)) {
+      errors.push(`${phasePath} must be an object`)
+      return
+    }
+
+    validateKeys(phase, PHASE_KEYS, phasePath, errors)
+
+    if (typeof phase.name !== 'string' || !phase.name) errors.push(`${phasePath}.name must be a string`)
+    if (!isStringList(phase.suites) || phase.suites.length === 0) errors.push(`${phasePath}.suites must list suite keys`)
+    if (!isPositiveNumber(phase.budget)) errors.push(`${phasePath}.budget must be a positive number of milliseconds`)
+    if (phase.dependsOn !== undefined && !isStringList(phase.dependsOn)) {
+      errors.push(`${phasePath}.dependsOn must list phase names`)
+    }
+  })
+}
+
+/**
+ * Problems with the config's shape and values, one message per offending
+ * key (e.g. `suites.device.timeout must be a positive number`).
+ */
+export const validateRunnerConfig = (config: unknown): string[] => {
+  const errors: string[] = []
+  if (!isObject(config)) {
+    return ['The config must export an object']
+  }
+
+  Object.keys(config)
+    .filter(key => !RUNNER_CONFIG_KEYS.includes(key as keyof RunnerConfig))
+    .forEach(key => errors.push(`Unknown option '${key}'. Known options: ${RUNNER_CONFIG_KEYS.join(', ')}`))
+
+  if (config.jestConfig !== undefined && typeof config.jestConfig !== 'string') {
+    errors.push('jestConfig must be a file path')
+  }
+
+  if (config.execution !== undefined && !EXECUTION_MODES.includes(config.execution)) {
+    errors.push(`execution must be one of ${EXECUTION_MODES.join(', ')}`)
+  }
+
+  if (config.suites !== undefined) {
+    if (isObject(config.suites)) {
+      Object.entries(config.suites).forEach(([key, suite]) => validateSuite(key, suite, errors))
+    } else {
+      errors.push('suites must map suite keys to overrides')
+    }
+  }
+
+  if (config.pipelines !== undefined) {
+    if (isObject(config.pipelines)) {
+      Object.entries(config.pipelines).forEach(([name, pipeline]) => validatePipelineShape(name, pipeline, errors))
+    } else {
+      errors.push('pipelines must map pipeline names to { phases }')
+    }
+  }
+
+  if (isObject(config.qualityGates)) {
+    try {
+      validateQualityGatePolicy(config.qualityGates as QualityGatePolicy, 'qualityGates')
+    } catch (error: any) {
+      errors.push(`qualityGates: ${error.message}`)
+    }
+  } else if (config.qualityGates !== undefined && typeof config.qualityGates !== 'string') {
+    errors.push('qualityGates must be a policy file path or { gates: [...] }')
+  }
+
+  if (config.newCodeCoverage !== undefined && !isObject(config.newCodeCoverage)) {
+    errors.push('newCodeCoverage must map paths to { lines, branches } thresholds')
+  }
+
+  if (config.shardDurations !== undefined && typeof config.shardDurations !== 'string') {
+    errors.push('shardDurations must be a file path')
+  }
+
+  if (config.snapshotBudget !== undefined && !isPositiveNumber(config.snapshotBudget)) {
+    errors.push('snapshotBudget must be a positive number of KB')
+  }
+
+  if (config.plugins !== undefined && !Array.isArray(config.plugins)) {
+    errors.push('plugins must be a list')
+  }
+
+  // Formats are checked against the registered writers once plugins are loaded
+  if (config.reports !== undefined && !isStringList(config.reports)) {
+    errors.push('reports must be a list of report formats')
+  }
+
+  if (config.retry !== undefined) {
+    validateRetry(config.retry, 'retry', errors)
+  }
+
+  if (config.deviceProfiles !== undefined) {
+    if (isStringList(config.deviceProfiles)) {
+      config.deviceProfiles
+        .filter(profile => !DEVICE_PROFILES[profile])
+        .forEach(profile => errors.push(
+          `deviceProfiles: unknown profile '${profile}'. Available: ${Object.keys(DEVICE_PROFILES).join(', ')}`
+        ))
+    } else {
+      errors.push('deviceProfiles must be a list of device profile keys')
+    }
+  }
+
+  if (config.run !== undefined) {
+    if (!isObject(config.run)) {
+      errors.push('run must be an object')
+    } else {
+      ;(['parallel', 'failFast', 'coverage', 'trackHeap'] as const)
+        .filter(field => config.run[field] !== undefined && typeof config.run[field] !== 'boolean')
+        .forEach(field => errors.push(`run.${field} must be true or false`))
+
+      if (config.run.concurrency !== undefined && !isPositiveInteger(config.run.concurrency)) {
+        errors.push('run.concurrency must be a positive integer')
+      }
+
+      validateKeys(config.run, ['parallel', 'concurrency', 'failFast', 'coverage', 'trackHeap'], 'run', errors)
+    }
+  }
+
+  return errors
+}
+
+// Throws one error listing every problem, so they can all be fixed at once
+export const assertValidRunnerConfig = (config: unknown, source: string): RunnerConfig => {
+  const errors = validateRunnerConfig(config)
+  if (errors.length > 0) {
+    throw new Error(`Invalid runner config ${source}:\n${errors.map(error => `  - ${error}`).join('\n')}`)
+  }
+  return config as RunnerConfig
+}
+
+// Drops unset keys so an absent command-line flag keeps the configured value
+const withoutUndefined = <T extends object>(value: T): Partial<T> =>
+  Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>
+
+export const mergeRunnerConfig = (base: RunnerConfig, overrides: RunnerConfig): RunnerConfig => ({
+  ...base,
+  ...withoutUndefined(overrides),
+  run: { ...base.run, ...withoutUndefined(overrides.run || {}) },
+})
+
+export const findRunnerConfig = (cwd: string = process.cwd()): string | undefined =>
+  RUNNER_CONFIG_FILES
+    .map(file => join(cwd, file))
+    .find(file => existsSync(file))
+
+export const loadRunnerConfig = (cwd: string = process.cwd()): LoadedRunnerConfig => {
+  const path = findRunnerConfig(cwd)
+  if (!path) {
+    return { config: { jestConfig: DEFAULT_JEST_CONFIG } }
+  }
+
+  let config: RunnerConfig
+
+  try {
+    if (path.endsWith('.json')) {
+      config = JSON.parse(readFileSync(path, 'utf8'))
+    } else {
+      const loaded = require(resolve(path))
+      config = (loaded && loaded.default) || loaded
+    }
+  } catch (error: any) {
+    throw new Error(`Could not load runner config ${path}: ${error.message}`)
+  }
+
+  assertValidRunnerConfig(config, path)
+
+  return {
+    config: { jestConfig: DEFAULT_JEST_CONFIG, ...config },
+    path,
+  }
+}
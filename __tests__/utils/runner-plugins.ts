@@ -0,0 +1,135 @@
+/**
+ * Runner Plugins
+ *
+ * Extends TestRunner without editing test-runner.ts: lifecycle hooks around
+ * runs and suites, extra report writers, quality gate checks and CLI
+ * subcommands. Plugins are listed in the runner config, either inline or as
+ * module paths resolved from the config file's directory.
+ */
+
+import { dirname, resolve } from 'path'
+import type { TestFileResult } from './jest-results'
+import type { GateResult } from './quality-gates'
+import type { ReportWriter } from './report-writers'
+import type { TestExecutionResult, TestRunner, TestSuiteConfig } from './test-runner'
+
+type HookResult = void | Promise<void>
+
+export interface PluginCommand {
+  name: string
+  description: string
+  // Options shown under the description in the usage text, e.g. '[--json]'
+  usage?: string
+  // Resolves to the exit code (default 0)
+  run: (args: string[], runner: TestRunner) => number | void | Promise<number | void>
+}
+
+export type PluginGateResult = Omit<GateResult, 'type'>
+
+export interface TestRunnerPlugin {
+  name: string
+  // Once per run (`all`, `affected`, a whole pipeline), before any suite starts
+  beforeAll?: (suiteKeys: string[], runner: TestRunner) => HookResult
+  beforeSuite?: (suiteKey: string, suite: TestSuiteConfig, runner: TestRunner) => HookResult
+  // Once per test file, after retries and quarantine are applied
+  onResult?: (suiteKey: string, file: TestFileResult, runner: TestRunner) => HookResult
+  afterSuite?: (suiteKey: string, result: TestExecutionResult, runner: TestRunner) => HookResult
+  afterAll?: (results: Map<string, TestExecutionResult>, runner: TestRunner) => HookResult
+  // Evaluated with the quality gate policy; a failed gate fails the run
+  checkGates?: (results: Map<string, TestExecutionResult>, runner: TestRunner) => PluginGateResult[]
+  reportWriters?: ReportWriter[]
+  commands?: PluginCommand[]
+}
+
+export type PluginHook = 'beforeAll' | 'beforeSuite' | 'onResult' | 'afterSuite' | 'afterAll'
+
+// A module exports a plugin, or a factory called with the configured options
+export type PluginFactory = (options: Record<string, unknown>) => TestRunnerPlugin
+
+export type PluginSpec = string | TestRunnerPlugin | [string, Record<string, unknown>]
+
+const PLUGIN_HOOKS: PluginHook[] = ['beforeAll', 'beforeSuite', 'onResult', 'afterSuite', 'afterAll']
+
+export const validatePlugin = (plugin: TestRunnerPlugin, source: string): TestRunnerPlugin => {
+  if (!plugin || typeof plugin !== 'object' || typeof plugin.name !== 'string' || !plugin.name) {
+    throw new Error(`Runner plugin ${source} must export an object with a name`)
+  }
+
+  const invalidHook = PLUGIN_HOOKS.find(hook => plugin[hook] !== undefined && typeof plugin[hook] !== 'function')
+  if (invalidHook) {
+    throw new Error(`Runner plugin '${plugin.name}': ${invalidHook} must be a function`)
+  }
+
+  if ((plugin.commands || []).some(command => !command.name || typeof command.run !== 'function')) {
+    throw new Error(`Runner plugin '${plugin.name}': commands need a name and a run function`)
+  }
+
+  return plugin
+}
+
+/**
+ * Resolves a config entry to a plugin. Module paths are relative to the
+ * directory of the runner config (or the working directory without one).
+ */
+export const loadPlugin = (spec: PluginSpec, configPath?: string): TestRunnerPlugin => {
+  if (typeof spec === 'object' && !Array.isArray(spec)) {
+    return validatePlugin(spec, 'entry')
+  }
+
+  const [modulePath, options] = Array.isArray(spec) ? spec : [spec, {}]
+  const baseDir = configPath ? dirname(resolve(configPath)) : process.cwd()
+
+  let loaded: any
+  try {
+    // Relative paths are local files; anything else is a package name
+    loaded = require(modulePath.startsWith('.') ? resolve(baseDir, modulePath) : modulePath)
+  } catch (error: any) {
+    throw new Error(`Could not load runner plugin ${modulePath}: ${error.message}`)
+  }
+
+  const exported = (loaded && loaded.default) || loaded
+  const plugin = typeof exported === 'function' ? (exported as PluginFactory)(options || {}) : exported
+  return validatePlugin(plugin, modulePath)
+}
+
+/**
+ * Calls a hook on every plugin in order. A failing hook is reported but does
+ * not stop the run; plugins fail a run through `checkGates`.
+ */
+export const runPluginHook = async <H extends PluginHook>(
+  plugins: TestRunnerPlugin[],
+  hook: H,
+  ...args: Parameters<NonNullable<TestRunnerPlugin[H]>>
+): Promise<void> => {
+  for (const plugin of plugins) {
+    const handler = plugin[hook] as ((...hookArgs: unknown[]) => HookResult) | undefined
+    if (!handler) continue
+
+    try {
+      await handler.apply(plugin, args)
+    } catch (error: any) {
+      console.warn(`⚠️ Plugin '${plugin.name}' ${hook} hook failed: ${error.message || error}`)
+    }
+  }
+}
+
+// A gate check that throws counts as a failed gate rather than a crash
+export const checkPluginGates = (
+  plugins: TestRunnerPlugin[],
+  results: Map<string, TestExecutionResult>,
+  runner: TestRunner
+): GateResult[] =>
+  plugins.flatMap(plugin => {
+    if (!plugin.checkGates) return []
+
+    try {
+      return plugin.checkGates(results, runner).map(gate => ({ ...gate, type: 'plugin' as const }))
+    } catch (error: any) {
+      return [{
+        name: `${plugin.name} gates`,
+        type: 'plugin' as const,
+        status: 'failed' as const,
+        reason: `Gate check threw: ${error.message || error}`,
+      }]
+    }
+  })
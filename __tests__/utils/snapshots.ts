@@ -0,0 +1,338 @@
+/**
+ * Snapshot Management
+ *
+ * Works from stored suite results: obsolete snapshot entries and files,
+ * readable diffs for failing snapshot assertions and per-test accept/reject
+ * decisions, made interactively or read from a file. Also measures .snap
+ * files against a size budget, since huge snapshots get rubber-stamped.
+ */
+
+import { existsSync, readFileSync } from 'fs'
+import { join } from 'path'
+import { createInterface } from 'readline'
+import { stripStackTrace } from './failure-clusters'
+import { walkFiles } from './fs-utils'
+import type { ObsoleteSnapshot } from './jest-results'
+import type { TestExecutionResult } from './test-runner'
+
+// Largest .snap file, in KB, before `snapshots size` flags it
+export const DEFAULT_SNAPSHOT_BUDGET_KB = 50
+
+const SNAPSHOT_MATCHER_PATTERN =
+  /\.(toMatchSnapshot|toMatchInlineSnapshot|toThrowErrorMatchingSnapshot|toThrowErrorMatchingInlineSnapshot)\(/
+
+export interface FailingSnapshot {
+  suite: string
+  file: string
+  // Full test name (describe blocks + title)
+  test: string
+  matcher: string
+  // Key in the .snap file, e.g. `PayButton renders 1`; inline snapshots have none
+  snapshotName?: string
+  // Jest's `- Snapshot` / `+ Received` diff
+  diff: string[]
+}
+
+export interface SuiteObsoleteSnapshot extends ObsoleteSnapshot {
+  suite: string
+}
+
+export type SnapshotDecisionValue = 'accept' | 'reject'
+
+export interface SnapshotDecision {
+  // Repository-relative test file path
+  file: string
+  // Full test name; omit to decide for every failing snapshot in the file
+  test?: string
+  decision: SnapshotDecisionValue
+}
+
+export interface SnapshotDecisionList {
+  decisions: SnapshotDecision[]
+}
+
+export interface SnapshotReview {
+  accepted: FailingSnapshot[]
+  rejected: FailingSnapshot[]
+  undecided: FailingSnapshot[]
+}
+
+// Outcome of re-running one test file's accepted tests with `--updateSnapshot`
+export interface SnapshotUpdate {
+  suite: string
+  file: string
+  tests: string[]
+  updated: number
+  error?: string
+}
+
+export interface SnapshotFileSize {
+  file: string
+  bytes: number
+  entries: number
+  largestEntry?: { name: string; bytes: number }
+  overBudget: boolean
+}
+
+export interface SnapshotSizeReport {
+  budgetKb: number
+  // Largest first
+  files: SnapshotFileSize[]
+}
+
+const parseSnapshotFailure = (message: string): Pick<FailingSnapshot, 'matcher' | 'snapshotName' | 'diff'> | undefined => {
+  const matcher = message.match(SNAPSHOT_MATCHER_PATTERN)?.[1]
+  if (!matcher) return undefined
+
+  const lines = stripStackTrace(message).split('\n')
+  // The diff starts at Jest's `- Snapshot  - n` legend
+  const diffStart = lines.findIndex(line => line.startsWith('- Snapshot'))
+
+  return {
+    matcher,
+    snapshotName: message.match(/^Snapshot name: `(.*)`$/m)?.[1],
+    diff: diffStart >= 0 ? lines.slice(diffStart) : lines.slice(1).filter(line => line.trim()),
+  }
+}
+
+export const findFailingSnapshots = (results: Map<string, TestExecutionResult>): FailingSnapshot[] => {
+  const snapshots: FailingSnapshot[] = []
+
+  results.forEach((result, suite) => {
+    result.files.forEach(file => {
+      file.tests
+        .filter(test => test.status === 'failed')
+        .forEach(test => {
+          test.failureMessages.forEach(message => {
+            const failure = parseSnapshotFailure(message)
+            if (failure) {
+              snapshots.push({ suite, file: file.path, test: test.fullName, ...failure })
+            }
+          })
+        })
+    })
+  })
+
+  return snapshots
+}
+
+// A .snap file shared by suites (e.g. unit and components) is listed once
+export const collectObsoleteSnapshots = (results: Map<string, TestExecutionResult>): SuiteObsoleteSnapshot[] => {
+  const byFile = new Map<string, SuiteObsoleteSnapshot>()
+
+  results.forEach((result, suite) => {
+    ;(result.obsoleteSnapshots || []).forEach(entry => {
+      if (!byFile.has(entry.file)) {
+        byFile.set(entry.file, { suite, ...entry })
+      }
+    })
+  })
+
+  return Array.from(byFile.values()).sort((a, b) => a.file.localeCompare(b.file))
+}
+
+export const loadSnapshotDecisions = (decisionsFile: string): SnapshotDecision[] => {
+  if (!existsSync(decisionsFile)) {
+    throw new Error(`Snapshot decisions file ${decisionsFile} not found`)
+  }
+
+  let list: SnapshotDecisionList
+  try {
+    list = JSON.parse(readFileSync(decisionsFile, 'utf8'))
+  } catch (error: any) {
+    throw new Error(`Could not parse snapshot decisions ${decisionsFile}: ${error.message}`)
+  }
+
+  const decisions = Array.isArray(list.decisions) ? list.decisions : []
+  decisions.forEach((entry, index) => {
+    if (!entry.file || (entry.decision !== 'accept' && entry.decision !== 'reject')) {
+      throw new Error(`${decisionsFile}: decision ${index + 1} needs a file and "accept" or "reject"`)
+    }
+  })
+
+  return decisions
+}
+
+// A decision for the test wins over one for its whole file
+export const applySnapshotDecisions = (
+  snapshots: FailingSnapshot[],
+  decisions: SnapshotDecision[]
+): SnapshotReview => {
+  const review: SnapshotReview = { accepted: [], rejected: [], undecided: [] }
+
+  snapshots.forEach(snapshot => {
+    const decision =
+      decisions.find(entry => entry.file === snapshot.file && entry.test === snapshot.test) ||
+      decisions.find(entry => entry.file === snapshot.file && entry.test === undefined)
+
+    if (!decision) {
+      review.undecided.push(snapshot)
+    } else if (decision.decision === 'accept') {
+      review.accepted.push(snapshot)
+    } else {
+      review.rejected.push(snapshot)
+    }
+  })
+
+  return review
+}
+
+export const formatFailingSnapshot = (snapshot: FailingSnapshot, index?: number): string => {
+  const lines: string[] = []
+  const prefix = index === undefined ? '' : `[${index + 1}] `
+
+  lines.push(`${prefix}${snapshot.file} › ${snapshot.test} (${snapshot.suite})`)
+  lines.push(`    ${snapshot.snapshotName ? `Snapshot: ${snapshot.snapshotName}` : snapshot.matcher}`)
+  lines.push('')
+  snapshot.diff.forEach(line => lines.push(line.trim() ? `    ${line}` : ''))
+  lines.push('')
+
+  return lines.join('\n')
+}
+
+export const formatSnapshotDiffs = (snapshots: FailingSnapshot[]): string => {
+  const lines: string[] = []
+
+  lines.push('='.repeat(80))
+  lines.push(`FAILING SNAPSHOTS (${snapshots.length})`)
+  lines.push('='.repeat(80))
+  lines.push('')
+
+  if (snapshots.length === 0) {
+    lines.push('No failing snapshots in the stored results')
+    return lines.join('\n')
+  }
+
+  snapshots.forEach((snapshot, index) => lines.push(formatFailingSnapshot(snapshot, index)))
+  return lines.join('\n')
+}
+
+export const formatObsoleteSnapshots = (entries: SuiteObsoleteSnapshot[]): string => {
+  const lines: string[] = []
+  const keys = entries.reduce((sum, entry) => sum + (entry.keys?.length || 0), 0)
+  const files = entries.filter(entry => !entry.keys).length
+
+  lines.push(`Obsolete snapshots: ${keys} unused entries, ${files} files without a test`)
+
+  entries.forEach(entry => {
+    if (entry.keys) {
+      lines.push(`  ${entry.file} (${entry.suite})`)
+      entry.keys.forEach(key => lines.push(`    - ${key}`))
+    } else {
+      lines.push(`  ${entry.file} (${entry.suite}): test file no longer exists`)
+    }
+  })
+
+  return lines.join('\n')
+}
+
+/**
+ * Asks per failing snapshot whether to accept the received value. Stops at
+ * `q` or when input closes; the remaining snapshots stay undecided.
+ */
+export const promptSnapshotDecisions = async (
+  snapshots: FailingSnapshot[],
+  input: NodeJS.ReadableStream = process.stdin,
+  output: NodeJS.WritableStream = process.stdout
+): Promise<SnapshotDecision[]> => {
+  const rl = createInterface({ input, output })
+  const ask = (question: string) =>
+    new Promise<string>(resolve => {
+      const onClose = () => resolve('q')
+      rl.once('close', onClose)
+      rl.question(question, answer => {
+        rl.removeListener('close', onClose)
+        resolve(answer)
+      })
+    })
+
+  const decisions: SnapshotDecision[] = []
+
+  try {
+    for (const [index, snapshot] of snapshots.entries()) {
+      output.write(`\n${formatFailingSnapshot(snapshot, index)}`)
+
+      let answer = ''
+      while (!['a', 'r', 'q'].includes(answer)) {
+        answer = (await ask('Accept the received value? [a]ccept, [r]eject, [q]uit: ')).trim().toLowerCase().charAt(0)
+      }
+
+      if (answer === 'q') break
+      decisions.push({ file: snapshot.file, test: snapshot.test, decision: answer === 'a' ? 'accept' : 'reject' })
+    }
+  } finally {
+    rl.close()
+  }
+
+  return decisions
+}
+
+export const formatSnapshotReview = (review: SnapshotReview, updates: SnapshotUpdate[]): string => {
+  const lines: string[] = []
+
+  lines.push(
+    `Snapshots: ${review.accepted.length} accepted, ${review.rejected.length} rejected, ` +
+    `${review.undecided.length} undecided`
+  )
+
+  updates.forEach(update => {
+    const status = update.error ? `❌ ${update.error}` : `✅ ${update.updated} updated`
+    lines.push(`  ${update.file} (${update.tests.length} tests): ${status}`)
+  })
+
+  review.rejected.forEach(snapshot => lines.push(`  Kept: ${snapshot.file} › ${snapshot.test}`))
+  review.undecided.forEach(snapshot => lines.push(`  Undecided: ${snapshot.file} › ${snapshot.test}`))
+
+  if (updates.length > 0) {
+    lines.push('')
+    lines.push('Stored results predate the update; re-run the suites to refresh them.')
+  }
+
+  return lines.join('\n')
+}
+
+// `exports[\`name\`] = \`...\`;` blocks of a .snap file
+const parseSnapshotEntries = (content: string): Array<{ name: string; bytes: number }> =>
+  content
+    .split(/^exports\[`/m)
+    .slice(1)
+    .map(chunk => ({
+      name: chunk.slice(0, chunk.indexOf('`] = ')).replace(/\\`/g, '`'),
+      bytes: Buffer.byteLength(chunk),
+    }))
+
+export const measureSnapshotFiles = (
+  budgetKb: number = DEFAULT_SNAPSHOT_BUDGET_KB,
+  rootDir: string = process.cwd()
+): SnapshotSizeReport => {
+  const files = walkFiles(rootDir, rootDir, file => file.endsWith('.snap'))
+    .map(file => {
+      const content = readFileSync(join(rootDir, file), 'utf8')
+      const bytes = Buffer.byteLength(content)
+      const entries = parseSnapshotEntries(content)
+      const largestEntry = entries.reduce<{ name: string; bytes: number } | undefined>(
+        (largest, entry) => (!largest || entry.bytes > largest.bytes ? entry : largest),
+        undefined
+      )
+
+      return { file, bytes, entries: entries.length, largestEntry, overBudget: bytes > budgetKb * 1024 }
+    })
+    .sort((a, b) => b.bytes - a.bytes)
+
+  return { budgetKb, files }
+}
+
+export const formatSnapshotSizes = (report: SnapshotSizeReport): string => {
+  const lines: string[] = []
+  const overBudget = report.files.filter(file => file.overBudget)
+  const toKb = (bytes: number) => `${(bytes / 1024).toFixed(1)} KB`
+
+  lines.push(`${report.files.length} snapshot files, ${overBudget.length} over the ${report.budgetKb} KB budget`)
+
+  overBudget.forEach(file => {
+    const largest = file.largestEntry ? `; largest: ${file.largestEntry.name} (${toKb(file.largestEntry.bytes)})` : ''
+    lines.push(`  ❌ ${file.file}: ${toKb(file.bytes)}, ${file.entries} snapshots${largest}`)
+  })
+
+  return lines.join('\n')
+}
@@ -0,0 +1,544 @@
+/**
+ * Test Quality Audit
+ *
+ * Statically flags tests that cannot fail for the right reasons: tests with
+ * no assertions, tests that only assert on `jest.fn` values defined in the
+ * same file (or on constants), and test files that import nothing from the
+ * code under test. Findings are counted per file against a checked-in
+ * baseline that may only go down.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { dirname, join, posix } from 'path'
+import * as ts from 'typescript'
+import { toPosixPath } from './fs-utils'
+import { getBlockName, getCalleeChain, matchTestBlock } from './test-inventory'
+
+export const AUDIT_BASELINE_FILE = 'test-audit-baseline.json'
+
+// A test file must import from one of these to exercise real code
+export const SOURCE_ROOTS = ['src/', 'modelFront/components/']
+
+export type AuditFindingKind = 'no-assertions' | 'mock-only-assertions' | 'no-source-imports'
+
+export const AUDIT_FINDING_KINDS: Array<{ kind: AuditFindingKind; label: string }> = [
+  { kind: 'no-assertions', label: 'Tests without assertions' },
+  { kind: 'mock-only-assertions', label: 'Tests asserting only on same-file mocks or constants' },
+  { kind: 'no-source-imports', label: `Test files importing nothing from ${SOURCE_ROOTS.join(' or ')}` },
+]
+
+export interface AuditFinding {
+  kind: AuditFindingKind
+  file: string
+  // Full test name (describe blocks + title); undefined for file findings
+  test?: string
+  line: number
+  // e.g. the mocks a mock-only test asserts on
+  detail?: string
+}
+
+export interface FileAudit {
+  file: string
+  tests: number
+  findings: AuditFinding[]
+}
+
+export type AuditCounts = Partial<Record<AuditFindingKind, number>>
+
+export interface AuditBaseline {
+  // Findings per test file and kind; files without findings are left out
+  files: Record<string, AuditCounts>
+}
+
+export interface AuditBaselineChange {
+  file: string
+  kind: AuditFindingKind
+  baseline: number
+  current: number
+}
+
+export interface TestAudit {
+  files: FileAudit[]
+  // Undefined when no baseline file exists
+  baselineFile?: string
+  // Counts above the baseline; these fail the audit
+  regressions: AuditBaselineChange[]
+  // Counts below the baseline, to lock in with --update-baseline
+  improvements: AuditBaselineChange[]
+}
+
+export type ModuleNameMapper = Record<string, string | string[]>
+
+const ASSERTION_HELPER_PATTERN = /^(expect|assert)([A-Z_]|$)/
+
+const isFunctionLike = (node: ts.Node): node is ts.ArrowFunction | ts.FunctionExpression | ts.FunctionDeclaration =>
+  ts.isArrowFunction(node) || ts.isFunctionExpression(node) || ts.isFunctionDeclaration(node)
+
+const unwrap = (node: ts.Expression): ts.Expression => {
+  while (
+    ts.isAwaitExpression(node) ||
+    ts.isParenthesizedExpression(node) ||
+    ts.isNonNullExpression(node) ||
+    ts.isAsExpression(node)
+  ) {
+    node = node.expression
+  }
+  return node
+}
+
+// `mockService.verify().tokenId` → mockService
+const getRootIdentifier = (node: ts.Expression): string | undefined => {
+  node = unwrap(node)
+  if (ts.isIdentifier(node)) return node.text
+  if (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node) || ts.isCallExpression(node)) {
+    return getRootIdentifier(node.expression)
+  }
+  return undefined
+}
+
+// `mockService.verify().isValid` is a call result; `mockService.verify` is not
+const isCallResult = (node: ts.Expression): boolean => {
+  node = unwrap(node)
+  if (ts.isCallExpression(node)) return true
+  if (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node)) return isCallResult(node.expression)
+  return false
+}
+
+const isConstant = (node: ts.Expression): boolean => {
+  node = unwrap(node)
+  if (
+    ts.isStringLiteral(node) ||
+    ts.isNumericLiteral(node) ||
+    ts.isNoSubstitutionTemplateLiteral(node) ||
+    node.kind === ts.SyntaxKind.TrueKeyword ||
+    node.kind === ts.SyntaxKind.FalseKeyword ||
+    node.kind === ts.SyntaxKind.NullKeyword ||
+    (ts.isIdentifier(node) && node.text === 'undefined')
+  ) {
+    return true
+  }
+  if (ts.isArrayLiteralExpression(node)) return node.elements.every(isConstant)
+  if (ts.isObjectLiteralExpression(node)) {
+    return node.properties.every(property => ts.isPropertyAssignment(property) && isConstant(property.initializer))
+  }
+  return false
+}
+
+const isJestFnCall = (node: ts.Node, sourceFile: ts.SourceFile) =>
+  ts.isCallExpression(node) && node.expression.getText(sourceFile) === 'jest.fn'
+
+// Finds `jest.fn` calls without entering functions (other than jest.fn's own)
+const containsJestFn = (node: ts.Node, sourceFile: ts.SourceFile): boolean =>
+  isJestFnCall(node, sourceFile) ||
+  (!isFunctionLike(node) && ts.forEachChild(node, child => containsJestFn(child, sourceFile) || undefined) === true)
+
+/**
+ * Variables holding `jest.fn` values anywhere in the file, e.g.
+ * `const onTap = jest.fn()` or a `mockWalletService` object of jest.fn members.
+ */
+const collectMockNames = (sourceFile: ts.SourceFile): Set<string> => {
+  const names = new Set<string>()
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isVariableDeclaration(node) &&
+      ts.isIdentifier(node.name) &&
+      node.initializer &&
+      !isFunctionLike(node.initializer) &&
+      containsJestFn(node.initializer, sourceFile)
+    ) {
+      names.add(node.name.text)
+    }
+    ts.forEachChild(node, visit)
+  }
+
+  visit(sourceFile)
+  return names
+}
+
+// Functions declared in the file that assert, so calling them counts as asserting
+const collectAssertionHelpers = (sourceFile: ts.SourceFile): Set<string> => {
+  const helpers = new Set<string>()
+
+  const hasExpect = (node: ts.Node): boolean =>
+    (ts.isCallExpression(node) && getCalleeChain(node.expression)?.[0] === 'expect') ||
+    ts.forEachChild(node, child => hasExpect(child) || undefined) === true
+
+  const visit = (node: ts.Node) => {
+    if (ts.isFunctionDeclaration(node) && node.name && hasExpect(node)) {
+      helpers.add(node.name.text)
+    } else if (
+      ts.isVariableDeclaration(node) &&
+      ts.isIdentifier(node.name) &&
+      node.initializer &&
+      isFunctionLike(node.initializer) &&
+      hasExpect(node.initializer)
+    ) {
+      helpers.add(node.name.text)
+    }
+    ts.forEachChild(node, visit)
+  }
+
+  visit(sourceFile)
+  return helpers
+}
+
+/**
+ * Local variables of a test body mapped to their initializers; destructured
+ * names map to the destructured value.
+ */
+const collectLocals = (body: ts.Node): Map<string, ts.Expression> => {
+  const locals = new Map<string, ts.Expression>()
+
+  const addBinding = (name: ts.BindingName, initializer: ts.Expression) => {
+    if (ts.isIdentifier(name)) {
+      locals.set(name.text, initializer)
+    } else {
+      name.elements.forEach(element => {
+        if (!ts.isOmittedExpression(element)) addBinding(element.name, initializer)
+      })
+    }
+  }
+
+  const visit = (node: ts.Node) => {
+    if (ts.isVariableDeclaration(node) && node.initializer) {
+      addBinding(node.name, node.initializer)
+    }
+    ts.forEachChild(node, visit)
+  }
+
+  visit(body)
+  return locals
+}
+
+interface TestBodyAnalysis {
+  hasAssertions: boolean
+  // Mocks (or 'constants') every assertion traces back to; undefined when
+  // at least one assertion checks something else
+  trivialSources?: string[]
+}
+
+/**
+ * An assertion is trivial when its subject is a constant, a value the test
+ * got by calling a same-file mock, or a same-file mock the test calls itself
+ * (`mock.start(); expect(mock.start).toHaveBeenCalled()`).
+ */
+const analyzeTestBody = (
+  body: ts.Node,
+  sourceFile: ts.SourceFile,
+  mocks: Set<string>,
+  helpers: Set<string>
+): TestBodyAnalysis => {
+  const subjects: ts.Expression[] = []
+  const directMockCalls = new Set<string>()
+  let hasAssertions = false
+  // Helper assertions check values we cannot see, so they are never trivial
+  let hasHelperAssertions = false
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node)) {
+      const chain = getCalleeChain(node.expression)
+      const name = chain?.[chain.length - 1]
+
+      if (chain?.[0] === 'expect') {
+        hasAssertions = true
+        // `expect(value)`; `expect.assertions(n)` has no subject
+        if (chain.length === 1 && node.arguments[0]) subjects.push(node.arguments[0])
+      } else if (name && (ASSERTION_HELPER_PATTERN.test(name) || (chain!.length === 1 && helpers.has(name)))) {
+        hasAssertions = true
+        hasHelperAssertions = true
+      } else if (chain && mocks.has(chain[0])) {
+        directMockCalls.add(chain.join('.'))
+      }
+    }
+    ts.forEachChild(node, visit)
+  }
+
+  visit(body)
+  if (!hasAssertions) {
+    return { hasAssertions }
+  }
+
+  const locals = collectLocals(body)
+  const sources = new Set<string>()
+
+  const traceSubject = (subject: ts.Expression, depth = 0): boolean => {
+    subject = unwrap(subject)
+    if (isConstant(subject)) {
+      sources.add('constants')
+      return true
+    }
+
+    const root = getRootIdentifier(subject)
+    if (!root) return false
+
+    if (mocks.has(root)) {
+      if (isCallResult(subject) || directMockCalls.has(subject.getText(sourceFile))) {
+        sources.add(root)
+        return true
+      }
+      return false
+    }
+
+    // `const token = await mockService.verify()` then `expect(token.isValid)`
+    const initializer = locals.get(root)
+    return initializer !== undefined && depth < 5 && traceSubject(initializer, depth + 1)
+  }
+
+  const allTrivial = !hasHelperAssertions && subjects.length > 0 && subjects.every(subject => traceSubject(subject))
+
+  return { hasAssertions, trivialSources: allTrivial ? Array.from(sources).sort() : undefined }
+}
+
+// Jest resolves `@/`-style aliases through moduleNameMapper; the first match wins
+const mapModule = (specifier: string, moduleNameMapper: ModuleNameMapper): string => {
+  for (const [pattern, target] of Object.entries(moduleNameMapper)) {
+    const match = specifier.match(new RegExp(pattern))
+    if (!match) continue
+
+    const mapped = Array.isArray(target) ? target[0] : target
+    return mapped
+      .replace(/^<rootDir>\//, '')
+      .replace(/\$(\d+)/g, (_, index) => match[Number(index)] || '')
+  }
+  return specifier
+}
+
+/**
+ * Repository paths of the modules a test file loads, resolved without
+ * touching the file system. Type-only imports and `jest.mock` targets are
+ * left out since they run no code under test.
+ */
+export const getImportedModules = (
+  source: string,
+  file: string,
+  moduleNameMapper: ModuleNameMapper = {}
+): string[] => {
+  const sourceFile = ts.createSourceFile(file, source, ts.ScriptTarget.Latest, true)
+  const specifiers: string[] = []
+
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+      const clause = node.importClause
+      const bindings = clause?.namedBindings
+      const typeOnly =
+        clause?.isTypeOnly ||
+        (clause && !clause.name && bindings && ts.isNamedImports(bindings) &&
+          bindings.elements.length > 0 && bindings.elements.every(element => element.isTypeOnly))
+      if (!typeOnly) specifiers.push(node.moduleSpecifier.text)
+    } else if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+      if (!node.isTypeOnly) specifiers.push(node.moduleSpecifier.text)
+    } else if (ts.isCallExpression(node) && node.arguments.length > 0 && ts.isStringLiteral(node.arguments[0])) {
+      const callee = node.expression.getText(sourceFile)
+      if (callee === 'require' || callee === 'jest.requireActual' || node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+        specifiers.push(node.arguments[0].text)
+      }
+    }
+    ts.forEachChild(node, visit)
+  }
+
+  visit(sourceFile)
+
+  return Array.from(new Set(specifiers.map(specifier =>
+    specifier.startsWith('.')
+      ? posix.normalize(posix.join(dirname(toPosixPath(file)), specifier))
+      : mapModule(specifier, moduleNameMapper)
+  )))
+}
+
+export const auditTestFile = (
+  file: string,
+  options: { rootDir?: string; moduleNameMapper?: ModuleNameMapper } = {}
+): FileAudit => {
+  const source = readFileSync(join(options.rootDir || process.cwd(), file), 'utf8')
+  const sourceFile = ts.createSourceFile(file, source, ts.ScriptTarget.Latest, true)
+  const mocks = collectMockNames(sourceFile)
+  const helpers = collectAssertionHelpers(sourceFile)
+  const findings: AuditFinding[] = []
+  let tests = 0
+
+  const getLine = (node: ts.Node) => sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1
+
+  const visit = (node: ts.Node, path: string[]) => {
+    const match = ts.isCallExpression(node) ? matchTestBlock(node) : undefined
+    if (!match || !ts.isCallExpression(node)) {
+      ts.forEachChild(node, child => visit(child, path))
+      return
+    }
+
+    const name = getBlockName(node.arguments[0], sourceFile)
+    if (match.kind === 'describe') {
+      node.arguments.slice(1).forEach(argument => visit(argument, [...path, name]))
+      return
+    }
+
+    tests++
+    const skipped =
+      match.modifiers.includes('skip') ||
+      match.modifiers.includes('todo') ||
+      /^x/.test(node.expression.getText(sourceFile))
+    // Tests passed by reference (`it('works', runCase)`) cannot be inspected
+    const body = node.arguments.find(argument => isFunctionLike(argument))
+    if (skipped || !body) return
+
+    const test = [...path, name].join(' › ')
+    const analysis = analyzeTestBody(body, sourceFile, mocks, helpers)
+
+    if (!analysis.hasAssertions) {
+      findings.push({ kind: 'no-assertions', file, test, line: getLine(node) })
+    } else if (analysis.trivialSources) {
+      findings.push({
+        kind: 'mock-only-assertions',
+        file,
+        test,
+        line: getLine(node),
+        detail: analysis.trivialSources.join(', '),
+      })
+    }
+  }
+
+  visit(sourceFile, [])
+
+  const modules = getImportedModules(source, file, options.moduleNameMapper)
+  // A test next to its subject (e.g. utils/foo.test.ts for utils/foo.ts) exercises real code too
+  const subject = toPosixPath(file).replace(/\.test\.[jt]sx?$/, '')
+  if (!modules.some(module => module === subject || SOURCE_ROOTS.some(root => module.startsWith(root)))) {
+    findings.unshift({ kind: 'no-source-imports', file, line: 1 })
+  }
+
+  return { file, tests, findings }
+}
+
+// Keys follow AUDIT_FINDING_KINDS so the baseline diffs stay stable
+export const countFindings = (findings: AuditFinding[]): AuditCounts => {
+  const counts: AuditCounts = {}
+  AUDIT_FINDING_KINDS.forEach(({ kind }) => {
+    const count = findings.filter(finding => finding.kind === kind).length
+    if (count > 0) counts[kind] = count
+  })
+  return counts
+}
+
+export const loadAuditBaseline = (baselineFile: string = AUDIT_BASELINE_FILE): AuditBaseline | undefined => {
+  if (!existsSync(baselineFile)) {
+    return undefined
+  }
+
+  try {
+    const baseline = JSON.parse(readFileSync(baselineFile, 'utf8')) as AuditBaseline
+    if (typeof baseline.files !== 'object' || baseline.files === null) {
+      throw new Error('expected a "files" object')
+    }
+    return baseline
+  } catch (error: any) {
+    throw new Error(`Could not parse test audit baseline ${baselineFile}: ${error.message}`)
+  }
+}
+
+export const compareAuditBaseline = (
+  files: FileAudit[],
+  baseline: AuditBaseline
+): Pick<TestAudit, 'regressions' | 'improvements'> => {
+  const regressions: AuditBaselineChange[] = []
+  const improvements: AuditBaselineChange[] = []
+
+  files.forEach(({ file, findings }) => {
+    const counts = countFindings(findings)
+    const allowed = baseline.files[file] || {}
+
+    AUDIT_FINDING_KINDS.forEach(({ kind }) => {
+      const current = counts[kind] || 0
+      const limit = allowed[kind] || 0
+      if (current > limit) regressions.push({ file, kind, baseline: limit, current })
+      else if (current < limit) improvements.push({ file, kind, baseline: limit, current })
+    })
+  })
+
+  return { regressions, improvements }
+}
+
+export const createTestAudit = (
+  testFiles: string[],
+  options: { rootDir?: string; moduleNameMapper?: ModuleNameMapper; baselineFile?: string } = {}
+): TestAudit => {
+  const files = testFiles.map(file => auditTestFile(file, options))
+  const baselineFile = options.baselineFile || AUDIT_BASELINE_FILE
+  const baseline = loadAuditBaseline(baselineFile)
+
+  return baseline
+    ? { files, baselineFile, ...compareAuditBaseline(files, baseline) }
+    : { files, regressions: [], improvements: [] }
+}
+
+/**
+ * Records the audited files' current counts. Refuses to raise the baseline
+ * unless `force` is set, so the ratchet only turns one way by default.
+ * Entries for test files that no longer exist are dropped.
+ */
+export const saveAuditBaseline = (
+  audit: TestAudit,
+  options: { force?: boolean; baselineFile?: string; rootDir?: string } = {}
+): string => {
+  const baselineFile = options.baselineFile || audit.baselineFile || AUDIT_BASELINE_FILE
+  if (audit.regressions.length > 0 && !options.force) {
+    throw new Error(
+      `Findings above ${baselineFile}: ${audit.regressions.length}; ` +
+      'fix them or pass --force to record them'
+    )
+  }
+
+  const rootDir = options.rootDir || process.cwd()
+  const previous = loadAuditBaseline(baselineFile)?.files || {}
+  const audited = new Set(audit.files.map(entry => entry.file))
+  const entries: Array<[string, AuditCounts]> = Object.entries(previous)
+    .filter(([file]) => !audited.has(file) && existsSync(join(rootDir, file)))
+
+  audit.files
+    .filter(entry => entry.findings.length > 0)
+    .forEach(entry => entries.push([entry.file, countFindings(entry.findings)]))
+
+  entries.sort(([a], [b]) => a.localeCompare(b))
+  writeFileSync(baselineFile, `${JSON.stringify({ files: Object.fromEntries(entries) }, null, 2)}\n`)
+  return baselineFile
+}
+
+export const formatTestAudit = (audit: TestAudit): string => {
+  const lines: string[] = []
+  const findings = audit.files.flatMap(file => file.findings)
+  const totalTests = audit.files.reduce((sum, file) => sum + file.tests, 0)
+
+  lines.push('='.repeat(80))
+  lines.push(`TEST QUALITY AUDIT (${audit.files.length} files, ${totalTests} tests)`)
+  lines.push('='.repeat(80))
+
+  AUDIT_FINDING_KINDS.forEach(({ kind, label }) => {
+    const matching = findings.filter(finding => finding.kind === kind)
+    lines.push('')
+    lines.push(`${label}: ${matching.length}`)
+    matching.forEach(finding => {
+      const location = finding.test ? `${finding.file}:${finding.line} › ${finding.test}` : finding.file
+      lines.push(`  ${location}${finding.detail ? ` (${finding.detail})` : ''}`)
+    })
+  })
+
+  lines.push('')
+  if (!audit.baselineFile) {
+    lines.push(`No baseline yet; run \`test-runner audit --update-baseline\` to record ${AUDIT_BASELINE_FILE}`)
+    return lines.join('\n')
+  }
+
+  lines.push(`Baseline (${audit.baselineFile}):`)
+  if (audit.regressions.length === 0) {
+    lines.push('  ✅ No file has more findings than its baseline')
+  }
+  audit.regressions.forEach(change => {
+    lines.push(`  ❌ ${change.file}: ${change.kind} ${change.baseline} → ${change.current}`)
+  })
+
+  if (audit.improvements.length > 0) {
+    const fixed = audit.improvements.reduce((sum, change) => sum + change.baseline - change.current, 0)
+    lines.push(`  ⬇️  Fixed since the baseline: ${fixed}; run \`test-runner audit --update-baseline\` to lock them in`)
+  }
+
+  return lines.join('\n')
+}
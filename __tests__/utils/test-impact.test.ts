@@ -0,0 +1,70 @@
+/**
+ * Test Impact Map Tests
+ *
+ * `which-tests` and `affected` read the map by source file, so lookups must
+ * match files and directories exactly as the recorder wrote them
+ */
+
+import { createImpactMap, findCoveringTests, findImpactedTests } from './test-impact'
+
+const map = createImpactMap([
+  { file: 'src/Send.test.tsx', test: 'Send submits', sources: { 'src/services/wallet.ts': ['send'] } },
+  {
+    file: 'src/Home.test.tsx',
+    test: 'Home shows the balance',
+    sources: { 'src/services/wallet.ts': ['getBalance'], 'src/services/rpc.ts': [] },
+  },
+  { file: 'src/Home.test.tsx', test: 'Home refreshes', sources: { 'src/services/rpc.ts': ['call'] } },
+  { file: 'src/services-legacy.test.ts', test: 'legacy', sources: { 'src/services-legacy.ts': [] } },
+], ['unit'])
+
+describe('createImpactMap', () => {
+  it('should index tests by the sources they executed, ordered by file and name', () => {
+    expect(map.sources['src/services/rpc.ts'].map(entry => entry.test)).toEqual(['Home refreshes', 'Home shows the balance'])
+    expect(map.sources['src/services/wallet.ts'].map(entry => entry.testFile)).toEqual(['src/Home.test.tsx', 'src/Send.test.tsx'])
+  })
+})
+
+describe('findCoveringTests', () => {
+  const graph = new Map([
+    ['src/Send.test.tsx', new Set(['src/services/wallet.ts'])],
+    ['src/Home.test.tsx', new Set(['src/Home.tsx'])],
+  ])
+
+  it('should mark whether each test file imports the module itself', () => {
+    const [module] = findCoveringTests(map, 'src/services/wallet.ts', graph)
+
+    expect(module.tests.map(test => [test.testFile, test.direct])).toEqual([
+      ['src/Home.test.tsx', false],
+      ['src/Send.test.tsx', true],
+    ])
+  })
+
+  it('should match every file under a directory but not sibling prefixes', () => {
+    expect(findCoveringTests(map, 'src/services', graph).map(module => module.source))
+      .toEqual(['src/services/rpc.ts', 'src/services/wallet.ts'])
+  })
+})
+
+describe('findImpactedTests', () => {
+  it('should select each test file once, through the first changed file that reaches it', () => {
+    expect(findImpactedTests(map, ['src/services/rpc.ts', 'src/services/wallet.ts'])).toEqual([
+      {
+        testFile: 'src/Home.test.tsx',
+        changedFile: 'src/services/rpc.ts',
+        chain: ['src/Home.test.tsx', 'src/services/rpc.ts'],
+        viaImpactMap: true,
+      },
+      {
+        testFile: 'src/Send.test.tsx',
+        changedFile: 'src/services/wallet.ts',
+        chain: ['src/Send.test.tsx', 'src/services/wallet.ts'],
+        viaImpactMap: true,
+      },
+    ])
+  })
+
+  it('should select nothing for files no recorded test executed', () => {
+    expect(findImpactedTests(map, ['src/screens/Settings.tsx'])).toEqual([])
+  })
+})
@@ -0,0 +1,245 @@
+/**
+ * Test Impact Map
+ *
+ * Records which source files and functions each individual test executes.
+ * While the runner builds the map it sets TRUETAP_TEST_IMPACT_DIR and
+ * collects coverage; the recorder diffs istanbul's counters around every
+ * test and appends one JSON line per test. Outside that mode it is a no-op.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs'
+import { join, relative, resolve } from 'path'
+import type { AffectedTest } from './affected-tests'
+import { toPosixPath } from './fs-utils'
+
+export const TEST_IMPACT_ENV = 'TRUETAP_TEST_IMPACT_DIR'
+
+export const IMPACT_MAP_FILE = 'test-results/impact-map.json'
+
+export interface TestImpactRecord {
+  // Repository-relative test file and full test name
+  file: string
+  test: string
+  // Source file -> names of the functions the test called in it
+  sources: Record<string, string[]>
+}
+
+export interface ImpactEntry {
+  testFile: string
+  test: string
+  functions: string[]
+}
+
+export interface ImpactMap {
+  generatedAt: string
+  suites: string[]
+  // Source file -> tests that executed it
+  sources: Record<string, ImpactEntry[]>
+}
+
+export interface CoveringTest extends ImpactEntry {
+  // The test file imports the module itself rather than reaching it through others
+  direct: boolean
+}
+
+export interface ModuleImpact {
+  source: string
+  tests: CoveringTest[]
+}
+
+// The parts of istanbul's per-file coverage data the recorder reads
+interface FileCounters {
+  s: Record<string, number>
+  f: Record<string, number>
+  fnMap: Record<string, { name: string }>
+}
+
+const toRepoPath = (file: string) => toPosixPath(relative(process.cwd(), file))
+
+/**
+ * Registers hooks that attribute executed statements and functions to the
+ * current test. Requires babel (istanbul) coverage; the V8 provider has no
+ * live counters.
+ */
+export const installTestImpactRecorder = () => {
+  const directory = process.env[TEST_IMPACT_ENV]
+  if (!directory || typeof beforeEach !== 'function') return
+
+  const getCoverage = (): Record<string, FileCounters> => (globalThis as any).__coverage__ || {}
+  let before = new Map<string, { s: Record<string, number>; f: Record<string, number> }>()
+
+  beforeEach(() => {
+    before = new Map(Object.entries(getCoverage()).map(([file, data]) => [file, { s: { ...data.s }, f: { ...data.f } }]))
+  })
+
+  afterEach(() => {
+    const state = (globalThis as any).expect?.getState?.()
+    if (!state?.testPath) return
+
+    const sources: Record<string, string[]> = {}
+    Object.entries(getCoverage()).forEach(([file, data]) => {
+      // Files first loaded during the test have no snapshot; every hit counts
+      const previous = before.get(file)
+      const ranStatement = Object.keys(data.s).some(id => data.s[id] > (previous?.s[id] ?? 0))
+      const functions = Object.keys(data.f)
+        .filter(id => data.f[id] > (previous?.f[id] ?? 0))
+        .map(id => data.fnMap[id].name)
+
+      if (ranStatement || functions.length > 0) {
+        sources[toRepoPath(file)] = Array.from(new Set(functions)).sort()
+      }
+    })
+
+    const record: TestImpactRecord = { file: toRepoPath(state.testPath), test: state.currentTestName || '', sources }
+    mkdirSync(directory, { recursive: true })
+    // One file per worker avoids interleaved writes
+    appendFileSync(join(directory, `${process.pid}.jsonl`), `${JSON.stringify(record)}\n`)
+  })
+}
+
+// Later records for the same test (e.g. from a retry) replace earlier ones
+export const readTestImpact = (directory: string): TestImpactRecord[] => {
+  if (!existsSync(directory)) {
+    return []
+  }
+
+  const records = new Map<string, TestImpactRecord>()
+
+  readdirSync(directory)
+    .filter(file => file.endsWith('.jsonl'))
+    .sort()
+    .forEach(file => {
+      readFileSync(join(directory, file), 'utf8')
+        .split('\n')
+        .filter(line => line.trim())
+        .forEach(line => {
+          try {
+            const record = JSON.parse(line) as TestImpactRecord
+            records.set(`${record.file}|${record.test}`, record)
+          } catch {
+            // A worker killed mid-write leaves a partial line
+          }
+        })
+    })
+
+  return Array.from(records.values())
+}
+
+export const createImpactMap = (records: TestImpactRecord[], suites: string[]): ImpactMap => {
+  const sources: Record<string, ImpactEntry[]> = {}
+
+  records.forEach(record => {
+    Object.entries(record.sources).forEach(([source, functions]) => {
+      sources[source] = [...(sources[source] || []), { testFile: record.file, test: record.test, functions }]
+    })
+  })
+
+  Object.values(sources).forEach(entries =>
+    entries.sort((a, b) => a.testFile.localeCompare(b.testFile) || a.test.localeCompare(b.test))
+  )
+
+  return { generatedAt: new Date().toISOString(), suites, sources }
+}
+
+export const saveImpactMap = (map: ImpactMap, outputFile: string = IMPACT_MAP_FILE): string => {
+  writeFileSync(outputFile, JSON.stringify(map, null, 2))
+  return outputFile
+}
+
+export const loadImpactMap = (mapFile: string = IMPACT_MAP_FILE): ImpactMap | undefined => {
+  if (!existsSync(mapFile)) {
+    return undefined
+  }
+
+  try {
+    return JSON.parse(readFileSync(mapFile, 'utf8')) as ImpactMap
+  } catch (error: any) {
+    throw new Error(`Could not parse impact map ${mapFile}: ${error.message}`)
+  }
+}
+
+/**
+ * Tests that executed `target` (a file, or every file under a directory),
+ * marking whether each test file imports the module directly.
+ */
+export const findCoveringTests = (
+  map: ImpactMap,
+  target: string,
+  graph: Map<string, Set<string>>
+): ModuleImpact[] => {
+  const path = toRepoPath(resolve(target))
+
+  return Object.keys(map.sources)
+    .filter(source => source === path || source.startsWith(`${path}/`))
+    .sort()
+    .map(source => ({
+      source,
+      tests: map.sources[source].map(entry => ({
+        ...entry,
+        direct: graph.get(entry.testFile)?.has(source) ?? false,
+      })),
+    }))
+}
+
+// Test files that executed a changed file, whether or not they import it
+export const findImpactedTests = (map: ImpactMap, changedFiles: string[]): AffectedTest[] => {
+  const affected = new Map<string, AffectedTest>()
+
+  changedFiles.forEach(changedFile => {
+    ;(map.sources[changedFile] || []).forEach(entry => {
+      if (!affected.has(entry.testFile)) {
+        affected.set(entry.testFile, {
+          testFile: entry.testFile,
+          changedFile,
+          chain: [entry.testFile, changedFile],
+          viaImpactMap: true,
+        })
+      }
+    })
+  })
+
+  return Array.from(affected.values())
+}
+
+export const formatCoveringTests = (
+  map: ImpactMap,
+  target: string,
+  modules: ModuleImpact[],
+  unexecuted: string[] = []
+): string => {
+  const lines: string[] = []
+
+  lines.push(`Impact map from ${map.generatedAt} (suites: ${map.suites.join(', ')})`)
+  lines.push('')
+
+  if (modules.length === 0 && unexecuted.length === 0) {
+    lines.push(`No recorded test executes ${target}`)
+    return lines.join('\n')
+  }
+
+  modules.forEach(module => {
+    const direct = module.tests.filter(test => test.direct).length
+    lines.push(`${module.source}: ${module.tests.length} tests (${direct} direct)`)
+    module.tests.forEach(test => {
+      const functions = test.functions.length > 0 ? ` [${test.functions.join(', ')}]` : ''
+      const marker = test.direct ? '' : ' (incidental)'
+      lines.push(`  - ${test.testFile} › ${test.test}${marker}${functions}`)
+    })
+  })
+
+  // Modules no test imports directly are only covered as a side effect of other tests
+  const incidental = modules.filter(module => module.tests.every(test => !test.direct))
+  if (modules.length > 1 && incidental.length > 0) {
+    lines.push('')
+    lines.push('Only exercised incidentally (no test imports them):')
+    incidental.forEach(module => lines.push(`  - ${module.source}`))
+  }
+
+  if (unexecuted.length > 0) {
+    lines.push('')
+    lines.push('Not executed by any recorded test:')
+    unexecuted.forEach(file => lines.push(`  - ${file}`))
+  }
+
+  return lines.join('\n')
+}
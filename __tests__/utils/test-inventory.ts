@@ -0,0 +1,289 @@
+/**
+ * Test Inventory
+ *
+ * Statically parses test files into their describe/it tree and tags blocks
+ * by the category conventions of COMPREHENSIVE_TEST_STRATEGY.md ("Basic
+ * Rendering", "Accessibility", "Performance", "Error Handling", "Memory
+ * Management"), for a component-by-category matrix. Also lists the
+ * strategy doc's template components that still have no test file.
+ */
+
+import { existsSync, readFileSync } from 'fs'
+import { basename, join } from 'path'
+import * as ts from 'typescript'
+import { listTestFiles } from './fs-utils'
+
+export const STRATEGY_DOC = 'COMPREHENSIVE_TEST_STRATEGY.md'
+
+export type TestCategory = 'rendering' | 'accessibility' | 'performance' | 'error-handling' | 'memory'
+
+// Matched against describe block names; nested blocks inherit the category
+export const TEST_CATEGORIES: Array<{ category: TestCategory; label: string; pattern: RegExp }> = [
+  { category: 'rendering', label: 'Rendering', pattern: /\brender/i },
+  { category: 'accessibility', label: 'Accessibility', pattern: /accessib|\ba11y\b/i },
+  { category: 'performance', label: 'Performance', pattern: /performance/i },
+  { category: 'error-handling', label: 'Errors', pattern: /\berror/i },
+  { category: 'memory', label: 'Memory', pattern: /memory/i },
+]
+
+export interface InventoryNode {
+  kind: 'describe' | 'test'
+  name: string
+  line: number
+  // e.g. skip, only, each, todo
+  modifiers?: string[]
+  // From this block's name and its ancestors'
+  categories: TestCategory[]
+  children: InventoryNode[]
+}
+
+export interface InventoryFile {
+  file: string
+  // Test file name without `.test.tsx`, e.g. AmountInput
+  component: string
+  tests: number
+  // Tests per category
+  categories: Record<TestCategory, number>
+  tree: InventoryNode[]
+}
+
+export interface TemplateComponent {
+  name: string
+  // Strategy doc heading it is listed under
+  section: string
+}
+
+export interface TestInventory {
+  files: InventoryFile[]
+  // Template components from the strategy doc without a test file
+  missingTemplates: TemplateComponent[]
+}
+
+const DESCRIBE_FUNCTIONS = ['describe', 'fdescribe', 'xdescribe']
+const TEST_FUNCTIONS = ['it', 'fit', 'xit', 'test', 'xtest']
+const MODIFIERS = ['skip', 'only', 'each', 'todo', 'concurrent', 'failing']
+
+export const getCalleeChain = (expression: ts.Expression): string[] | undefined => {
+  if (ts.isIdentifier(expression)) {
+    return [expression.text]
+  }
+  if (ts.isPropertyAccessExpression(expression)) {
+    const base = getCalleeChain(expression.expression)
+    return base && [...base, expression.name.text]
+  }
+  return undefined
+}
+
+/**
+ * The kind and modifiers of a `describe`/`it` call, including
+ * `describe.each(table)(name, fn)` and `it.each\`table\`(name, fn)`.
+ */
+export const matchTestBlock = (node: ts.CallExpression): { kind: InventoryNode['kind']; modifiers: string[] } | undefined => {
+  let callee: ts.Expression = node.expression
+  const isEachCall = ts.isCallExpression(callee) || ts.isTaggedTemplateExpression(callee)
+  if (ts.isCallExpression(callee)) callee = callee.expression
+  else if (ts.isTaggedTemplateExpression(callee)) callee = callee.tag
+
+  const chain = getCalleeChain(callee)
+  const [base, ...modifiers] = chain || []
+  const isBlock =
+    chain !== undefined &&
+    (DESCRIBE_FUNCTIONS.includes(base) || TEST_FUNCTIONS.includes(base)) &&
+    modifiers.every(modifier => MODIFIERS.includes(modifier)) &&
+    isEachCall === modifiers.includes('each')
+
+  if (!isBlock) return undefined
+  return { kind: DESCRIBE_FUNCTIONS.includes(base) ? 'describe' : 'test', modifiers }
+}
+
+export const getBlockName = (argument: ts.Expression | undefined, sourceFile: ts.SourceFile): string => {
+  if (!argument) return '<unnamed>'
+  if (ts.isStringLiteral(argument) || ts.isNoSubstitutionTemplateLiteral(argument)) return argument.text
+  // Template and computed names are shown as written
+  return argument.getText(sourceFile).replace(/^`|`$/g, '')
+}
+
+const getCategories = (name: string, inherited: TestCategory[]): TestCategory[] =>
+  Array.from(new Set([
+    ...inherited,
+    ...TEST_CATEGORIES.filter(entry => entry.pattern.test(name)).map(entry => entry.category),
+  ]))
+
+export const parseTestTree = (source: string, fileName: string): InventoryNode[] => {
+  const sourceFile = ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest, true)
+  const roots: InventoryNode[] = []
+
+  const visit = (node: ts.Node, parent: InventoryNode | undefined) => {
+    if (ts.isCallExpression(node)) {
+      const match = matchTestBlock(node)
+
+      if (match) {
+        const { kind, modifiers } = match
+        const name = getBlockName(node.arguments[0], sourceFile)
+        const inherited = parent?.categories || []
+        const block: InventoryNode = {
+          kind,
+          name,
+          line: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1,
+          modifiers: modifiers.length > 0 ? modifiers : undefined,
+          // Only describe names carry a category; tests inherit theirs
+          categories: kind === 'describe' ? getCategories(name, inherited) : inherited,
+          children: [],
+        }
+        ;(parent ? parent.children : roots).push(block)
+
+        // Tests are leaves; nested calls inside them are not blocks
+        if (block.kind === 'describe') {
+          node.arguments.slice(1).forEach(argument => visit(argument, block))
+        }
+        return
+      }
+    }
+
+    ts.forEachChild(node, child => visit(child, parent))
+  }
+
+  visit(sourceFile, undefined)
+  return roots
+}
+
+const flattenTests = (nodes: InventoryNode[]): InventoryNode[] =>
+  nodes.flatMap(node => (node.kind === 'test' ? [node] : flattenTests(node.children)))
+
+/**
+ * Component and screen tests, laid out as `test-runner scaffold` writes them
+ * (`__tests__/components/...`). Integration suites and the runner's own
+ * tests under `__tests__/utils` have no component to put in the matrix.
+ */
+export const isComponentTestFile = (file: string): boolean =>
+  !file.startsWith('__tests__/utils/') &&
+  /(^|\/)(components|screens)\//.test(file) &&
+  /\.(test|spec)\.(tsx|jsx|ts|js)$/.test(file)
+
+export const getComponentName = (file: string): string =>
+  basename(file).replace(/\.(test|spec)\.(ts|tsx|js)$/, '')
+
+export const inventoryTestFile = (file: string, rootDir: string = process.cwd()): InventoryFile => {
+  const tree = parseTestTree(readFileSync(join(rootDir, file), 'utf8'), file)
+  const tests = flattenTests(tree)
+
+  const categories = {} as Record<TestCategory, number>
+  TEST_CATEGORIES.forEach(({ category }) => {
+    categories[category] = tests.filter(test => test.categories.includes(category)).length
+  })
+
+  return { file, component: getComponentName(file), tests: tests.length, categories, tree }
+}
+
+/**
+ * Components listed as `**Name.test.tsx**` in the strategy doc, with the
+ * heading they appear under (e.g. "Layout Components").
+ */
+export const findTemplateComponents = (docFile: string = STRATEGY_DOC): TemplateComponent[] => {
+  if (!existsSync(docFile)) {
+    return []
+  }
+
+  const components: TemplateComponent[] = []
+  let section = ''
+
+  readFileSync(docFile, 'utf8').split('\n').forEach(line => {
+    const heading = line.match(/^#{2,4}\s+(.+)$/)
+    if (heading) {
+      section = heading[1].replace(/\s*\(.*\)\s*$/, '').replace(/^[A-Z]\.\s+/, '').trim()
+      return
+    }
+
+    for (const match of line.matchAll(/\*\*([\w-]+)\.test\.tsx\*\*/g)) {
+      if (!components.some(component => component.name === match[1])) {
+        components.push({ name: match[1], section })
+      }
+    }
+  })
+
+  return components
+}
+
+export const createTestInventory = (
+  testFiles: string[],
+  options: { rootDir?: string; docFile?: string } = {}
+): TestInventory => {
+  const rootDir = options.rootDir || process.cwd()
+  const files = testFiles.map(file => inventoryTestFile(file, rootDir))
+
+  // Matched against every test file, not just the inventoried ones
+  const components = new Set(listTestFiles(rootDir).map(getComponentName))
+  const missingTemplates = findTemplateComponents(options.docFile).filter(template => !components.has(template.name))
+
+  return { files, missingTemplates }
+}
+
+const formatTree = (nodes: InventoryNode[], depth: number, lines: string[]) => {
+  nodes.forEach(node => {
+    const modifiers = node.modifiers ? ` (${node.modifiers.join(', ')})` : ''
+    const tags = node.kind === 'describe' && node.categories.length > 0 ? ` [${node.categories.join(', ')}]` : ''
+    const marker = node.kind === 'describe' ? '▸' : '-'
+    lines.push(`${'  '.repeat(depth + 1)}${marker} ${node.name}${modifiers}${tags}`)
+    formatTree(node.children, depth + 1, lines)
+  })
+}
+
+export const formatTestInventory = (
+  inventory: TestInventory,
+  options: { tree?: boolean; docFile?: string } = {}
+): string => {
+  const lines: string[] = []
+  const totalTests = inventory.files.reduce((sum, file) => sum + file.tests, 0)
+
+  lines.push('='.repeat(80))
+  lines.push(`TEST INVENTORY (${inventory.files.length} files, ${totalTests} tests)`)
+  lines.push('='.repeat(80))
+
+  if (options.tree) {
+    inventory.files.forEach(file => {
+      lines.push('')
+      lines.push(`${file.file} (${file.tests} tests)`)
+      formatTree(file.tree, 0, lines)
+    })
+  }
+
+  const width = Math.max(9, ...inventory.files.map(file => file.component.length)) + 2
+  const columns = TEST_CATEGORIES.map(entry => Math.max(entry.label.length, 5) + 2)
+
+  lines.push('')
+  lines.push('Tests per category (- = none):')
+  lines.push(`${'Component'.padEnd(width)}${TEST_CATEGORIES.map((entry, index) => entry.label.padEnd(columns[index])).join('')}Total`)
+  inventory.files.forEach(file => {
+    const cells = TEST_CATEGORIES.map(({ category }, index) =>
+      String(file.categories[category] || '-').padEnd(columns[index])
+    )
+    lines.push(`${file.component.padEnd(width)}${cells.join('')}${file.tests}`)
+  })
+
+  const gaps = inventory.files
+    .map(file => ({
+      file,
+      missing: TEST_CATEGORIES.filter(({ category }) => file.categories[category] === 0).map(entry => entry.label),
+    }))
+    .filter(entry => entry.missing.length > 0)
+
+  if (gaps.length > 0) {
+    lines.push('')
+    lines.push('Missing categories:')
+    gaps.forEach(({ file, missing }) => lines.push(`  ${file.component} (${file.file}): ${missing.join(', ')}`))
+  }
+
+  if (inventory.missingTemplates.length > 0) {
+    const bySection = new Map<string, string[]>()
+    inventory.missingTemplates.forEach(template => {
+      bySection.set(template.section, [...(bySection.get(template.section) || []), template.name])
+    })
+
+    lines.push('')
+    lines.push(`Template components without a test file (${options.docFile || STRATEGY_DOC}):`)
+    bySection.forEach((names, section) => lines.push(`  ${section || 'Other'}: ${names.join(', ')}`))
+  }
+
+  lines.push('')
+  return lines.join('\n')
+}
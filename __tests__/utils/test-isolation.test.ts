@@ -0,0 +1,140 @@
+/**
+ * Test Isolation Tests
+ *
+ * Only state a test or file leaves changed after its own hooks have run is
+ * a leak; anything restored in afterEach/afterAll must not be reported
+ */
+
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { JestEnvironmentConfig } from '@jest/environment'
+import type { Circus } from '@jest/types'
+import IsolationEnvironment from './isolation-environment'
+import {
+  ISOLATION_SNAPSHOT_GLOBAL,
+  StateLeak,
+  TEST_ISOLATION_ENV,
+  addLeaks,
+  diffState,
+  readIsolationRecords,
+  snapshotState,
+} from './test-isolation'
+
+describe('diffState', () => {
+  const log = () => undefined
+
+  it('should report replaced values by identity', () => {
+    const mock = Object.assign(() => undefined, { _isMockFunction: true })
+
+    expect(diffState(
+      new Map<string, unknown>([['console.log', log], ['Platform.OS', 'ios'], ['Date', Date]]),
+      new Map<string, unknown>([['console.log', mock], ['Platform.OS', 'android'], ['Date', Date]])
+    )).toEqual([
+      { name: 'console.log', before: 'function log', after: 'jest.fn()' },
+      { name: 'Platform.OS', before: '"ios"', after: '"android"' },
+    ])
+  })
+
+  it('should report added and removed names', () => {
+    expect(diffState(
+      new Map<string, unknown>([['process.env.API_URL', 'a'], ['globalThis.gone', true]]),
+      new Map<string, unknown>([['globalThis.added', true]])
+    )).toEqual([
+      { name: 'process.env.API_URL', before: '"a"', after: 'undefined' },
+      { name: 'globalThis.gone', before: 'defined', after: 'undefined' },
+      { name: 'globalThis.added', before: 'undefined', after: 'defined' },
+    ])
+  })
+
+  it('should report nothing for equal snapshots', () => {
+    expect(diffState(new Map([['console.log', log]]), new Map([['console.log', log]]))).toEqual([])
+  })
+})
+
+describe('addLeaks', () => {
+  it('should keep the first test and count the tests that repeat a change', () => {
+    const leaks = new Map<string, StateLeak>()
+    const change = { name: 'Platform.OS', before: '"ios"', after: '"android"' }
+
+    addLeaks(leaks, [change], 'first')
+    addLeaks(leaks, [change], 'second')
+    addLeaks(leaks, [change])
+    addLeaks(leaks, [{ name: 'fetch', before: 'undefined', after: 'jest.fn()' }])
+
+    expect(Array.from(leaks.values())).toEqual([
+      { ...change, test: 'first', tests: 2 },
+      { name: 'fetch', before: 'undefined', after: 'jest.fn()', test: undefined, tests: 0 },
+    ])
+  })
+})
+
+describe('IsolationEnvironment', () => {
+  let directory: string
+  let environment: IsolationEnvironment
+
+  const testPath = join(process.cwd(), 'src', 'Settings.test.tsx')
+  const test = {
+    name: 'restores the flag',
+    parent: { name: 'Settings', parent: { name: 'ROOT_DESCRIBE_BLOCK' } },
+  } as unknown as Circus.TestEntry
+
+  const emit = (event: Record<string, unknown>) =>
+    environment.handleTestEvent(event as Circus.AsyncEvent, {} as Circus.State)
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'isolation-'))
+    process.env[TEST_ISOLATION_ENV] = directory
+
+    const projectConfig = { rootDir: process.cwd(), globals: {}, testEnvironmentOptions: { baseEnvironment: 'node' } }
+    environment = new IsolationEnvironment(
+      { globalConfig: {}, projectConfig } as unknown as JestEnvironmentConfig,
+      { testPath, console, docblockPragmas: {} }
+    )
+    await environment.setup()
+
+    // What recorder-setup exposes, probing the sandbox
+    const sandbox = environment.global as any
+    sandbox[ISOLATION_SNAPSHOT_GLOBAL] = () => snapshotState([
+      { name: 'flag', read: () => sandbox.flag },
+      { name: 'setting', read: () => sandbox.setting },
+    ])
+  })
+
+  afterEach(async () => {
+    await environment.teardown()
+    delete process.env[TEST_ISOLATION_ENV]
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('should not report state a top-level afterEach restores', async () => {
+    const sandbox = environment.global as any
+
+    await emit({ name: 'run_start' })
+    await emit({ name: 'test_start', test })
+    sandbox.flag = 'changed'
+    // The file's afterEach hook runs before test_done
+    sandbox.flag = undefined
+    await emit({ name: 'test_done', test })
+    await emit({ name: 'run_finish' })
+
+    expect(readIsolationRecords(directory)).toEqual([{ file: 'src/Settings.test.tsx', leaks: [] }])
+  })
+
+  it('should report state left changed by a test and by the file', async () => {
+    const sandbox = environment.global as any
+
+    await emit({ name: 'run_start' })
+    await emit({ name: 'test_start', test })
+    sandbox.flag = 'changed'
+    await emit({ name: 'test_done', test })
+    // The file's afterAll hook runs before run_finish
+    sandbox.setting = 'dark'
+    await emit({ name: 'run_finish' })
+
+    expect(readIsolationRecords(directory)[0].leaks).toEqual([
+      { name: 'flag', before: 'undefined', after: '"changed"', test: 'Settings restores the flag', tests: 1 },
+      { name: 'setting', before: 'undefined', after: '"dark"', tests: 0 },
+    ])
+  })
+})
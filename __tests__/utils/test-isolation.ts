@@ -0,0 +1,247 @@
+/**
+ * Test Isolation
+ *
+ * While `test-runner isolation` runs, isolation-environment wraps each
+ * project's test environment and snapshots known global and module state
+ * (console methods, window.matchMedia, timers, react-native Dimensions/
+ * PixelRatio/Platform, process.env, new globals) around every test and every
+ * file, and records what was left changed. A test that leaks state makes
+ * the outcome of later tests depend on their order, which rules out
+ * shuffling tests or raising maxWorkers. Outside the runner, recording is a
+ * no-op.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, readdirSync } from 'fs'
+import { join, relative } from 'path'
+
+export const TEST_ISOLATION_ENV = 'TRUETAP_TEST_ISOLATION_DIR'
+// Set instead of --testEnvironment, which would replace isolation-environment
+export const ISOLATION_BASE_ENVIRONMENT_ENV = 'TRUETAP_ISOLATION_BASE_ENVIRONMENT'
+// Sandbox global through which the environment takes snapshots; `__`
+// keeps it out of the snapshots themselves
+export const ISOLATION_SNAPSHOT_GLOBAL = '__truetapIsolationSnapshot'
+
+export interface StateProbe {
+  name: string
+  read: () => unknown
+}
+
+export interface StateLeak {
+  // Probe name, e.g. `Platform.OS` or `process.env.API_URL`
+  name: string
+  before: string
+  after: string
+  // First test that left the change; undefined when it happened in a
+  // beforeAll or afterAll hook
+  test?: string
+  // Tests that left the same change
+  tests: number
+}
+
+// One per test file, with or without leaks, so unchecked files stand out
+export interface IsolationRecord {
+  file: string
+  leaks: StateLeak[]
+}
+
+export interface IsolationReport {
+  checkedFiles: number
+  // Only files that leak state, most leaks first
+  files: IsolationRecord[]
+  // Set when the tests ran in a randomized order
+  seed?: number
+}
+
+export type StateSnapshot = Map<string, unknown>
+
+const CONSOLE_METHODS = ['log', 'info', 'warn', 'error', 'debug']
+
+/**
+ * react-native from the module registry, or undefined while nothing has
+ * loaded it. Requiring it here would load the real module into files that
+ * never use it, or that replace it with a factory `jest.mock` (those are
+ * not probed).
+ */
+const readReactNative = (): any => {
+  try {
+    const path = require.resolve('react-native')
+    return require.cache[path] ? require(path) : undefined
+  } catch {
+    return undefined
+  }
+}
+
+export const STATE_PROBES: StateProbe[] = [
+  ...CONSOLE_METHODS.map(method => ({ name: `console.${method}`, read: () => (console as any)[method] })),
+  { name: 'window.matchMedia', read: () => (typeof window === 'undefined' ? undefined : window.matchMedia) },
+  // Replaced while fake timers are installed
+  { name: 'setTimeout', read: () => setTimeout },
+  { name: 'Date', read: () => Date },
+  { name: 'Math.random', read: () => Math.random },
+  { name: 'fetch', read: () => (globalThis as any).fetch },
+  { name: 'Dimensions.get', read: () => readReactNative()?.Dimensions?.get },
+  { name: 'PixelRatio.get', read: () => readReactNative()?.PixelRatio?.get },
+  { name: 'Platform.OS', read: () => readReactNative()?.Platform?.OS },
+]
+
+// Within Jest's accepted range; printed so a shuffled order can be replayed
+export const createTestOrderSeed = (): number => Math.floor(Math.random() * 0x7fffffff)
+
+export const snapshotState = (probes: StateProbe[] = STATE_PROBES): StateSnapshot => {
+  const snapshot: StateSnapshot = new Map()
+
+  probes.forEach(probe => {
+    try {
+      snapshot.set(probe.name, probe.read())
+    } catch {
+      snapshot.set(probe.name, undefined)
+    }
+  })
+
+  Object.entries(process.env).forEach(([key, value]) => snapshot.set(`process.env.${key}`, value))
+
+  // `__`-prefixed globals belong to instrumentation (e.g. __coverage__)
+  Object.getOwnPropertyNames(globalThis)
+    .filter(key => !key.startsWith('__'))
+    .forEach(key => snapshot.set(`globalThis.${key}`, true))
+
+  return snapshot
+}
+
+export const describeValue = (value: unknown): string => {
+  if (value === undefined) return 'undefined'
+  if (typeof value === 'function') {
+    if ((value as any)._isMockFunction) return 'jest.fn()'
+    // Installed by jest.useFakeTimers()
+    if ((value as any).clock) return `fake ${value.name}`
+    return `function ${value.name || '(anonymous)'}`
+  }
+  if (typeof value === 'object' && value !== null) return 'object'
+  return JSON.stringify(value)
+}
+
+// Identity comparison: a replaced function counts even if it behaves the same
+export const diffState = (before: StateSnapshot, after: StateSnapshot): Array<Omit<StateLeak, 'test' | 'tests'>> => {
+  const names = new Set([...before.keys(), ...after.keys()])
+
+  return Array.from(names)
+    .filter(name => !Object.is(before.get(name), after.get(name)))
+    .map(name => name.startsWith('globalThis.')
+      ? { name, before: before.has(name) ? 'defined' : 'undefined', after: after.has(name) ? 'defined' : 'undefined' }
+      : { name, before: describeValue(before.get(name)), after: describeValue(after.get(name)) })
+}
+
+const toRepoPath = (file: string): string => relative(process.cwd(), file).replace(/\\/g, '/')
+
+/**
+ * Exposes snapshotState on the sandbox global for isolation-environment.
+ * The snapshots must be taken in the sandbox, where the file's globals and
+ * module registry live, but from the environment's test events, which fire
+ * outside every hook of the file: a hook registered here would run before
+ * the file's own top-level afterEach/afterAll and report state they restore.
+ */
+export const installIsolationRecorder = () => {
+  if (!process.env[TEST_ISOLATION_ENV]) return
+
+  ;(globalThis as any)[ISOLATION_SNAPSHOT_GLOBAL] = () => snapshotState()
+}
+
+/**
+ * Adds changes to `leaks`. A change already recorded counts one more test;
+ * without a test (beforeAll/afterAll) it is only added when new.
+ */
+export const addLeaks = (
+  leaks: Map<string, StateLeak>,
+  changes: Array<Omit<StateLeak, 'test' | 'tests'>>,
+  test?: string
+) => {
+  changes.forEach(change => {
+    const existing = leaks.get(change.name)
+    if (!existing) {
+      leaks.set(change.name, { ...change, test, tests: test ? 1 : 0 })
+    } else if (test) {
+      existing.tests++
+    }
+  })
+}
+
+export const writeIsolationRecord = (directory: string, testPath: string, leaks: StateLeak[]) => {
+  const record: IsolationRecord = { file: toRepoPath(testPath), leaks }
+  mkdirSync(directory, { recursive: true })
+  // One file per worker avoids interleaved writes
+  appendFileSync(join(directory, `${process.pid}.jsonl`), `${JSON.stringify(record)}\n`)
+}
+
+// Later records for the same file (e.g. from a retry) replace earlier ones
+export const readIsolationRecords = (directory: string): IsolationRecord[] => {
+  if (!existsSync(directory)) {
+    return []
+  }
+
+  const byFile = new Map<string, IsolationRecord>()
+  readdirSync(directory)
+    .filter(file => file.endsWith('.jsonl'))
+    .forEach(file => {
+      readFileSync(join(directory, file), 'utf8')
+        .split('\n')
+        .filter(Boolean)
+        .forEach(line => {
+          try {
+            const record = JSON.parse(line) as IsolationRecord
+            byFile.set(record.file, record)
+          } catch {
+            // A worker killed mid-write leaves a partial line
+          }
+        })
+    })
+
+  return Array.from(byFile.values())
+}
+
+export const createIsolationReport = (records: IsolationRecord[], seed?: number): IsolationReport => {
+  const byFile = new Map(records.map(record => [record.file, record]))
+
+  return {
+    checkedFiles: byFile.size,
+    files: Array.from(byFile.values())
+      .filter(record => record.leaks.length > 0)
+      .sort((a, b) => b.leaks.length - a.leaks.length || a.file.localeCompare(b.file)),
+    seed,
+  }
+}
+
+export const formatIsolationReport = (report: IsolationReport): string => {
+  const lines: string[] = []
+
+  lines.push('='.repeat(80))
+  lines.push(`TEST ISOLATION (${report.checkedFiles} files checked, ${report.files.length} leak state)`)
+  lines.push('='.repeat(80))
+
+  if (report.seed !== undefined) {
+    lines.push(`Randomized test order, seed ${report.seed} (reproduce with --seed ${report.seed})`)
+  }
+
+  if (report.files.length === 0) {
+    lines.push('')
+    lines.push('✅ No test file left global or module state changed')
+    return lines.join('\n')
+  }
+
+  report.files.forEach(record => {
+    lines.push('')
+    lines.push(`❌ ${record.file}`)
+    record.leaks.forEach(leak => {
+      const source = leak.test
+        ? `${leak.test}${leak.tests > 1 ? ` and ${leak.tests - 1} more ${leak.tests > 2 ? 'tests' : 'test'}` : ''}`
+        : 'outside tests (beforeAll or afterAll hooks)'
+      lines.push(`  ${leak.name}: ${leak.before} → ${leak.after}`)
+      lines.push(`    left by ${source}`)
+    })
+  })
+
+  lines.push('')
+  lines.push('Restore leaked state in afterEach/afterAll (or use jest.spyOn with mockRestore)')
+  lines.push('before shuffling tests or raising maxWorkers.')
+
+  return lines.join('\n')
+}
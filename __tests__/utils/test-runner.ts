@@ -5,16 +5,248 @@
  * Provides orchestration for different test types and environments
  */
 
-import { execSync } from 'child_process'
-import { existsSync } from 'fs'
+import type { Reporter } from '@jest/reporters'
+import { existsSync, mkdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs'
+import { cpus } from 'os'
+import { join, relative, resolve } from 'path'
+import {
+  AffectedSelection,
+  DEFAULT_BASE_REF,
+  GLOBAL_TRIGGER_FILES,
+  buildDependencyGraph,
+  findAffectedTests,
+  formatAffectedSelection,
+  getChangedFiles,
+} from './affected-tests'
+import { CLI_OPTIONS, ParsedArgs, assertCommandOptions, parseArgs } from './cli-args'
+import {
+  COVERAGE_FINAL_FILE,
+  CoverageDiffReport,
+  NewCodeThresholds,
+  createCoverageBaseline,
+  diffCoverage,
+  formatCoverageDiff,
+  getAddedLines,
+  getBaselineFile,
+  getHeadCommit,
+  loadCoverage,
+  loadCoverageBaseline,
+  resolveMergeBase,
+  saveCoverageBaseline,
+} from './coverage-diff'
+import { DEVICE_PROFILES_ENV } from './device-profiles'
+import {
+  JestConfig,
+  SuiteDrift,
+  detectSuiteDrift,
+  getInlineProjects,
+  loadJestConfig,
+  resolveSuites,
+  stripRootDir,
+  testMatchToPattern,
+  writeRunnerJestConfig,
+} from './jest-config'
+import {
+  DoctorFinding,
+  DoctorReport,
+  createDoctorReport,
+  diagnoseJestConfig,
+  formatDoctorReport,
+} from './jest-config-doctor'
+import {
+  QUARANTINE_FILE,
+  QuarantineEntry,
+  RetryPolicy,
+  applyQuarantine,
+  buildTestNamePattern,
+  loadQuarantine,
+  mergeRetryResults,
+  summarizeTests,
+} from './flaky-tests'
+import { ExecutionMode, isInProcessAvailable, runJestInProcess } from './jest-in-process'
+import { JestProcessResult, formatJestCommand, runJestProcess, runWithConcurrency } from './jest-process'
+import {
+  CoverageSummary,
+  CoverageTotals,
+  JestJsonResults,
+  ObsoleteSnapshot,
+  TestFileResult,
+  findCoverageThresholdErrors,
+  getFailedTests,
+  parseJestResults,
+  readJsonFile,
+  stripAnsi,
+} from './jest-results'
+import {
+  HistoryRun,
+  appendHistoryRun,
+  createHistoryRun,
+  formatHistoryReport,
+  readHistory,
+} from './results-history'
+import {
+  FileMutationReport,
+  MutantResult,
+  MutationReport,
+  applyMutant,
+  formatMutationReport,
+  generateMutants,
+  getMutationScore,
+  hashMutationInputs,
+  loadMutationCache,
+  saveMutationCache,
+  withMutantOnDisk,
+} from './mutation-testing'
+import {
+  PhaseResult,
+  PipelineResult,
+  formatPipelineReport,
+  getPhaseDependencies,
+  validatePipeline,
+} from './pipelines'
+import {
+  QUALITY_GATES_FILE,
+  QualityVerdict,
+  evaluateQualityGates,
+  formatQualityVerdict,
+  loadQualityGatePolicy,
+} from './quality-gates'
+import { QUALITY_METRICS_ENV, QualityMetricRecord, readQualityMetrics } from './quality-metrics'
+import {
+  DEFAULT_REPORT_WRITERS,
+  ReportWriter,
+  RunReport,
+  buildRunReport,
+} from './report-writers'
+import { RunnerConfig, assertValidRunnerConfig, loadRunnerConfig, mergeRunnerConfig } from './runner-config'
+import {
+  PluginCommand,
+  PluginSpec,
+  TestRunnerPlugin,
+  checkPluginGates,
+  loadPlugin,
+  runPluginHook,
+} from './runner-plugins'
+import { isSourceFile, isTestFile, listTestFiles, toPosixPath, walkFiles } from './fs-utils'
+import { clusterFailures, formatFailureClusters } from './failure-clusters'
+import { HEAP_TRACKING_ENV, OpenHandle, describeHandleErrors, parseOpenHandleReport } from './resource-diagnostics'
+import {
+  DEFAULT_SNAPSHOT_BUDGET_KB,
+  FailingSnapshot,
+  SnapshotSizeReport,
+  SnapshotUpdate,
+  applySnapshotDecisions,
+  collectObsoleteSnapshots,
+  findFailingSnapshots,
+  formatObsoleteSnapshots,
+  formatSnapshotDiffs,
+  formatSnapshotReview,
+  formatSnapshotSizes,
+  loadSnapshotDecisions,
+  measureSnapshotFiles,
+  promptSnapshotDecisions,
+} from './snapshots'
+import { ModuleNameMapper, TestAudit, createTestAudit, formatTestAudit, saveAuditBaseline } from './test-audit'
+import {
+  IMPACT_MAP_FILE,
+  ImpactMap,
+  ModuleImpact,
+  TEST_IMPACT_ENV,
+  TestImpactRecord,
+  createImpactMap,
+  findCoveringTests,
+  findImpactedTests,
+  formatCoveringTests,
+  loadImpactMap,
+  readTestImpact,
+  saveImpactMap,
+} from './test-impact'
+import {
+  createTestInventory,
+  findTemplateComponents,
+  formatTestInventory,
+  getComponentName,
+  isComponentTestFile,
+} from './test-inventory'
+import {
+  ISOLATION_BASE_ENVIRONMENT_ENV,
+  IsolationRecord,
+  IsolationReport,
+  TEST_ISOLATION_ENV,
+  createIsolationReport,
+  createTestOrderSeed,
+  formatIsolationReport,
+  readIsolationRecords,
+} from './test-isolation'
+import {
+  SOURCE_ROOT as SCAFFOLD_SOURCE_ROOT,
+  createTestScaffold,
+  findTemplateSources,
+  writeTestScaffold,
+} from './test-scaffold'
+import {
+  TagFilter,
+  buildTagNamePattern,
+  describeTagFilter,
+  filterTestsByTags,
+  hasTagFilter,
+  mayContainTags,
+} from './test-tags'
+import {
+  SHARD_DURATIONS_FILE,
+  ShardPlan,
+  ShardSpec,
+  StoredExecutionResult,
+  createShardDurations,
+  formatShardSpec,
+  getFileDurations,
+  getShardDirName,
+  loadShardDurations,
+  mergeStoredResults,
+  parseShardSpec,
+  planShards,
+  readExecutionResults,
+  removeStaleShardResults,
+  saveShardDurations,
+  selectSuiteResults,
+  writeExecutionResult,
+} from './test-sharding'
+
+export type { CoverageTotals, TestCaseResult, TestFileResult } from './jest-results'
+export type { ExecutionMode } from './jest-in-process'
+
+// Per-suite Jest output (results JSON, coverage) lives under this directory
+export const RESULTS_DIR = 'test-results'
+
+// Generated under RESULTS_DIR for every Jest run the runner starts
+const RUNNER_JEST_CONFIG_FILE = 'jest.config.runner.js'
+// The same with isolation-environment around every project's environment
+const RUNNER_ISOLATION_JEST_CONFIG_FILE = 'jest.config.runner-isolation.js'
+
+// Undefined outside a git checkout
+const readHeadCommit = (): string | undefined => {
+  try {
+    return getHeadCommit()
+  } catch {
+    return undefined
+  }
+}
 
 export interface TestSuiteConfig {
   name: string
+  // testPathPattern regex; derived from testMatch when not set explicitly
   pattern: string
   timeout: number
   maxWorkers: number
   coverage: boolean
-  environment: 'jsdom' | 'node' | 'react-native'
+  // Jest testEnvironment name or module path; unset runs each Jest project
+  // with its own environment
+  environment?: string
+  // Jest project (displayName) the suite runs with --selectProjects
+  project?: string
+  testMatch?: string[]
+  // Re-run failed tests; those that pass on retry are reported as flaky
+  retry?: RetryPolicy
 }
 
 export interface TestExecutionResult {
@@ -22,333 +254,1414 @@ export interface TestExecutionResult {
   testsRun: number
   testsPassed: number
   testsFailed: number
-  coverage?: {
-    lines: number
-    functions: number
-    branches: number
-    statements: number
-  }
+  testsSkipped: number
+  files: TestFileResult[]
+  coverage?: CoverageTotals
+  coverageByDirectory?: Record<string, CoverageTotals>
   duration: number
+  // Epoch milliseconds, used for wall-clock reporting across concurrent suites
+  startedAt: number
+  finishedAt: number
+  // Set when a failFast run stopped this suite before it finished
+  cancelled?: boolean
+  // Set when only one shard of the suite's files ran
+  shard?: ShardSpec
+  // Performance, accessibility, device-profile and per-file heap records
+  qualityMetrics?: QualityMetricRecord[]
+  // Handles Jest's detectOpenHandles found still open after the run
+  openHandles?: OpenHandle[]
+  // Snapshot entries and files no test checked; only reported when every test ran
+  obsoleteSnapshots?: ObsoleteSnapshot[]
+  // Set when tests ran in a randomized order within each file
+  seed?: number
   errors: string[]
 }
 
+export interface RunSuiteOptions {
+  watch?: boolean
+  verbose?: boolean
+  updateSnapshots?: boolean
+  // Echo Jest output live, prefixed with the suite key
+  stream?: boolean
+  signal?: AbortSignal
+  // Run only this shard's share of the suite's test files
+  shard?: ShardSpec
+  // Defaults to the runner config's `execution`, then shell
+  execution?: ExecutionMode
+  // In-process mode only: reporter objects that receive Jest's events
+  reporters?: Reporter[]
+  // Record which sources each test executes (forces coverage on)
+  impact?: boolean
+  // Only tests tagged e.g. `@nfc` in their full name
+  tags?: TagFilter
+  // Overrides the suite's coverage setting
+  coverage?: boolean
+  // Overrides the suite's and the runner config's retry policy
+  retries?: number
+  // Shuffle test order within each file; `seed` replays a previous order
+  randomize?: boolean
+  seed?: number
+  // Record global and module state tests leave changed
+  isolation?: boolean
+  // Record the heap each test file retains
+  trackHeap?: boolean
+}
+
+// Unset options fall back to the runner config's `run` defaults
+export interface RunAllOptions {
+  parallel?: boolean
+  // Maximum suites running at once when parallel (defaults to CPU count)
+  concurrency?: number
+  failFast?: boolean
+  coverage?: boolean
+  // Append the run to test-results/history.jsonl (default true)
+  recordHistory?: boolean
+  // Run only these suites (defaults to all)
+  suites?: string[]
+  shard?: ShardSpec
+  // Sequential runs only; parallel runs always use shell mode
+  execution?: ExecutionMode
+  reporters?: Reporter[]
+  tags?: TagFilter
+  retries?: number
+  // One seed is shared by every suite of the run
+  randomize?: boolean
+  seed?: number
+  trackHeap?: boolean
+}
+
 export class TestRunner {
   private suites: Map<string, TestSuiteConfig> = new Map()
 
-  constructor() {
-    this.initializeDefaultSuites()
+  private config: RunnerConfig
+  private configPath?: string
+  private jestConfig?: JestConfig
+  // Jest config and quarantine problems found while loading suites
+  private configErrors: Array<{ message: string; file: string }> = []
+  private quarantine: QuarantineEntry[] = []
+  private reportWriters = new Map(DEFAULT_REPORT_WRITERS.map(writer => [writer.format, writer]))
+  private plugins: TestRunnerPlugin[] = []
+  private pluginCommands = new Map<string, PluginCommand>()
+
+  constructor(config?: RunnerConfig) {
+    if (config) {
+      this.config = assertValidRunnerConfig(config, 'passed to TestRunner')
+    } else {
+      const loaded = loadRunnerConfig()
+      this.config = loaded.config
+      this.configPath = loaded.path
+    }
+
+    this.initializeSuites()
+    ;(this.config.plugins || []).forEach(spec => this.usePlugin(spec))
+    this.checkReportFormats()
+  }
+
+  /**
+   * Applies command-line overrides on top of the loaded config. Suites are
+   * re-resolved when the Jest config or suite overrides change.
+   */
+  configure(overrides: RunnerConfig) {
+    this.config = assertValidRunnerConfig(mergeRunnerConfig(this.config, overrides), 'with command-line overrides')
+
+    if (overrides.jestConfig || overrides.suites) {
+      this.configErrors = []
+      this.initializeSuites()
+    }
+    this.checkReportFormats()
+  }
+
+  // Plugin writers add formats, so this runs after plugins are registered
+  private checkReportFormats() {
+    const unknown = (this.config.reports || []).filter(format => !this.reportWriters.has(format))
+    if (unknown.length > 0) {
+      throw new Error(`Unknown report format(s) ${unknown.join(', ')}. Available: ${this.listReportFormats().join(', ')}`)
+    }
+  }
+
+  private get jestConfigPath(): string {
+    return this.config.jestConfig || 'jest.config.enhanced.js'
+  }
+
+  // Suites mirror the Jest config projects, with runner config overrides applied
+  private initializeSuites() {
+    try {
+      this.jestConfig = loadJestConfig(this.jestConfigPath)
+    } catch (error: any) {
+      this.configErrors.push({
+        message: `Could not load Jest config ${this.jestConfigPath}: ${error.message}`,
+        file: this.jestConfigPath,
+      })
+    }
+
+    this.suites = resolveSuites(this.jestConfig, this.config.suites)
+
+    try {
+      this.quarantine = loadQuarantine()
+    } catch (error: any) {
+      this.configErrors.push({ message: error.message, file: QUARANTINE_FILE })
+    }
+  }
+
+  /**
+   * Registers a plugin's hooks, report writers and commands. Plugins run in
+   * registration order; config plugins are registered first.
+   */
+  usePlugin(spec: PluginSpec): TestRunnerPlugin {
+    const plugin = loadPlugin(spec, this.configPath)
+    if (this.plugins.some(existing => existing.name === plugin.name)) {
+      throw new Error(`Runner plugin '${plugin.name}' is already registered`)
+    }
+
+    const duplicate = (plugin.commands || []).find(command => this.pluginCommands.has(command.name))
+    if (duplicate) {
+      throw new Error(`Runner plugin '${plugin.name}': command '${duplicate.name}' is already defined`)
+    }
+
+    this.plugins.push(plugin)
+    ;(plugin.reportWriters || []).forEach(writer => this.addReportWriter(writer))
+    ;(plugin.commands || []).forEach(command => this.pluginCommands.set(command.name, command))
+    return plugin
+  }
+
+  listPlugins(): string[] {
+    return this.plugins.map(plugin => plugin.name)
+  }
+
+  listPluginCommands(): PluginCommand[] {
+    return Array.from(this.pluginCommands.values())
+  }
+
+  getPluginCommand(name: string): PluginCommand | undefined {
+    return this.pluginCommands.get(name)
+  }
+
+  getQuarantine(): QuarantineEntry[] {
+    return [...this.quarantine]
+  }
+
+  getConfigPath(): string | undefined {
+    return this.configPath
+  }
+
+  getSuiteDrift(): SuiteDrift[] {
+    return detectSuiteDrift(this.jestConfig, this.config.suites)
+  }
+
+  addSuite(key: string, config: TestSuiteConfig) {
+    this.suites.set(key, config)
+  }
+
+  getSuite(key: string): TestSuiteConfig | undefined {
+    return this.suites.get(key)
+  }
+
+  listSuites(): TestSuiteConfig[] {
+    return Array.from(this.suites.values())
+  }
+
+  listSuiteKeys(): string[] {
+    return Array.from(this.suites.keys())
+  }
+
+  // Test files on disk that belong to the suite
+  listSuiteTestFiles(suiteKey: string): string[] {
+    const suite = this.suites.get(suiteKey)
+    if (!suite) {
+      throw new Error(`Test suite '${suiteKey}' not found`)
+    }
+
+    const pattern = new RegExp(suite.pattern)
+    return walkFiles(process.cwd(), process.cwd(), isTestFile).filter(file => pattern.test(file))
+  }
+
+  /**
+   * Every shard machine plans independently, so durations only come from the
+   * shared `shardDurations` file, never from a machine's own history.
+   */
+  planSuiteShards(suiteKey: string, total: number): ShardPlan {
+    const durationsFile = this.config.shardDurations
+    const durations = durationsFile ? loadShardDurations(durationsFile) : new Map<string, number>()
+    return planShards(this.listSuiteTestFiles(suiteKey), durations, total)
+  }
+
+  // Writes the durations `--shard` plans with from the recorded history
+  saveShardDurations(durationsFile: string = this.config.shardDurations || SHARD_DURATIONS_FILE): string {
+    const durations = getFileDurations(readHistory())
+    if (durations.size === 0) {
+      throw new Error('No per-file durations recorded yet; run suites (or merge shard results) first')
+    }
+    return saveShardDurations(createShardDurations(durations, readHeadCommit()), durationsFile)
+  }
+
+  async runSuite(
+    suiteKey: string, 
+    options: RunSuiteOptions = {}
+  ): Promise<TestExecutionResult> {
+    const suite = this.suites.get(suiteKey)
+    if (!suite) {
+      throw new Error(`Test suite '${suiteKey}' not found`)
+    }
+
+    const outputDir = options.shard
+      ? join(RESULTS_DIR, suiteKey, getShardDirName(options.shard))
+      : join(RESULTS_DIR, suiteKey)
+
+    // Never read a previous run's results, nor merge them with this shard's
+    rmSync(outputDir, { recursive: true, force: true })
+    if (options.shard) {
+      removeStaleShardResults(join(RESULTS_DIR, suiteKey), options.shard)
+    }
+    mkdirSync(outputDir, { recursive: true })
+
+    await runPluginHook(this.plugins, 'beforeSuite', suiteKey, suite, this)
+
+    const result = await this.executeSuite(suiteKey, suite, outputDir, options)
+    if (options.shard) {
+      result.shard = options.shard
+    }
+
+    // Stored so shard results from several machines can be merged later
+    writeExecutionResult(outputDir, { suite: suiteKey, commit: readHeadCommit(), result })
+
+    for (const file of result.files) {
+      await runPluginHook(this.plugins, 'onResult', suiteKey, file, this)
+    }
+    await runPluginHook(this.plugins, 'afterSuite', suiteKey, result, this)
+
+    return result
   }
 
-  private initializeDefaultSuites() {
-    // Unit Tests
-    this.suites.set('unit', {
-      name: 'Unit Tests',
-      pattern: '__tests__/**/*.test.{ts,tsx}',
-      timeout: 10000,
-      maxWorkers: 1,
-      coverage: true,
-      environment: 'jsdom',
-    })
+  private async executeSuite(
+    suiteKey: string,
+    suite: TestSuiteConfig,
+    outputDir: string,
+    options: RunSuiteOptions
+  ): Promise<TestExecutionResult> {
+    const startTime = Date.now()
+    const resultsFile = join(outputDir, 'jest-results.json')
+    const coverageDir = join(outputDir, 'coverage')
+    const metricsDir = join(outputDir, 'quality-metrics')
+    const jestEnv: NodeJS.ProcessEnv = { [QUALITY_METRICS_ENV]: resolve(metricsDir) }
+    const collectCoverage = (options.coverage ?? suite.coverage) || options.impact
+
+    if (this.config.deviceProfiles) {
+      jestEnv[DEVICE_PROFILES_ENV] = this.config.deviceProfiles.join(',')
+    }
+
+    if (options.impact) {
+      jestEnv[TEST_IMPACT_ENV] = resolve(join(outputDir, 'test-impact'))
+    }
+
+    if (options.isolation) {
+      jestEnv[TEST_ISOLATION_ENV] = resolve(join(outputDir, 'isolation'))
+      if (suite.environment) {
+        jestEnv[ISOLATION_BASE_ENVIRONMENT_ENV] = suite.environment
+      }
+    }
+
+    // Workers inherit NODE_OPTIONS; runInBand in-process runs cannot collect and record no heap
+    if (options.trackHeap) {
+      jestEnv[HEAP_TRACKING_ENV] = '1'
+      jestEnv.NODE_OPTIONS = [process.env.NODE_OPTIONS, '--expose-gc'].filter(Boolean).join(' ')
+    }
+
+    const seed = options.randomize ? options.seed ?? createTestOrderSeed() : undefined
+    // Retries replay the same order
+    const orderArgs = seed !== undefined ? ['--randomize', '--seed', seed.toString()] : []
+
+    let testPaths: string[] | undefined
+    if (options.shard) {
+      const plan = this.planSuiteShards(suiteKey, options.shard.total)
+      const assignment = plan.shards[options.shard.index - 1]
+      testPaths = assignment.files
+
+      console.log(
+        `[${suiteKey}] Shard ${formatShardSpec(options.shard)}: ${testPaths.length} files, ` +
+        (this.config.shardDurations
+          ? `~${(assignment.estimatedDuration / 1000).toFixed(1)}s estimated`
+          : 'split by file count (set shardDurations to balance by duration)')
+      )
+
+      if (testPaths.length === 0) {
+        return { ...this.createEmptyResult({ duration: 0, startedAt: startTime, finishedAt: startTime }), success: true }
+      }
+    }
+
+    const tags = hasTagFilter(options.tags) ? options.tags : undefined
+    if (tags && (tags.include || []).length > 0) {
+      // Files that never mention an included tag are not started at all
+      const candidates = testPaths || this.listSuiteTestFiles(suiteKey)
+      testPaths = candidates.filter(file => mayContainTags(readFileSync(file, 'utf8'), tags))
+
+      console.log(`[${suiteKey}] Tags ${describeTagFilter(tags)}: ${testPaths.length} of ${candidates.length} files`)
+
+      if (testPaths.length === 0) {
+        return { ...this.createEmptyResult({ duration: 0, startedAt: startTime, finishedAt: startTime }), success: true }
+      }
+    }
+
+    // Build Jest command
+    const jestArgs = this.buildJestArgs(suite, resultsFile, {
+      coverageDir: collectCoverage ? coverageDir : undefined,
+      testPaths,
+      isolation: options.isolation,
+    })
+
+    if (options.watch) {
+      jestArgs.push('--watch')
+    }
+
+    if (options.verbose) {
+      jestArgs.push('--verbose')
+    }
+
+    if (options.updateSnapshots) {
+      jestArgs.push('--updateSnapshot')
+    }
+
+    if (tags) {
+      jestArgs.push('--testNamePattern', buildTagNamePattern(tags))
+    }
+
+    if (seed !== undefined) {
+      console.log(`[${suiteKey}] Randomized test order, seed ${seed} (reproduce with --seed ${seed})`)
+      jestArgs.push(...orderArgs)
+    }
+
+    const processResult = await this.executeJest(suiteKey, jestArgs, options, jestEnv)
+
+    const timing = () => {
+      const finishedAt = Date.now()
+      return { duration: finishedAt - startTime, startedAt: startTime, finishedAt }
+    }
+
+    if (processResult.cancelled) {
+      return {
+        ...this.createEmptyResult(timing()),
+        cancelled: true,
+        errors: ['Cancelled before completion'],
+      }
+    }
+
+    // Jest exits non-zero on test failures; the results file still tells us why
+    const result = this.readJestResults(resultsFile, collectCoverage ? coverageDir : undefined)
+
+    if (!result) {
+      return {
+        ...this.createEmptyResult(timing()),
+        errors: [
+          `Jest did not write ${resultsFile} (exit code ${processResult.exitCode})`,
+          processResult.output,
+        ].filter(Boolean),
+      }
+    }
+
+    // Coverage thresholds fail the run independently of any test, so a test
+    // that passes on retry or is quarantined does not clear them. Any other
+    // non-zero exit only counts when no failed test explains it.
+    const thresholdErrors = findCoverageThresholdErrors(processResult.output)
+    const hasTestFailures = result.testsFailed > 0 || result.files.some(file => file.failureMessage)
+    const exitFailure = thresholdErrors.length > 0 || (processResult.exitCode !== 0 && !hasTestFailures)
+
+    if (thresholdErrors.length > 0) {
+      result.errors.push(thresholdErrors.join('\n'))
+    } else if (exitFailure) {
+      result.errors.push(
+        stripAnsi(processResult.output || `Jest exited with code ${processResult.exitCode}`)
+          .trim()
+          .split('\n')
+          .slice(-20)
+          .join('\n')
+      )
+    }
+
+    let files = result.files
+    const retries = options.retries ?? (suite.retry || this.config.retry)?.retries ?? 0
+
+    for (let attempt = 1; attempt <= retries; attempt++) {
+      const failed = files.flatMap(file =>
+        file.tests.filter(test => test.status === 'failed').map(test => ({ file: file.path, test }))
+      )
+      if (failed.length === 0 || options.signal?.aborted) break
+
+      const retryFile = join(outputDir, `jest-results.retry-${attempt}.json`)
+      const retryArgs = this.buildJestArgs(suite, retryFile, {
+        testPaths: Array.from(new Set(failed.map(({ file }) => file))),
+        isolation: options.isolation,
+      })
+      retryArgs.push('--testNamePattern', buildTestNamePattern(failed.map(({ test }) => test.fullName)), ...orderArgs)
+
+      console.log(`[${suiteKey}] Retrying ${failed.length} failed tests (attempt ${attempt + 1} of ${retries + 1})`)
+      await this.executeJest(suiteKey, retryArgs, options, jestEnv)
+
+      const retryResult = this.readJestResults(retryFile)
+      if (retryResult) {
+        files = mergeRetryResults(files, retryResult.files)
+      }
+    }
+
+    // Tests outside the tag filter were only skipped by the name pattern
+    if (tags) {
+      files = filterTestsByTags(files, tags)
+    }
+
+    // Quarantined tests run as usual, but their failures do not fail the suite
+    files = applyQuarantine(files, this.quarantine)
+    const { blockingFailures, ...counts } = summarizeTests(files, this.quarantine)
+    const qualityMetrics = readQualityMetrics(metricsDir)
+    const openHandles = processResult.openHandles || []
+
+    return {
+      ...result,
+      ...counts,
+      files,
+      qualityMetrics: qualityMetrics.length > 0 ? qualityMetrics : undefined,
+      openHandles: openHandles.length > 0 ? openHandles : undefined,
+      seed,
+      success: blockingFailures === 0 && !exitFailure,
+      ...timing(),
+    }
+  }
+
+  private buildJestArgs(
+    suite: TestSuiteConfig,
+    resultsFile: string,
+    options: { coverageDir?: string; testPaths?: string[]; isolation?: boolean } = {}
+  ): string[] {
+    const { coverageDir, testPaths, isolation } = options
+    // The project config plus recorder-setup, which records impact, heap and
+    // isolation data in every test file; rewritten in case it was cleaned up
+    const runnerJestConfig = writeRunnerJestConfig(
+      this.jestConfigPath,
+      require.resolve('./recorder-setup'),
+      join(RESULTS_DIR, isolation ? RUNNER_ISOLATION_JEST_CONFIG_FILE : RUNNER_JEST_CONFIG_FILE),
+      isolation ? require.resolve('./isolation-environment') : undefined
+    )
+    const jestArgs = ['--config', runnerJestConfig]
+
+    if (suite.project) {
+      jestArgs.push('--selectProjects', suite.project)
+    }
+
+    // Explicit paths replace the pattern; project suites only need a pattern
+    // when it narrows the project's testMatch
+    // A subset of files cannot meet the suite's coverageThreshold; sharded
+    // runs are checked once their coverage is merged (mergeResults)
+    if (testPaths) {
+      jestArgs.push('--runTestsByPath', ...testPaths, '--coverageThreshold={}')
+    } else if (!suite.project || suite.pattern !== testMatchToPattern(suite.testMatch || [])) {
+      jestArgs.push('--testPathPattern', suite.pattern)
+    }
+
+    jestArgs.push(
+      '--testTimeout', suite.timeout.toString(),
+      '--maxWorkers', suite.maxWorkers.toString(),
+      '--json',
+      '--outputFile', resultsFile,
+    )
+
+    // Overrides the environment of every selected project; isolation runs
+    // pass it to isolation-environment instead (executeSuite)
+    if (suite.environment && !isolation) {
+      jestArgs.push('--testEnvironment', suite.environment)
+    }
+
+    if (coverageDir) {
+      jestArgs.push(
+        '--coverage',
+        '--coverageDirectory', coverageDir,
+        '--coverageReporters=json-summary',
+        '--coverageReporters=json',
+        '--coverageReporters=text',
+      )
+    }
+
+    return jestArgs
+  }
+
+  private async executeJest(
+    suiteKey: string,
+    jestArgs: string[],
+    options: RunSuiteOptions,
+    env?: NodeJS.ProcessEnv
+  ): Promise<JestProcessResult & { openHandles?: OpenHandle[] }> {
+    if (this.resolveExecutionMode(options) === 'in-process') {
+      console.log(`[${suiteKey}] Running in-process: ${formatJestCommand(jestArgs)}`)
+
+      const run = await runJestInProcess(jestArgs, {
+        reporters: options.reporters,
+        signal: options.signal,
+        env,
+      })
+      return {
+        exitCode: run.results ? (run.results.success ? 0 : 1) : null,
+        cancelled: run.cancelled,
+        output: [run.output, run.error].filter(Boolean).join('\n'),
+        openHandles: describeHandleErrors(run.results?.openHandles || []),
+      }
+    }
+
+    console.log(`[${suiteKey}] Running: ${formatJestCommand(jestArgs)}`)
+
+    try {
+      const result = await runJestProcess(jestArgs, {
+        prefix: suiteKey,
+        stream: options.stream ?? true,
+        signal: options.signal,
+        env,
+      })
+      return { ...result, openHandles: parseOpenHandleReport(result.openHandleReport || '') }
+    } catch (error: any) {
+      return { exitCode: null, cancelled: false, output: error.message || String(error) }
+    }
+  }
+
+  private resolveExecutionMode(options: RunSuiteOptions): ExecutionMode {
+    const mode = options.execution || this.config.execution || 'shell'
+
+    if (mode === 'in-process' && !isInProcessAvailable()) {
+      console.warn('@jest/core is not installed; falling back to shell mode')
+      return 'shell'
+    }
+
+    return mode
+  }
+
+  private createEmptyResult(
+    timing: Pick<TestExecutionResult, 'duration' | 'startedAt' | 'finishedAt'>
+  ): TestExecutionResult {
+    return {
+      success: false,
+      testsRun: 0,
+      testsPassed: 0,
+      testsFailed: 0,
+      testsSkipped: 0,
+      files: [],
+      ...timing,
+      errors: [],
+    }
+  }
+
+  private readJestResults(
+    resultsFile: string,
+    coverageDir?: string
+  ): Omit<TestExecutionResult, 'duration' | 'startedAt' | 'finishedAt'> | undefined {
+    const json = readJsonFile<JestJsonResults>(resultsFile)
+    if (!json) {
+      return undefined
+    }
+
+    const coverageSummary = coverageDir
+      ? readJsonFile<CoverageSummary>(join(coverageDir, 'coverage-summary.json'))
+      : undefined
+
+    return parseJestResults(json, coverageSummary)
+  }
+
+  async runAll(runOptions: RunAllOptions = {}): Promise<Map<string, TestExecutionResult>> {
+    const defaults = this.config.run || {}
+    const options: RunAllOptions = {
+      ...runOptions,
+      parallel: runOptions.parallel ?? defaults.parallel,
+      concurrency: runOptions.concurrency ?? defaults.concurrency,
+      failFast: runOptions.failFast ?? defaults.failFast,
+      coverage: runOptions.coverage ?? defaults.coverage,
+      trackHeap: runOptions.trackHeap ?? defaults.trackHeap,
+      seed: runOptions.randomize ? runOptions.seed ?? createTestOrderSeed() : undefined,
+    }
+    const suiteKeys = options.suites || Array.from(this.suites.keys())
+
+    await runPluginHook(this.plugins, 'beforeAll', suiteKeys, this)
+    const results = await this.runSuites(suiteKeys, options)
+
+    // A single shard is a partial run; history is recorded once shards are merged.
+    // Tag-filtered runs are partial too and would skew durations and pass rates.
+    if (options.recordHistory !== false && !options.shard && !hasTagFilter(options.tags)) {
+      this.recordRun(results)
+    }
+
+    await runPluginHook(this.plugins, 'afterAll', results, this)
+    return results
+  }
+
+  private async runSuites(
+    suiteKeys: string[],
+    options: RunAllOptions
+  ): Promise<Map<string, TestExecutionResult>> {
+    const results = new Map<string, TestExecutionResult>()
+
+    if (options.parallel) {
+      const concurrency = options.concurrency || cpus().length
+      const controller = new AbortController()
+      let failedSuite: string | undefined
+
+      console.log(`Running ${suiteKeys.length} suites with concurrency ${concurrency}`)
+
+      const parallelResults = await runWithConcurrency(suiteKeys, concurrency, async (key) => {
+        // Suites not yet started when failFast trips are skipped entirely
+        if (controller.signal.aborted) {
+          return undefined
+        }
+
+        let result: TestExecutionResult
+        const startedAt = Date.now()
+
+        try {
+          // Concurrent runCLI calls would share one process, so parallel runs use shell mode
+          result = await this.runSuite(key, {
+            verbose: true,
+            signal: controller.signal,
+            shard: options.shard,
+            execution: 'shell',
+            tags: options.tags,
+            coverage: options.coverage,
+            retries: options.retries,
+            randomize: options.randomize,
+            seed: options.seed,
+            trackHeap: options.trackHeap,
+          })
+        } catch (error: any) {
+          const finishedAt = Date.now()
+          result = {
+            ...this.createEmptyResult({ duration: finishedAt - startedAt, startedAt, finishedAt }),
+            errors: [error.message || 'Unknown error'],
+          }
+        }
+
+        if (result.cancelled && failedSuite) {
+          result.errors = [`Cancelled after '${failedSuite}' failed`]
+        }
+
+        if (options.failFast && !result.success && !result.cancelled && !failedSuite) {
+          failedSuite = key
+          controller.abort()
+        }
+
+        return { key, result }
+      })
+
+      parallelResults.forEach(entry => {
+        if (entry) {
+          results.set(entry.key, entry.result)
+        }
+      })
+    } else {
+      // Run suites sequentially
+      for (const key of suiteKeys) {
+        const result = await this.runSuite(key, {
+          verbose: true,
+          shard: options.shard,
+          execution: options.execution,
+          reporters: options.reporters,
+          tags: options.tags,
+          coverage: options.coverage,
+          retries: options.retries,
+          randomize: options.randomize,
+          seed: options.seed,
+          trackHeap: options.trackHeap,
+        })
+        results.set(key, result)
+
+        // Fail fast if enabled and suite failed
+        if (options.failFast && !result.success) {
+          break
+        }
+      }
+    }
+
+    return results
+  }
+
+  listPipelines(): string[] {
+    return Object.keys(this.config.pipelines || {})
+  }
+
+  /**
+   * Runs a pipeline's phases in order. A phase whose dependencies did not
+   * pass is skipped; budget overruns are reported but do not fail a phase.
+   */
+  async runPipeline(
+    name: string,
+    options: { baseRef?: string; concurrency?: number; retries?: number } = {}
+  ): Promise<PipelineResult> {
+    const pipeline = this.config.pipelines?.[name]
+    if (!pipeline) {
+      throw new Error(`Pipeline '${name}' not found. Available: ${this.listPipelines().join(', ') || 'none'}`)
+    }
+
+    const errors = validatePipeline(name, pipeline, this.listSuiteKeys())
+    if (errors.length > 0) {
+      throw new Error(errors.join('\n'))
+    }
+
+    const startedAt = Date.now()
+    const results = new Map<string, TestExecutionResult>()
+    const phases: PhaseResult[] = []
+
+    // Plugins see the pipeline as one run, not one per phase
+    const pipelineSuites = Array.from(new Set(pipeline.phases.flatMap(phase => phase.suites)))
+    await runPluginHook(this.plugins, 'beforeAll', pipelineSuites, this)
+
+    for (const [index, phase] of pipeline.phases.entries()) {
+      const blockedBy = getPhaseDependencies(pipeline, index)
+        .filter(dependency => phases.find(done => done.name === dependency)?.status !== 'passed')
+
+      if (blockedBy.length > 0) {
+        phases.push({
+          name: phase.name,
+          status: 'skipped',
+          suites: [],
+          duration: 0,
+          budget: phase.budget,
+          overBudget: false,
+          note: `Skipped: ${blockedBy.map(dependency => `'${dependency}'`).join(', ')} did not pass`,
+        })
+        continue
+      }
+
+      let suites = phase.suites
+      let note: string | undefined
+      if (phase.affected) {
+        const affected = this.selectAffectedSuites(options.baseRef).suites.map(entry => entry.suite)
+        suites = suites.filter(suite => affected.includes(suite))
+        note = `Affected since ${options.baseRef || DEFAULT_BASE_REF}: ${suites.length} of ${phase.suites.length} suites`
+      }
+
+      console.log(`\n▶ Phase ${index + 1}: ${phase.name} (${suites.join(', ') || 'nothing to run'})`)
+
+      const phaseStartedAt = Date.now()
+      const phaseResults = suites.length > 0
+        ? await this.runSuites(suites, {
+          parallel: phase.parallel,
+          concurrency: options.concurrency ?? this.config.run?.concurrency,
+          coverage: this.config.run?.coverage,
+          retries: options.retries,
+          failFast: true,
+        })
+        : new Map<string, TestExecutionResult>()
+      const duration = Date.now() - phaseStartedAt
+
+      // A suite re-run by a later phase reports its latest result
+      phaseResults.forEach((result, key) => results.set(key, result))
+
+      phases.push({
+        name: phase.name,
+        status: Array.from(phaseResults.values()).every(result => result.success) ? 'passed' : 'failed',
+        suites,
+        duration,
+        budget: phase.budget,
+        overBudget: duration > phase.budget,
+        note,
+      })
+    }
+
+    if (results.size > 0) {
+      this.recordRun(results)
+    }
+
+    await runPluginHook(this.plugins, 'afterAll', results, this)
+
+    return {
+      name,
+      success: phases.every(phase => phase.status === 'passed'),
+      phases,
+      results,
+      duration: Date.now() - startedAt,
+    }
+  }
+
+  /**
+   * Mutates each source file under `target` and runs the tests that import
+   * it against every mutant. Files whose contents, tests, imports (directly
+   * or not) and mutant limit are unchanged since the last run reuse the
+   * cached result.
+   */
+  async runMutationTesting(
+    target: string,
+    options: { maxMutantsPerFile?: number; cache?: boolean } = {}
+  ): Promise<MutationReport> {
+    if (!existsSync(target)) {
+      throw new Error(`Mutation target '${target}' does not exist`)
+    }
+
+    const rootDir = process.cwd()
+    const files = statSync(target).isDirectory()
+      ? walkFiles(rootDir, resolve(target), file => isSourceFile(file) && !isTestFile(file))
+      : [toPosixPath(relative(rootDir, resolve(target)))]
+
+    const graph = buildDependencyGraph(this.jestConfig || {})
+    const cache = loadMutationCache()
+    const reports: FileMutationReport[] = []
+
+    mkdirSync(join(RESULTS_DIR, 'mutation'), { recursive: true })
+
+    for (const file of files) {
+      const tests = findAffectedTests(graph, [file]).map(test => test.testFile)
+      const hash = hashMutationInputs(file, tests, graph, { maxMutantsPerFile: options.maxMutantsPerFile })
+      const cached = cache.files[file]
+
+      if (options.cache !== false && cached?.hash === hash) {
+        console.log(`[mutate] ${file}: unchanged, using cached result`)
+        reports.push({ ...cached.report, cached: true })
+        continue
+      }
+
+      const report = await this.mutateFile(file, tests, options.maxMutantsPerFile)
+      reports.push(report)
+
+      // Saved per file so an interrupted run keeps its progress
+      if (!report.error) {
+        cache.files[file] = { hash, report }
+        saveMutationCache(cache)
+      }
+    }
+
+    return {
+      target,
+      files: reports,
+      score: getMutationScore(reports.flatMap(report => report.mutants)),
+    }
+  }
+
+  private async mutateFile(file: string, tests: string[], maxMutants?: number): Promise<FileMutationReport> {
+    const source = readFileSync(file, 'utf8')
+    const mutants = generateMutants(source, file).slice(0, maxMutants)
+
+    // Group the covering tests by the suite that runs them
+    const groups = new Map<string, string[]>()
+    tests.forEach(test => {
+      const suiteKey = this.listSuiteKeys().find(key => new RegExp(this.suites.get(key)!.pattern).test(test))
+      if (suiteKey) {
+        groups.set(suiteKey, [...(groups.get(suiteKey) || []), test])
+      }
+    })
+
+    if (groups.size === 0) {
+      const uncovered = mutants.map(mutant => ({ ...mutant, status: 'no-coverage' as const }))
+      return { file, tests, mutants: uncovered, score: getMutationScore(uncovered) }
+    }
+
+    // Passes when every group passes; the first failure kills the mutant
+    const runTests = async (timeout?: number): Promise<'passed' | 'failed' | 'timeout'> => {
+      for (const [suiteKey, testPaths] of groups) {
+        const suite = this.suites.get(suiteKey)!
+        const args = this.buildJestArgs(suite, join(RESULTS_DIR, 'mutation', 'jest-results.json'), { testPaths })
+        args.push('--bail', '--coverage=false')
+
+        const controller = new AbortController()
+        const timer = timeout ? setTimeout(() => controller.abort(), timeout) : undefined
+        const result = await runJestProcess(args, { signal: controller.signal })
+        clearTimeout(timer)
+
+        if (result.cancelled) return 'timeout'
+        if (result.exitCode !== 0) return 'failed'
+      }
+      return 'passed'
+    }
+
+    console.log(`[mutate] ${file}: ${mutants.length} mutants, ${tests.length} test files`)
+
+    const baselineStart = Date.now()
+    if (await runTests() !== 'passed') {
+      return { file, tests, mutants: [], score: null, error: 'Tests fail without mutations; fix them first' }
+    }
+    // Mutants that loop forever are stopped well after a normal run would finish
+    const timeout = Math.max((Date.now() - baselineStart) * 3, 10000)
+
+    const results: MutantResult[] = []
+    for (const mutant of mutants) {
+      const outcome = await withMutantOnDisk(file, source, applyMutant(source, mutant), () => runTests(timeout))
+      const status = outcome === 'passed' ? 'survived' : outcome === 'failed' ? 'killed' : 'timeout'
+      results.push({ ...mutant, status })
+      console.log(`[mutate] ${file}:${mutant.line}:${mutant.column} ${mutant.mutator} ${status}`)
+    }
+
+    return { file, tests, mutants: results, score: getMutationScore(results) }
+  }
+
+  /**
+   * Selects suites containing tests that depend on files changed since
+   * `baseRef`. Config and setup file changes select every suite.
+   */
+  selectAffectedSuites(baseRef: string = DEFAULT_BASE_REF): AffectedSelection {
+    const changedFiles = getChangedFiles(baseRef)
+
+    const setupFiles = [this.jestConfig || {}, ...getInlineProjects(this.jestConfig || {})]
+      .flatMap(config => [...(config.setupFiles || []), ...(config.setupFilesAfterEnv || [])])
+      .map(file => stripRootDir(file).replace(/^\.\//, ''))
+
+    const globalTriggers = [
+      this.jestConfigPath,
+      ...(this.configPath ? [relative(process.cwd(), this.configPath)] : []),
+      ...GLOBAL_TRIGGER_FILES,
+      ...setupFiles,
+    ]
+
+    const globalChanges = changedFiles.filter(file => globalTriggers.includes(file))
+    if (globalChanges.length > 0) {
+      return {
+        baseRef,
+        changedFiles,
+        suites: this.listSuiteKeys().map(suite => ({
+          suite,
+          reasons: globalChanges.map(file => `${file} changed and applies to every suite`),
+          tests: [],
+        })),
+      }
+    }
+
+    // A deleted file selects the tests still importing it, not itself
+    const deletedFiles = changedFiles.filter(file => !existsSync(file))
+    const affectedTests = findAffectedTests(
+      buildDependencyGraph(this.jestConfig || {}, process.cwd(), deletedFiles),
+      changedFiles
+    ).filter(test => !deletedFiles.includes(test.testFile))
+
+    // The impact map adds tests that reach a file without importing it
+    const impactMap = loadImpactMap()
+    if (impactMap) {
+      findImpactedTests(impactMap, changedFiles)
+        .filter(test => !affectedTests.some(existing => existing.testFile === test.testFile))
+        .forEach(test => affectedTests.push(test))
+    }
+
+    const suites = this.listSuiteKeys().flatMap(suite => {
+      const pattern = new RegExp(this.suites.get(suite)!.pattern)
+      const tests = affectedTests.filter(test => pattern.test(test.testFile))
+      return tests.length > 0 ? [{ suite, reasons: [], tests }] : []
+    })
+
+    return { baseRef, changedFiles, suites }
+  }
+
+  /**
+   * Runs suites with per-test coverage and writes the impact map of which
+   * tests execute which source files and functions.
+   */
+  async buildImpactMap(suiteKeys: string[] = this.listSuiteKeys()): Promise<ImpactMap> {
+    const records: TestImpactRecord[] = []
+
+    for (const key of suiteKeys) {
+      const result = await this.runSuite(key, { impact: true })
+      const suiteRecords = readTestImpact(join(RESULTS_DIR, key, 'test-impact'))
+
+      // An empty map would make `affected` and `which-tests` miss these tests
+      if (result.testsRun > 0 && suiteRecords.length === 0) {
+        throw new Error(
+          `Suite '${key}' ran ${result.testsRun} tests but recorded no per-test coverage; it needs the babel ` +
+          'coverage provider and an inline Jest project (file projects do not get recorder-setup)'
+        )
+      }
+      records.push(...suiteRecords)
+    }
+
+    const map = createImpactMap(records, suiteKeys)
+    mkdirSync(RESULTS_DIR, { recursive: true })
+    saveImpactMap(map)
+    return map
+  }
+
+  /**
+   * Runs the suites with the isolation recorder and reports test files that
+   * leave global or module state changed. `randomize` also shuffles test
+   * order, which surfaces tests that only pass after another test's leak.
+   */
+  async checkIsolation(
+    suiteKeys: string[] = this.listSuiteKeys(),
+    options: Pick<RunSuiteOptions, 'randomize' | 'seed'> = {}
+  ): Promise<IsolationReport> {
+    const records: IsolationRecord[] = []
+    const seed = options.randomize ? options.seed ?? createTestOrderSeed() : undefined
+
+    for (const key of suiteKeys) {
+      const result = await this.runSuite(key, { isolation: true, randomize: options.randomize, seed })
+      const suiteRecords = readIsolationRecords(join(RESULTS_DIR, key, 'isolation'))
+
+      // Otherwise the suite would pass as leak-free without having been checked
+      if (result.testsRun > 0 && suiteRecords.length === 0) {
+        throw new Error(
+          `Suite '${key}' ran ${result.testsRun} tests but recorded no isolation data; ` +
+          'file projects in the Jest config do not get recorder-setup or isolation-environment'
+        )
+      }
+      records.push(...suiteRecords)
+    }
+
+    return createIsolationReport(records, seed)
+  }
+
+  /**
+   * Tests that executed a source file, or each file under a directory,
+   * according to the impact map. Directory targets also list source files
+   * no recorded test executed.
+   */
+  findCoveringTests(target: string): { map: ImpactMap; modules: ModuleImpact[]; unexecuted: string[] } {
+    const map = loadImpactMap()
+    if (!map) {
+      throw new Error('No impact map found; run `test-runner impact` first')
+    }
+
+    const modules = findCoveringTests(map, target, buildDependencyGraph(this.jestConfig || {}))
+    const unexecuted = existsSync(target) && statSync(target).isDirectory()
+      ? walkFiles(process.cwd(), resolve(target), file => isSourceFile(file) && !isTestFile(file))
+        .filter(file => !map.sources[file])
+      : []
+
+    return { map, modules, unexecuted }
+  }
+
+  /**
+   * Merges stored shard results (e.g. CI artifacts downloaded into
+   * test-results/) into one result per suite. `complete` refuses anything
+   * but one whole run: every shard of one split, all at one commit, and
+   * together covering exactly the suite's test files, and sharded suites
+   * are checked against the Jest coverageThreshold.
+   */
+  mergeResults(
+    directories: string[] = [RESULTS_DIR],
+    options: { complete?: boolean } = {}
+  ): Map<string, TestExecutionResult> {
+    let stored = readExecutionResults(directories)
+    if (!options.complete) {
+      return mergeStoredResults(stored)
+    }
+
+    // Suites stored without shards next to sharded ones are left from earlier runs
+    if (stored.some(entry => entry.result.shard)) {
+      const shardedSuites = new Set(stored.filter(entry => entry.result.shard).map(entry => entry.suite))
+      stored = stored.filter(entry => shardedSuites.has(entry.suite))
+    }
+
+    const commits = Array.from(new Set(stored.map(entry => entry.commit || 'unknown')))
+    if (commits.length > 1) {
+      throw new Error(`Stored results come from different commits (${commits.join(', ')}); merge the results of one run`)
+    }
+
+    const merged = mergeStoredResults(stored, { complete: true, coverageThreshold: this.jestConfig?.coverageThreshold })
+    merged.forEach((result, suiteKey) => {
+      if (!this.suites.has(suiteKey)) {
+        throw new Error(`Stored results for suite '${suiteKey}', which is not configured`)
+      }
+
+      const ran = new Set(result.files.map(file => toPosixPath(file.path)))
+      const expected = this.listSuiteTestFiles(suiteKey)
+      const missing = expected.filter(file => !ran.has(file))
+      const unexpected = Array.from(ran).filter(file => !expected.includes(file))
+      if (missing.length > 0 || unexpected.length > 0) {
+        const sample = (files: string[]) => `${files.slice(0, 3).join(', ')}${files.length > 3 ? ', ...' : ''}`
+        throw new Error([
+          `Merged results of suite '${suiteKey}' do not match its test files:`,
+          missing.length > 0 ? ` ${missing.length} never ran (${sample(missing)})` : '',
+          unexpected.length > 0 ? ` ${unexpected.length} are not part of it (${sample(unexpected)})` : '',
+        ].filter(Boolean).join(''))
+      }
+    })
+    return merged
+  }
+
+  /**
+   * Re-runs the tests of accepted snapshots with `--updateSnapshot`, one Jest
+   * run per test file so a test name shared by two files cannot update a
+   * snapshot that was not accepted.
+   */
+  async acceptSnapshots(snapshots: FailingSnapshot[]): Promise<SnapshotUpdate[]> {
+    const byFile = new Map<string, FailingSnapshot[]>()
+    snapshots.forEach(snapshot => {
+      const key = `${snapshot.suite}|${snapshot.file}`
+      byFile.set(key, [...(byFile.get(key) || []), snapshot])
+    })
+
+    const outputDir = join(RESULTS_DIR, 'snapshot-updates')
+    rmSync(outputDir, { recursive: true, force: true })
+    mkdirSync(outputDir, { recursive: true })
+
+    const updates: SnapshotUpdate[] = []
+
+    for (const group of byFile.values()) {
+      const { suite: suiteKey, file } = group[0]
+      const tests = Array.from(new Set(group.map(snapshot => snapshot.test)))
+      const suite = this.suites.get(suiteKey)
+      if (!suite) {
+        updates.push({ suite: suiteKey, file, tests, updated: 0, error: `Test suite '${suiteKey}' not found` })
+        continue
+      }
 
-    // Component Tests
-    this.suites.set('components', {
-      name: 'Component Tests',
-      pattern: '__tests__/components/**/*.test.{ts,tsx}',
-      timeout: 15000,
-      maxWorkers: 1,
-      coverage: true,
-      environment: 'jsdom',
-    })
+      const resultsFile = join(outputDir, `update-${updates.length + 1}.json`)
+      const jestArgs = this.buildJestArgs(suite, resultsFile, { testPaths: [file] })
+      jestArgs.push('--updateSnapshot', '--testNamePattern', buildTestNamePattern(tests))
 
-    // Integration Tests
-    this.suites.set('integration', {
-      name: 'Integration Tests', 
-      pattern: '__tests__/integration/**/*.test.{ts,tsx}',
-      timeout: 20000,
-      maxWorkers: 1,
-      coverage: true,
-      environment: 'jsdom',
-    })
+      const processResult = await this.executeJest(suiteKey, jestArgs, { stream: false })
+      const json = readJsonFile<JestJsonResults>(resultsFile)
+      if (!json) {
+        updates.push({ suite: suiteKey, file, tests, updated: 0, error: `Jest exited with code ${processResult.exitCode}` })
+        continue
+      }
 
-    // Device Compatibility Tests
-    this.suites.set('device', {
-      name: 'Device Compatibility Tests',
-      pattern: '__tests__/device-compatibility/**/*.test.{ts,tsx}',
-      timeout: 30000,
-      maxWorkers: 1,
-      coverage: false,
-      environment: 'react-native',
-    })
+      // Snapshots are written even when another assertion in the test fails
+      const [stillFailing] = getFailedTests(parseJestResults(json).files)
+      updates.push({
+        suite: suiteKey,
+        file,
+        tests,
+        updated: json.snapshot?.updated ?? 0,
+        error: stillFailing ? `Still failing: ${stillFailing.test.fullName}` : undefined,
+      })
+    }
 
-    // Performance Tests
-    this.suites.set('performance', {
-      name: 'Performance Tests',
-      pattern: '__tests__/performance/**/*.test.{ts,tsx}',
-      timeout: 45000,
-      maxWorkers: 1,
-      coverage: false,
-      environment: 'jsdom',
-    })
+    return updates
+  }
 
-    // Accessibility Tests
-    this.suites.set('accessibility', {
-      name: 'Accessibility Tests',
-      pattern: '__tests__/accessibility/**/*.test.{ts,tsx}',
-      timeout: 20000,
-      maxWorkers: 1,
-      coverage: true,
-      environment: 'jsdom',
-    })
+  measureSnapshots(budgetKb: number = this.config.snapshotBudget ?? DEFAULT_SNAPSHOT_BUDGET_KB): SnapshotSizeReport {
+    return measureSnapshotFiles(budgetKb)
   }
 
-  addSuite(key: string, config: TestSuiteConfig) {
-    this.suites.set(key, config)
+  /**
+   * Static quality audit of test files, compared with the checked-in
+   * baseline. Imports are resolved through the Jest config's path aliases.
+   */
+  auditTests(files: string[] = listTestFiles()): TestAudit {
+    const moduleNameMapper = [this.jestConfig || {}, ...getInlineProjects(this.jestConfig || {})]
+      .reduce<ModuleNameMapper>((mapper, project) => ({ ...mapper, ...project.moduleNameMapper }), {})
+    return createTestAudit(files, { moduleNameMapper })
   }
 
-  getSuite(key: string): TestSuiteConfig | undefined {
-    return this.suites.get(key)
+  /**
+   * Saves per-file coverage from the stored suite results (under
+   * `directories`, default test-results) as the baseline for the current
+   * commit, for later `coverage-diff` runs against it.
+   */
+  saveCoverageBaseline(directories?: string[]): string {
+    const coverage = this.loadStoredCoverage(directories)
+    return saveCoverageBaseline(createCoverageBaseline(coverage, getHeadCommit()))
   }
 
-  listSuites(): TestSuiteConfig[] {
-    return Array.from(this.suites.values())
+  /**
+   * Compares stored coverage with the baseline saved for the merge base of
+   * `baseRef`, and checks added code against the new-code thresholds.
+   */
+  diffCoverage(baseRef: string = DEFAULT_BASE_REF, directories?: string[]): CoverageDiffReport {
+    const coverage = this.loadStoredCoverage(directories)
+    const baseCommit = resolveMergeBase(baseRef)
+    const baselineFile = getBaselineFile(baseCommit)
+
+    return diffCoverage({
+      baseRef,
+      baseCommit,
+      coverage,
+      addedLines: getAddedLines(baseCommit),
+      baseline: loadCoverageBaseline(baselineFile),
+      baselineFile,
+      thresholds: this.getNewCodeThresholds(),
+    })
   }
 
-  async runSuite(
-    suiteKey: string, 
-    options: {
-      watch?: boolean
-      verbose?: boolean
-      updateSnapshots?: boolean
-    } = {}
-  ): Promise<TestExecutionResult> {
-    const suite = this.suites.get(suiteKey)
-    if (!suite) {
-      throw new Error(`Test suite '${suiteKey}' not found`)
+  /**
+   * Raw coverage of each suite's current result (its latest shard split, or
+   * its unsharded run). Results recorded at another commit are rejected
+   * rather than skipped: old coverage of a suite that was not rerun would
+   * otherwise count as coverage of HEAD.
+   */
+  private loadStoredCoverage(directories: string[] = [RESULTS_DIR]) {
+    const head = getHeadCommit()
+    const bySuite = new Map<string, Array<StoredExecutionResult & { dir: string }>>()
+    readExecutionResults(directories).forEach(entry => {
+      bySuite.set(entry.suite, [...(bySuite.get(entry.suite) || []), entry])
+    })
+    const current = Array.from(bySuite.entries()).flatMap(([suite, entries]) => selectSuiteResults(suite, entries))
+
+    const stale = current.filter(entry => entry.commit !== head)
+    if (stale.length > 0) {
+      const described = stale.map(entry => `${entry.dir} (${entry.commit ? entry.commit.slice(0, 8) : 'no commit'})`)
+      throw new Error(
+        `Stored results not recorded at HEAD (${head.slice(0, 8)}): ${described.join(', ')}; ` +
+        'rerun those suites or pass the directories of the current run'
+      )
     }
 
-    const startTime = Date.now()
-    
-    try {
-      // Build Jest command
-      const jestArgs = [
-        '--testPathPattern', suite.pattern,
-        '--testTimeout', suite.timeout.toString(),
-        '--maxWorkers', suite.maxWorkers.toString(),
-        '--testEnvironment', suite.environment,
-      ]
+    const coverageFiles = current
+      .map(entry => join(entry.dir, 'coverage', COVERAGE_FINAL_FILE))
+      .filter(file => existsSync(file))
 
-      if (suite.coverage) {
-        jestArgs.push('--coverage')
-      }
+    if (coverageFiles.length === 0) {
+      throw new Error(`No coverage found under ${directories.join(', ')}; run suites with coverage first`)
+    }
 
-      if (options.watch) {
-        jestArgs.push('--watch')
-      }
+    return loadCoverage(coverageFiles)
+  }
 
-      if (options.verbose) {
-        jestArgs.push('--verbose')
-      }
+  private getNewCodeThresholds(): NewCodeThresholds {
+    if (this.config.newCodeCoverage) {
+      return this.config.newCodeCoverage
+    }
 
-      if (options.updateSnapshots) {
-        jestArgs.push('--updateSnapshot')
-      }
+    // Jest's path thresholds apply to whole files; here they apply to added code
+    const thresholds: NewCodeThresholds = {}
+    Object.entries(this.jestConfig?.coverageThreshold || {})
+      .filter(([path]) => path !== 'global')
+      .forEach(([path, minimums]) => {
+        // Negative Jest thresholds are uncovered-count limits, not percentages
+        const valid = (value?: number) => (typeof value === 'number' && value >= 0 ? value : undefined)
+        thresholds[stripRootDir(path).replace(/^\.\//, '')] = {
+          lines: valid(minimums.lines),
+          branches: valid(minimums.branches),
+        }
+      })
 
-      // Execute Jest
-      const command = `npx jest ${jestArgs.join(' ')}`
-      console.log(`Running: ${command}`)
+    return thresholds
+  }
 
-      const output = execSync(command, { 
-        encoding: 'utf8',
-        stdio: 'pipe',
-        maxBuffer: 1024 * 1024 * 10 // 10MB buffer
-      })
+  /**
+   * Evaluates the quality gate policy and plugin gate checks against a run.
+   * Undefined when there is neither a policy nor a plugin gate.
+   */
+  evaluateQualityGates(results: Map<string, TestExecutionResult>): QualityVerdict | undefined {
+    const { qualityGates } = this.config
+    const inline = typeof qualityGates === 'object'
+    const policyFile = inline ? this.configPath || 'runner config' : qualityGates || QUALITY_GATES_FILE
+    const policy = inline ? qualityGates : loadQualityGatePolicy(policyFile)
+    const verdict = policy ? evaluateQualityGates(policy, results, policyFile) : undefined
 
-      // Parse Jest output
-      const result = this.parseJestOutput(output)
-      result.duration = Date.now() - startTime
+    const pluginGates = checkPluginGates(this.plugins, results, this)
+    if (pluginGates.length === 0) {
+      return verdict
+    }
 
-      return result
-    } catch (error: any) {
-      return {
-        success: false,
-        testsRun: 0,
-        testsPassed: 0,
-        testsFailed: 0,
-        duration: Date.now() - startTime,
-        errors: [error.message, error.stdout || '', error.stderr || ''].filter(Boolean),
-      }
+    const gates = [...(verdict?.gates || []), ...pluginGates]
+    return {
+      passed: gates.every(gate => gate.status !== 'failed'),
+      policyFile: verdict ? policyFile : 'runner plugins',
+      gates,
     }
   }
 
-  async runAll(options: {
-    parallel?: boolean
-    failFast?: boolean
-    coverage?: boolean
-  } = {}): Promise<Map<string, TestExecutionResult>> {
-    const results = new Map<string, TestExecutionResult>()
-    const suiteKeys = Array.from(this.suites.keys())
-
-    if (options.parallel) {
-      // Run suites in parallel
-      const promises = suiteKeys.map(async (key) => {
-        const result = await this.runSuite(key, { verbose: true })
-        return { key, result }
-      })
+  recordRun(results: Map<string, TestExecutionResult>): HistoryRun {
+    const run = createHistoryRun(results)
+    appendHistoryRun(run)
+    return run
+  }
 
-      const parallelResults = await Promise.allSettled(promises)
-      
-      parallelResults.forEach((settledResult, index) => {
-        if (settledResult.status === 'fulfilled') {
-          results.set(settledResult.value.key, settledResult.value.result)
-        } else {
-          results.set(suiteKeys[index], {
-            success: false,
-            testsRun: 0,
-            testsPassed: 0,
-            testsFailed: 0,
-            duration: 0,
-            errors: [settledResult.reason.message || 'Unknown error'],
-          })
-        }
-      })
-    } else {
-      // Run suites sequentially
-      for (const key of suiteKeys) {
-        const result = await this.runSuite(key, { verbose: true })
-        results.set(key, result)
+  getHistoryReport(options: { suite?: string; limit?: number } = {}): string {
+    return formatHistoryReport(readHistory(undefined, options.limit), { ...options, fullSuites: this.listSuiteKeys() })
+  }
 
-        // Fail fast if enabled and suite failed
-        if (options.failFast && !result.success) {
-          break
-        }
-      }
-    }
+  addReportWriter(writer: ReportWriter) {
+    this.reportWriters.set(writer.format, writer)
+  }
 
-    return results
+  listReportFormats(): string[] {
+    return Array.from(this.reportWriters.keys())
   }
 
-  private parseJestOutput(output: string): TestExecutionResult {
-    const lines = output.split('\n')
-    
-    let testsRun = 0
-    let testsPassed = 0
-    let testsFailed = 0
-    let coverage: any = undefined
+  // Formats written after every run (runner config `reports` or --report)
+  getConfiguredReports(): string[] {
+    return this.config.reports || []
+  }
 
-    // Parse test results
-    const testSummaryLine = lines.find(line => 
-      line.includes('Tests:') && (line.includes('passed') || line.includes('failed'))
-    )
+  buildRunReport(results: Map<string, TestExecutionResult>): RunReport {
+    const suiteNames: Record<string, string> = {}
+    this.suites.forEach((suite, key) => {
+      suiteNames[key] = suite.name
+    })
 
-    if (testSummaryLine) {
-      const passedMatch = testSummaryLine.match(/(\d+) passed/)
-      const failedMatch = testSummaryLine.match(/(\d+) failed/)
-      const totalMatch = testSummaryLine.match(/(\d+) total/)
+    return buildRunReport(results, {
+      suiteNames,
+      quarantine: this.quarantine,
+      history: readHistory(undefined, 50),
+    })
+  }
 
-      if (passedMatch) testsPassed = parseInt(passedMatch[1])
-      if (failedMatch) testsFailed = parseInt(failedMatch[1])
-      if (totalMatch) testsRun = parseInt(totalMatch[1])
+  generateReport(results: Map<string, TestExecutionResult>, format: string = 'text'): string {
+    const writer = this.reportWriters.get(format)
+    if (!writer) {
+      throw new Error(`Unknown report format '${format}'. Available: ${this.listReportFormats().join(', ')}`)
     }
 
-    // Parse coverage results
-    const coverageLines = lines.filter(line => 
-      line.includes('All files') || line.includes('|')
-    )
+    return writer.render(this.buildRunReport(results), results)
+  }
 
-    if (coverageLines.length > 0) {
-      const coverageLine = coverageLines.find(line => line.includes('All files'))
-      if (coverageLine) {
-        const parts = coverageLine.split('|').map(s => s.trim())
-        if (parts.length >= 5) {
-          coverage = {
-            statements: parseFloat(parts[1]) || 0,
-            branches: parseFloat(parts[2]) || 0,
-            functions: parseFloat(parts[3]) || 0,
-            lines: parseFloat(parts[4]) || 0,
-          }
-        }
+  /**
+   * Writes one file per format (e.g. `['md', 'json', 'html']`, default: the
+   * runner config's `reports`) and returns their paths.
+   */
+  writeReports(
+    results: Map<string, TestExecutionResult>,
+    formats: string[] = this.config.reports || [],
+    outputDir: string = RESULTS_DIR
+  ): string[] {
+    const writers = formats.map(format => {
+      const writer = this.reportWriters.get(format)
+      if (!writer) {
+        throw new Error(`Unknown report format '${format}'. Available: ${this.listReportFormats().join(', ')}`)
       }
-    }
+      return writer
+    })
 
-    return {
-      success: testsFailed === 0,
-      testsRun,
-      testsPassed,
-      testsFailed,
-      coverage,
-      duration: 0, // Will be set by caller
-      errors: [],
-    }
+    const report = this.buildRunReport(results)
+    mkdirSync(outputDir, { recursive: true })
+
+    return writers.map(writer => {
+      const outputFile = join(outputDir, writer.fileName)
+      writeFileSync(outputFile, writer.render(report, results))
+      return outputFile
+    })
   }
 
-  generateReport(results: Map<string, TestExecutionResult>): string {
-    const report: string[] = []
-    
-    report.push('='.repeat(80))
-    report.push('TRUE TAP - TESTING INTEGRATION REPORT')
-    report.push('='.repeat(80))
-    report.push('')
-
-    let totalTests = 0
-    let totalPassed = 0
-    let totalFailed = 0
-    let totalDuration = 0
-
-    results.forEach((result, suiteName) => {
-      const suite = this.suites.get(suiteName)
-      const status = result.success ? '✅ PASS' : '❌ FAIL'
-      
-      report.push(`${status} ${suite?.name || suiteName}`)
-      report.push(`  Tests: ${result.testsRun} total, ${result.testsPassed} passed, ${result.testsFailed} failed`)
-      report.push(`  Duration: ${(result.duration / 1000).toFixed(2)}s`)
-      
-      if (result.coverage) {
-        report.push(`  Coverage: ${result.coverage.statements}% statements, ${result.coverage.branches}% branches`)
-      }
-
-      if (result.errors.length > 0) {
-        report.push(`  Errors: ${result.errors.length}`)
-        result.errors.forEach(error => {
-          report.push(`    - ${error.split('\n')[0]}`)
-        })
-      }
+  /**
+   * Static config checks plus suite drift, in a shape CI can gate on
+   * (`test-runner doctor --json`).
+   */
+  async runDoctor(): Promise<DoctorReport> {
+    const findings: DoctorFinding[] = diagnoseJestConfig(this.jestConfigPath)
+
+    // diagnoseJestConfig reports its own failure to load the Jest config
+    const jestConfigReported = findings.some(finding => finding.rule === 'config-load')
+    this.configErrors
+      .filter(error => !(jestConfigReported && error.file === this.jestConfigPath))
+      .forEach(error => findings.push({ rule: 'config-load', severity: 'error', message: error.message, file: error.file }))
 
-      report.push('')
+    const utilityFiles = [
+      '__tests__/utils/enhanced-test-setup.ts',
+      '__tests__/utils/navigation-test-utils.ts',
+      '__tests__/utils/device-compatibility-testing.ts',
+    ]
 
-      totalTests += result.testsRun
-      totalPassed += result.testsPassed
-      totalFailed += result.testsFailed
-      totalDuration += result.duration
+    utilityFiles.forEach(file => {
+      if (!existsSync(file)) {
+        findings.push({ rule: 'environment', severity: 'error', message: `Missing test utility: ${file}` })
+      }
     })
 
-    report.push('-'.repeat(80))
-    report.push('SUMMARY')
-    report.push('-'.repeat(80))
-    report.push(`Total Tests: ${totalTests}`)
-    report.push(`Passed: ${totalPassed}`)
-    report.push(`Failed: ${totalFailed}`)
-    report.push(`Success Rate: ${((totalPassed / totalTests) * 100).toFixed(1)}%`)
-    report.push(`Total Duration: ${(totalDuration / 1000).toFixed(2)}s`)
-    report.push('')
+    this.listPipelines().forEach(name => {
+      validatePipeline(name, this.config.pipelines![name], this.listSuiteKeys()).forEach(message => {
+        findings.push({ rule: 'pipeline', severity: 'error', message, file: this.configPath })
+      })
+    })
 
-    const overallStatus = totalFailed === 0 ? '✅ ALL TESTS PASSED' : '❌ SOME TESTS FAILED'
-    report.push(overallStatus)
-    report.push('')
+    this.getSuiteDrift().forEach(entry => {
+      findings.push({
+        rule: 'suite-drift',
+        severity: entry.severity,
+        message: entry.message,
+        file: this.configPath,
+      })
+    })
 
-    return report.join('\n')
+    return createDoctorReport(this.jestConfigPath, findings)
   }
 
   async validateTestEnvironment(): Promise<{
     valid: boolean
     issues: string[]
     recommendations: string[]
+    drift: SuiteDrift[]
   }> {
-    const issues: string[] = []
+    const issues: string[] = this.configErrors.map(error => error.message)
     const recommendations: string[] = []
 
     // Check for required files
     const requiredFiles = [
-      'jest.config.js',
+      this.jestConfigPath,
       '__tests__/setup.ts',
       '__tests__/utils/enhanced-test-setup.ts',
       '__tests__/utils/navigation-test-utils.ts',
@@ -362,20 +1675,23 @@ export class TestRunner {
     })
 
     // Check Jest configuration
-    try {
-      const jestConfig = require('../../jest.config.enhanced.js')
-      
+    const jestConfig = this.jestConfig
+    if (jestConfig) {
       if (!jestConfig.projects || jestConfig.projects.length === 0) {
         issues.push('Jest config missing projects configuration')
       }
 
       if (!jestConfig.coverageThreshold) {
-        recommendations.push('Consider adding coverage thresholds to jest.config.js')
+        recommendations.push(`Consider adding coverage thresholds to ${this.jestConfigPath}`)
       }
-    } catch (error) {
-      issues.push('Could not load Jest configuration')
     }
 
+    // Check runner suites against the Jest projects they claim to mirror
+    const drift = this.getSuiteDrift()
+    drift
+      .filter(entry => entry.severity === 'error')
+      .forEach(entry => issues.push(entry.message))
+
     // Check for test utilities
     const utilityFiles = [
       '__tests__/utils/navigation-test-utils.ts',
@@ -392,25 +1708,140 @@ export class TestRunner {
       valid: issues.length === 0,
       issues,
       recommendations,
+      drift,
     }
   }
 }
 
-// Export singleton instance
-export const testRunner = new TestRunner()
+let defaultRunner: TestRunner | undefined
+
+// Shared instance, created on first use so importing this module does not
+// load truetap.testrc; an invalid config throws from here
+export const getTestRunner = (): TestRunner => {
+  if (!defaultRunner) {
+    defaultRunner = new TestRunner()
+  }
+  return defaultRunner
+}
+
+// Kept for existing `import { testRunner }` callers; the shared instance is
+// still only created when a property is first read
+export const testRunner: TestRunner = new Proxy({} as TestRunner, {
+  get: (_, property) => {
+    const runner = getTestRunner()
+    const value = Reflect.get(runner, property, runner)
+    return typeof value === 'function' ? value.bind(runner) : value
+  },
+  set: (_, property, value) => Reflect.set(getTestRunner(), property, value),
+  getPrototypeOf: () => TestRunner.prototype,
+})
 
 // Command-line interface
 if (require.main === module) {
-  const args = process.argv.slice(2)
-  const command = args[0]
+  const BUILT_IN_COMMANDS = [
+    'run', 'all', 'affected', 'merge', 'shard-durations', 'triage', 'snapshots', 'pipeline', 'mutate', 'coverage-baseline',
+    'coverage-diff', 'impact', 'which-tests', 'inventory', 'scaffold', 'audit', 'isolation', 'history', 'doctor', 'validate',
+  ]
+
+  const argv = process.argv.slice(2)
+
+  let testRunner: TestRunner
+  try {
+    testRunner = getTestRunner()
+  } catch (error: any) {
+    // Config problems need the messages, not a stack trace
+    console.error(error.message || error)
+    process.exit(1)
+  }
+
+  // Plugin commands get their arguments unparsed; built-in commands take precedence
+  const pluginCommand = argv[0] && !BUILT_IN_COMMANDS.includes(argv[0]) ? testRunner.getPluginCommand(argv[0]) : undefined
+
+  let parsed: ParsedArgs<typeof CLI_OPTIONS>
+  try {
+    parsed = pluginCommand
+      ? { command: argv[0], positionals: argv.slice(1), options: {} }
+      : parseArgs(argv, CLI_OPTIONS)
+    assertCommandOptions(parsed.command, parsed.options)
+
+    // Command-line values win over truetap.testrc
+    const { options } = parsed
+    testRunner.configure({
+      jestConfig: options['jest-config'],
+      execution: options['in-process'] ? 'in-process' : options.execution as ExecutionMode | undefined,
+      qualityGates: options['quality-gates'],
+      reports: options.report,
+      deviceProfiles: options['device-profiles'],
+      shardDurations: options['shard-durations'],
+      snapshotBudget: options.budget,
+      run: {
+        parallel: options.parallel,
+        concurrency: options.concurrency,
+        failFast: options['fail-fast'],
+        coverage: options.coverage,
+        trackHeap: options['track-heap'],
+      },
+    })
+
+    // Reported here like any other invalid option value
+    if (options.shard) {
+      parseShardSpec(options.shard)
+    }
+  } catch (error: any) {
+    console.error(error.message || error)
+    console.error('Run `npm run test-runner` without arguments for usage')
+    process.exit(1)
+  }
+
+  const { command, positionals, options } = parsed
+
+  // `--tag nfc,ble --exclude-tag slow`
+  const getTagFilter = (): TagFilter | undefined => {
+    const filter = { include: options.tag || [], exclude: options['exclude-tag'] || [] }
+    return hasTagFilter(filter) ? filter : undefined
+  }
+
+  const getShard = () => (options.shard ? parseShardSpec(options.shard) : undefined)
+
+  // `--seed N` replays a shuffled order, so it implies --randomize
+  const getTestOrder = () => ({ randomize: options.randomize || options.seed !== undefined, seed: options.seed })
+
+  /**
+   * Prints the text report, writes the configured report formats (`reports`,
+   * or `--report md,json,html`) and checks the quality gates. Returns
+   * whether the run passed overall.
+   */
+  const outputResults = (
+    results: Map<string, TestExecutionResult>,
+    options: { qualityGates?: boolean } = {}
+  ): boolean => {
+    console.log(testRunner.generateReport(results))
+    testRunner.writeReports(results).forEach(file => console.log(`Report written: ${file}`))
+
+    const testsPassed = Array.from(results.values()).every(result => result.success)
+    const verdict = options.qualityGates === false ? undefined : testRunner.evaluateQualityGates(results)
+    if (verdict) {
+      console.log(formatQualityVerdict(verdict))
+    }
+
+    return testsPassed && (verdict?.passed ?? true)
+  }
 
   switch (command) {
     case 'run':
-      const suite = args[1] || 'unit'
-      testRunner.runSuite(suite, { verbose: true })
-        .then(result => {
-          console.log(`Suite '${suite}' completed:`, result)
-          process.exit(result.success ? 0 : 1)
+      const suite = positionals[0] || 'unit'
+      const runShard = getShard()
+      // Through runAll so plugins see a single-suite run like any other
+      testRunner.runAll({
+        suites: [suite],
+        shard: runShard,
+        retries: options.retries,
+        tags: getTagFilter(),
+        ...getTestOrder(),
+      })
+        .then(results => {
+          // A single shard only covers part of the suite; gates run after `merge`
+          process.exit(outputResults(results, { qualityGates: !runShard }) ? 0 : 1)
         })
         .catch(error => {
           console.error('Test execution failed:', error)
@@ -419,13 +1850,16 @@ if (require.main === module) {
       break
 
     case 'all':
-      testRunner.runAll({ parallel: false, coverage: true })
+      const allShard = getShard()
+      // Parallelism, fail-fast and coverage come from the config's `run` defaults
+      testRunner.runAll({
+        shard: allShard,
+        retries: options.retries,
+        tags: getTagFilter(),
+        ...getTestOrder(),
+      })
         .then(results => {
-          const report = testRunner.generateReport(results)
-          console.log(report)
-          
-          const hasFailures = Array.from(results.values()).some(r => !r.success)
-          process.exit(hasFailures ? 1 : 0)
+          process.exit(outputResults(results, { qualityGates: !allShard }) ? 0 : 1)
         })
         .catch(error => {
           console.error('Test execution failed:', error)
@@ -433,23 +1867,342 @@ if (require.main === module) {
         })
       break
 
-    case 'validate':
-      testRunner.validateTestEnvironment()
-        .then(validation => {
-          console.log('Test Environment Validation:')
-          console.log(`Status: ${validation.valid ? '✅ Valid' : '❌ Invalid'}`)
-          
-          if (validation.issues.length > 0) {
-            console.log('\nIssues:')
-            validation.issues.forEach(issue => console.log(`  - ${issue}`))
-          }
+    case 'affected': {
+      const baseRef = positionals[0] || DEFAULT_BASE_REF
+
+      let selection: AffectedSelection
+      try {
+        selection = testRunner.selectAffectedSuites(baseRef)
+      } catch (error: any) {
+        console.error(error.message || error)
+        process.exit(1)
+      }
+      console.log(formatAffectedSelection(selection))
+
+      if (options['dry-run'] || selection.suites.length === 0) {
+        break
+      }
+
+      console.log('')
+
+      testRunner.runAll({
+        suites: selection.suites.map(entry => entry.suite),
+        retries: options.retries,
+        tags: getTagFilter(),
+        ...getTestOrder(),
+      })
+        .then(results => {
+          process.exit(outputResults(results) ? 0 : 1)
+        })
+        .catch(error => {
+          console.error('Test execution failed:', error)
+          process.exit(1)
+        })
+      break
+    }
+
+    case 'merge': {
+      let results: Map<string, TestExecutionResult>
+      try {
+        // Directories holding downloaded shard artifacts (default: test-results)
+        results = testRunner.mergeResults(positionals.length > 0 ? positionals : undefined, { complete: true })
+      } catch (error: any) {
+        console.error('Merge failed:', error.message || error)
+        process.exit(1)
+      }
+
+      if (results.size === 0) {
+        console.error('No shard results found')
+        process.exit(1)
+      }
+
+      testRunner.recordRun(results)
+      const passed = outputResults(results)
+      // CI reads the merged JUnit file even when `reports` leaves it out
+      if (!testRunner.getConfiguredReports().includes('junit')) {
+        testRunner.writeReports(results, ['junit']).forEach(file => console.log(`Report written: ${file}`))
+      }
+      process.exit(passed ? 0 : 1)
+    }
+
+    case 'shard-durations':
+      try {
+        console.log(`Shard durations written: ${testRunner.saveShardDurations(positionals[0])}`)
+      } catch (error: any) {
+        console.error('Could not write shard durations:', error.message || error)
+        process.exit(1)
+      }
+      break
+
+    case 'triage': {
+      // Stored suite or shard results to group (default: test-results)
+      const results = testRunner.mergeResults(positionals.length > 0 ? positionals : undefined)
+      const clusters = clusterFailures(results)
+
+      if (options.json) {
+        console.log(JSON.stringify(clusters, null, 2))
+      } else if (clusters.length === 0) {
+        console.log(results.size === 0 ? 'No stored results found' : 'No failures to triage')
+      } else {
+        console.log(formatFailureClusters(clusters).join('\n'))
+      }
+      break
+    }
+
+    case 'snapshots': {
+      const [subcommand, ...directories] = positionals
+      // Stored suite or shard results to read (default: test-results)
+      const loadResults = () => testRunner.mergeResults(directories.length > 0 ? directories : undefined)
+
+      if (subcommand === 'obsolete') {
+        const obsolete = collectObsoleteSnapshots(loadResults())
+        console.log(options.json ? JSON.stringify(obsolete, null, 2) : formatObsoleteSnapshots(obsolete))
+        process.exit(obsolete.length > 0 ? 1 : 0)
+      } else if (subcommand === 'diff') {
+        const failing = findFailingSnapshots(loadResults())
+        console.log(options.json ? JSON.stringify(failing, null, 2) : formatSnapshotDiffs(failing))
+      } else if (subcommand === 'review') {
+        const failing = findFailingSnapshots(loadResults())
+        if (failing.length === 0) {
+          console.log('No failing snapshots in the stored results')
+          break
+        }
+
+        const decisionsFile = options.decisions
+        if (!decisionsFile && !process.stdin.isTTY) {
+          console.error('Not running in a terminal; pass --decisions <file> to review non-interactively')
+          process.exit(1)
+        }
+
+        const decide = decisionsFile
+          ? Promise.resolve().then(() => loadSnapshotDecisions(decisionsFile))
+          : promptSnapshotDecisions(failing)
+
+        decide
+          .then(async decisions => {
+            const review = applySnapshotDecisions(failing, decisions)
+            const updates = await testRunner.acceptSnapshots(review.accepted)
+            console.log(formatSnapshotReview(review, updates))
+            process.exit(updates.some(update => update.error) ? 1 : 0)
+          })
+          .catch(error => {
+            console.error('Snapshot review failed:', error.message || error)
+            process.exit(1)
+          })
+      } else if (subcommand === 'size') {
+        const report = testRunner.measureSnapshots()
+        console.log(options.json ? JSON.stringify(report, null, 2) : formatSnapshotSizes(report))
+        process.exit(report.files.some(file => file.overBudget) ? 1 : 0)
+      } else {
+        console.error('Usage: test-runner snapshots <obsolete|diff|review|size> [dirs...]')
+        console.error('  [--json] [--decisions <file>] [--budget KB]')
+        process.exit(1)
+      }
+      break
+    }
+
+    case 'pipeline': {
+      const name = positionals[0]
+      if (!name) {
+        console.log('Available pipelines:', testRunner.listPipelines())
+        break
+      }
+
+      // Concurrency comes from the config's `run` defaults
+      testRunner.runPipeline(name, {
+        baseRef: options['base-ref'],
+        retries: options.retries,
+      })
+        .then(pipeline => {
+          const passed = outputResults(pipeline.results)
+          console.log(formatPipelineReport(pipeline))
+          process.exit(passed && pipeline.success ? 0 : 1)
+        })
+        .catch(error => {
+          console.error('Pipeline failed:', error.message || error)
+          process.exit(1)
+        })
+      break
+    }
+
+    case 'mutate': {
+      const target = positionals[0]
+      if (!target) {
+        console.error('Usage: test-runner mutate <path> [--max-mutants N] [--min-score N] [--no-cache]')
+        process.exit(1)
+      }
+
+      testRunner.runMutationTesting(target, {
+        maxMutantsPerFile: options['max-mutants'],
+        cache: options.cache ?? true,
+      })
+        .then(report => {
+          console.log(formatMutationReport(report))
+          const minScore = options['min-score']
+          const belowMinimum = minScore !== undefined && report.score !== null && report.score < minScore
+          const hasErrors = report.files.some(file => file.error)
+          process.exit(belowMinimum || hasErrors ? 1 : 0)
+        })
+        .catch(error => {
+          console.error('Mutation testing failed:', error.message || error)
+          process.exit(1)
+        })
+      break
+    }
+
+    case 'coverage-baseline':
+      try {
+        // Directories of the run to save (default: test-results)
+        const directories = positionals.length > 0 ? positionals : undefined
+        console.log(`Coverage baseline written: ${testRunner.saveCoverageBaseline(directories)}`)
+      } catch (error: any) {
+        console.error('Could not save coverage baseline:', error.message || error)
+        process.exit(1)
+      }
+      break
+
+    case 'coverage-diff': {
+      const baseRef = positionals[0] || DEFAULT_BASE_REF
+      try {
+        // Directories of the run to check after the base ref (default: test-results)
+        const report = testRunner.diffCoverage(baseRef, positionals.length > 1 ? positionals.slice(1) : undefined)
+        console.log(options.json ? JSON.stringify(report, null, 2) : formatCoverageDiff(report))
+        process.exit(report.passed ? 0 : 1)
+      } catch (error: any) {
+        console.error('Coverage diff failed:', error.message || error)
+        process.exit(1)
+      }
+    }
+
+    case 'impact': {
+      // Suites to record (default: all)
+      testRunner.buildImpactMap(positionals.length > 0 ? positionals : undefined)
+        .then(map => {
+          console.log(`Impact map written: ${IMPACT_MAP_FILE} (${Object.keys(map.sources).length} source files)`)
+        })
+        .catch(error => {
+          console.error('Impact map failed:', error.message || error)
+          process.exit(1)
+        })
+      break
+    }
+
+    case 'which-tests': {
+      const target = positionals[0]
+      if (!target) {
+        console.error('Usage: test-runner which-tests <file-or-directory> [--json]')
+        process.exit(1)
+      }
+
+      try {
+        const { map, modules, unexecuted } = testRunner.findCoveringTests(target)
+        console.log(options.json
+          ? JSON.stringify({ modules, unexecuted }, null, 2)
+          : formatCoveringTests(map, target, modules, unexecuted))
+      } catch (error: any) {
+        console.error(error.message || error)
+        process.exit(1)
+      }
+      break
+    }
+
+    case 'inventory': {
+      // Only component and screen test files under this path (default: all)
+      const target = positionals[0] ? toPosixPath(positionals[0]).replace(/\/$/, '') : undefined
+      const files = listTestFiles()
+        .filter(isComponentTestFile)
+        .filter(file => !target || file === target || file.startsWith(`${target}/`))
+      const inventory = createTestInventory(files)
+
+      console.log(options.json
+        ? JSON.stringify(inventory, null, 2)
+        : formatTestInventory(inventory, { tree: options.tree }))
+      break
+    }
+
+    case 'scaffold': {
+      try {
+        let componentPaths = positionals
+        if (options.missing) {
+          // Template components from the strategy doc that have no test file yet
+          const tested = new Set(listTestFiles().map(getComponentName))
+          const sources = findTemplateSources(findTemplateComponents().filter(template => !tested.has(template.name)))
+          sources.forEach((source, name) => {
+            if (!source) console.log(`⚠️  ${name}: no source file under ${SCAFFOLD_SOURCE_ROOT}/`)
+          })
+          componentPaths = Array.from(sources.values()).filter((source): source is string => source !== undefined)
+        }
+
+        if (componentPaths.length === 0) {
+          console.error(options.missing
+            ? 'No template components to scaffold'
+            : 'Usage: npm run test-runner scaffold <component-path> [--screen] [--dry-run] [--force]')
+          process.exit(options.missing ? 0 : 1)
+        }
 
-          if (validation.recommendations.length > 0) {
-            console.log('\nRecommendations:')
-            validation.recommendations.forEach(rec => console.log(`  - ${rec}`))
+        componentPaths.forEach(componentPath => {
+          const scaffold = createTestScaffold(componentPath, { variant: options.screen ? 'screen' : undefined })
+          if (options['dry-run']) {
+            console.log(`// ${scaffold.testFile}\n${scaffold.content}`)
+          } else {
+            writeTestScaffold(scaffold, { force: options.force })
+            console.log(`✅ ${scaffold.testFile} (${scaffold.variant} tests for ${scaffold.componentFile})`)
           }
+        })
+      } catch (error: any) {
+        console.error(error.message || error)
+        process.exit(1)
+      }
+      break
+    }
+
+    case 'audit': {
+      try {
+        // Only test files under this path (default: all)
+        const target = positionals[0] ? toPosixPath(positionals[0]).replace(/\/$/, '') : undefined
+        const audit = testRunner.auditTests(
+          listTestFiles().filter(file => !target || file === target || file.startsWith(`${target}/`))
+        )
+
+        console.log(options.json ? JSON.stringify(audit, null, 2) : formatTestAudit(audit))
+
+        if (options['update-baseline']) {
+          console.log(`\n✅ Baseline saved to ${saveAuditBaseline(audit, { force: options.force })}`)
+        } else if (audit.regressions.length > 0) {
+          process.exit(1)
+        }
+      } catch (error: any) {
+        console.error(error.message || error)
+        process.exit(1)
+      }
+      break
+    }
+
+    case 'isolation':
+      testRunner.checkIsolation(positionals.length > 0 ? positionals : undefined, getTestOrder())
+        .then(report => {
+          console.log(options.json ? JSON.stringify(report, null, 2) : formatIsolationReport(report))
+          process.exit(report.files.length > 0 ? 1 : 0)
+        })
+        .catch(error => {
+          console.error('Isolation check failed:', error.message || error)
+          process.exit(1)
+        })
+      break
+
+    case 'history':
+      console.log(testRunner.getHistoryReport({
+        suite: positionals[0],
+        limit: options.limit ?? 20,
+      }))
+      break
 
-          process.exit(validation.valid ? 0 : 1)
+    case 'doctor':
+    case 'validate':
+      testRunner.runDoctor()
+        .then(report => {
+          console.log(options.json ? JSON.stringify(report, null, 2) : formatDoctorReport(report))
+          process.exit(report.valid ? 0 : 1)
         })
         .catch(error => {
           console.error('Validation failed:', error)
@@ -457,13 +2210,88 @@ if (require.main === module) {
         })
       break
 
-    default:
+    default: {
+      if (pluginCommand) {
+        Promise.resolve()
+          .then(() => pluginCommand.run(positionals, testRunner))
+          .then(code => process.exit(code ?? 0))
+          .catch(error => {
+            console.error(`${command} failed:`, error.message || error)
+            process.exit(1)
+          })
+        break
+      }
+
       console.log('Usage:')
       console.log('  npm run test-runner run [suite]   - Run specific test suite')
+      console.log('      [--shard i/n] [--retries N] [--randomize] [--seed N] [--in-process]')
       console.log('  npm run test-runner all          - Run all test suites')
-      console.log('  npm run test-runner validate     - Validate test environment')
+      console.log('      [--parallel] [--concurrency N] [--fail-fast] [--shard i/n] [--retries N] [--in-process]')
+      console.log('      [--randomize] [--seed N]')
+      console.log('  npm run test-runner merge [dirs...] - Merge shard results into one report and JUnit file')
+      console.log('  npm run test-runner shard-durations [file] - Write recorded per-file durations for --shard planning')
+      console.log('  npm run test-runner triage [dirs...] - Group stored failures by shared cause')
+      console.log('      [--json]')
+      console.log('  npm run test-runner affected [base-ref] - Run suites affected by changes (default: main)')
+      console.log('      [--dry-run] [--parallel] [--fail-fast] [--randomize] [--seed N]')
+      console.log('  npm run test-runner snapshots obsolete [dirs...] - List snapshot entries and files no test uses')
+      console.log('  npm run test-runner snapshots diff [dirs...] - Show the diff of each failing snapshot')
+      console.log('  npm run test-runner snapshots review [dirs...] - Accept or reject failing snapshots per test')
+      console.log('      [--decisions <file>]')
+      console.log('  npm run test-runner snapshots size - List .snap files over the size budget')
+      console.log('      [--budget KB] [--json]')
+      console.log('  npm run test-runner pipeline <name> - Run a pipeline phase by phase')
+      console.log('      [--base-ref REF] [--concurrency N] [--retries N]')
+      console.log('  npm run test-runner mutate <path> - Mutation testing for a source file or directory')
+      console.log('      [--max-mutants N] [--min-score N] [--no-cache]')
+      console.log('  npm run test-runner coverage-baseline [dirs...] - Save stored coverage as the baseline for HEAD')
+      console.log('  npm run test-runner coverage-diff [base-ref] [dirs...] - Check coverage of code added since base-ref')
+      console.log('      [--json]')
+      console.log('  npm run test-runner impact [suites...] - Record which sources each test executes')
+      console.log('  npm run test-runner which-tests <path> - List the tests that execute a file or directory')
+      console.log('      [--json]')
+      console.log('  npm run test-runner inventory [path] - Tests per component and category, missing template tests')
+      console.log('      [--tree] [--json]')
+      console.log('  npm run test-runner scaffold <component-path> - Generate a test file for a modelFront component')
+      console.log('      [--screen] [--dry-run] [--force] [--missing]')
+      console.log('  npm run test-runner audit [path] - Flag assertion-free and mock-only tests against the baseline')
+      console.log('      [--update-baseline] [--force] [--json]')
+      console.log('  npm run test-runner isolation [suites...] - Report test files that leave global or module state changed')
+      console.log('      [--randomize] [--seed N] [--json]')
+      console.log('  npm run test-runner history [suite] - Show pass rate, duration and coverage trends')
+      console.log('      [--limit N]')
+      console.log('  npm run test-runner doctor       - Check Jest config and test environment')
+      console.log('      [--json]                      (alias: validate)')
       console.log('')
-      console.log('Available suites:', Array.from(testRunner.listSuites().map(s => s.name)))
+      console.log('run, all, affected, pipeline and merge accept --report <formats> to also write')
+      console.log(`report files to ${RESULTS_DIR}/ (formats: ${testRunner.listReportFormats().join(', ')})`)
+      console.log('run, all and affected accept --tag <tags> and --exclude-tag <tags> (comma-separated,')
+      console.log('e.g. --tag nfc,ble --exclude-tag slow) to select tests tagged @nfc etc. in their titles')
+      console.log('')
+      console.log('Options override the runner config (truetap.testrc) for one invocation:')
+      console.log('  --jest-config FILE  --execution shell|in-process  --quality-gates FILE')
+      console.log('  --report <formats> (--no-report skips the configured ones)  --device-profiles <keys>')
+      console.log('  --shard-durations FILE')
+      console.log('  --[no-]parallel  --concurrency N  --[no-]fail-fast  --[no-]coverage  --[no-]track-heap')
+      console.log('  --budget KB')
+      console.log('suites, pipelines, plugins, retry and newCodeCoverage are set in the runner config only;')
+      console.log('--retries N overrides the retry count for one run')
+
+      const pluginCommands = testRunner.listPluginCommands()
+      if (pluginCommands.length > 0) {
+        console.log('')
+        console.log(`Plugin commands (${testRunner.listPlugins().join(', ')}):`)
+        pluginCommands.forEach(entry => {
+          console.log(`  npm run test-runner ${entry.name} - ${entry.description}`)
+          if (entry.usage) {
+            console.log(`      ${entry.usage}`)
+          }
+        })
+      }
+
+      console.log('')
+      console.log('Available suites:', Array.from(testRunner.listSuiteKeys()))
       break
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,661 @@
+/**
+ * Test Scaffolding
+ *
+ * Generates a test file for a modelFront component with the standard describe
+ * blocks from COMPREHENSIVE_TEST_STRATEGY.md (Basic Rendering, Accessibility,
+ * Performance, Error Handling, Memory Management). Default props come from
+ * the component's props type; framer-motion and `@/lib` imports get mocks.
+ * Screens are rendered inside NavigationTestWrapper.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { basename, dirname, extname, join, relative } from 'path'
+import * as ts from 'typescript'
+import { toPosixPath, walkFiles } from './fs-utils'
+import { TemplateComponent } from './test-inventory'
+
+export const SOURCE_ROOT = 'modelFront'
+export const SETUP_MODULE = '__tests__/utils/enhanced-test-setup'
+
+// Average render time a scaffolded Performance test allows, in milliseconds
+export const RENDER_BUDGET_MS = 50
+
+export type ScaffoldVariant = 'component' | 'screen'
+
+export type PropKind = 'function' | 'string' | 'number' | 'boolean' | 'array' | 'node' | 'literal' | 'other'
+
+export interface ComponentProp {
+  name: string
+  optional: boolean
+  kind: PropKind
+  // Type as written, e.g. `(value: string) => void`
+  type: string
+  // First member of a literal union, e.g. `'primary'`
+  literal?: string
+}
+
+export interface ComponentSource {
+  name: string
+  exportKind: 'named' | 'default'
+  props: ComponentProp[]
+  // Undefined when the component does not import framer-motion
+  framerMotion?: {
+    imports: string[]
+    // Elements rendered as `motion.<element>`
+    elements: string[]
+  }
+  // `@/lib` modules and the values imported from each
+  libImports: Array<{ module: string; names: string[] }>
+}
+
+export interface TestScaffold {
+  componentFile: string
+  testFile: string
+  variant: ScaffoldVariant
+  content: string
+}
+
+const COMPONENT_TYPES = ['FC', 'FunctionComponent', 'VFC']
+const NODE_TYPES = ['ReactNode', 'ReactElement', 'Element']
+
+// Animation props the motion mocks keep off DOM elements
+const MOTION_PROPS = [
+  'initial', 'animate', 'exit', 'variants', 'transition', 'whileHover', 'whileTap', 'whileFocus', 'whileInView', 'layout',
+]
+
+const FRAMER_MOTION_MOCKS: Record<string, string> = {
+  AnimatePresence: '({ children }: any) => children',
+  MotionConfig: '({ children }: any) => children',
+  useReducedMotion: '() => false',
+  useAnimation: '() => ({ start: jest.fn(), stop: jest.fn(), set: jest.fn() })',
+  useMotionValue: '(initial: any) => ({ get: () => initial, set: jest.fn(), onChange: jest.fn() })',
+  useTransform: '() => ({ get: jest.fn(), set: jest.fn() })',
+  useSpring: '(value: any) => value',
+  useInView: '() => true',
+  Variants: '{}',
+}
+
+const LIB_MOCKS: Record<string, string> = {
+  cn: "(...classes: string[]) => classes.filter(Boolean).join(' ')",
+  createAccessibleAnimation: 'jest.fn(() => ({}))',
+}
+
+// Shared fixtures from enhanced-test-setup for well-known prop types
+const FIXTURE_VALUES: Record<string, string> = {
+  UserPreferences: 'testDataGenerators.createMockPreferences()',
+  Contact: 'testDataGenerators.createMockContact()',
+}
+
+const hasExportModifier = (node: ts.Node): boolean =>
+  (ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined)?.some(
+    modifier => modifier.kind === ts.SyntaxKind.ExportKeyword
+  ) ?? false
+
+const hasDefaultModifier = (node: ts.Node): boolean =>
+  (ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined)?.some(
+    modifier => modifier.kind === ts.SyntaxKind.DefaultKeyword
+  ) ?? false
+
+const getTypeName = (typeName: ts.EntityName): string =>
+  ts.isIdentifier(typeName) ? typeName.text : typeName.right.text
+
+// `payment-flow` → `PaymentFlow`
+const toPascalCase = (name: string): string =>
+  name.replace(/(^|[-_.])(\w)/g, (_, __, letter: string) => letter.toUpperCase())
+
+const classifyType = (node: ts.TypeNode | undefined, sourceFile: ts.SourceFile): Pick<ComponentProp, 'kind' | 'literal'> => {
+  if (!node) return { kind: 'other' }
+
+  if (ts.isParenthesizedTypeNode(node)) return classifyType(node.type, sourceFile)
+  if (ts.isFunctionTypeNode(node)) return { kind: 'function' }
+  if (ts.isArrayTypeNode(node)) return { kind: 'array' }
+  if (ts.isLiteralTypeNode(node)) return { kind: 'literal', literal: node.getText(sourceFile) }
+
+  switch (node.kind) {
+    case ts.SyntaxKind.StringKeyword:
+      return { kind: 'string' }
+    case ts.SyntaxKind.NumberKeyword:
+      return { kind: 'number' }
+    case ts.SyntaxKind.BooleanKeyword:
+      return { kind: 'boolean' }
+  }
+
+  if (ts.isUnionTypeNode(node)) {
+    const members = node.types.filter(member =>
+      member.kind !== ts.SyntaxKind.UndefinedKeyword &&
+      !(ts.isLiteralTypeNode(member) && member.literal.kind === ts.SyntaxKind.NullKeyword)
+    )
+    if (members.length === 1) return classifyType(members[0], sourceFile)
+    if (members.every(ts.isLiteralTypeNode)) return { kind: 'literal', literal: members[0].getText(sourceFile) }
+    // e.g. `string | ReactNode`
+    return classifyType(members[0], sourceFile)
+  }
+
+  if (ts.isTypeReferenceNode(node)) {
+    const name = getTypeName(node.typeName)
+    if (name === 'Array' || name === 'ReadonlyArray') return { kind: 'array' }
+    if (name === 'Function') return { kind: 'function' }
+    if (NODE_TYPES.includes(name)) return { kind: 'node' }
+  }
+
+  return { kind: 'other' }
+}
+
+/**
+ * Props declared by a type node, following local interfaces, type aliases,
+ * intersections and `extends` clauses. Types from other modules are skipped.
+ */
+const collectProps = (node: ts.TypeNode | undefined, sourceFile: ts.SourceFile, seen = new Set<string>()): ComponentProp[] => {
+  if (!node) return []
+
+  const fromMembers = (members: ts.NodeArray<ts.TypeElement>): ComponentProp[] =>
+    members.flatMap(member => {
+      if (!member.name || (!ts.isPropertySignature(member) && !ts.isMethodSignature(member))) return []
+      return [{
+        name: member.name.getText(sourceFile).replace(/^['"]|['"]$/g, ''),
+        optional: member.questionToken !== undefined,
+        type: ts.isMethodSignature(member) ? 'function' : member.type?.getText(sourceFile) || 'any',
+        ...(ts.isMethodSignature(member) ? { kind: 'function' as const } : classifyType(member.type, sourceFile)),
+      }]
+    })
+
+  if (ts.isTypeLiteralNode(node)) return fromMembers(node.members)
+  if (ts.isIntersectionTypeNode(node)) return node.types.flatMap(part => collectProps(part, sourceFile, seen))
+  if (ts.isParenthesizedTypeNode(node)) return collectProps(node.type, sourceFile, seen)
+  if (!ts.isTypeReferenceNode(node)) return []
+
+  const name = getTypeName(node.typeName)
+  if (seen.has(name)) return []
+  seen.add(name)
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isInterfaceDeclaration(statement) && statement.name.text === name) {
+      const inherited = (statement.heritageClauses || []).flatMap(clause =>
+        clause.types.flatMap(type =>
+          ts.isIdentifier(type.expression)
+            ? collectProps(ts.factory.createTypeReferenceNode(type.expression.text), sourceFile, seen)
+            : []
+        )
+      )
+      return [...inherited, ...fromMembers(statement.members)]
+    }
+    if (ts.isTypeAliasDeclaration(statement) && statement.name.text === name) {
+      return collectProps(statement.type, sourceFile, seen)
+    }
+  }
+
+  return []
+}
+
+// The props type of `FC<P>`, `(props: P) =>`, `forwardRef<R, P>(...)` or `memo(...)`
+const findPropsType = (
+  declaration: ts.FunctionDeclaration | ts.VariableDeclaration,
+  sourceFile: ts.SourceFile
+): ts.TypeNode | undefined => {
+  if (ts.isFunctionDeclaration(declaration)) {
+    return declaration.parameters[0]?.type
+  }
+
+  const annotation = declaration.type
+  if (annotation && ts.isTypeReferenceNode(annotation) && COMPONENT_TYPES.includes(getTypeName(annotation.typeName))) {
+    return annotation.typeArguments?.[0]
+  }
+
+  const fromExpression = (expression: ts.Expression | undefined): ts.TypeNode | undefined => {
+    if (!expression) return undefined
+    if (ts.isArrowFunction(expression) || ts.isFunctionExpression(expression)) {
+      return expression.parameters[0]?.type
+    }
+    if (ts.isCallExpression(expression)) {
+      const callee = expression.expression.getText(sourceFile)
+      if (/forwardRef$/.test(callee) && expression.typeArguments?.[1]) {
+        return expression.typeArguments[1]
+      }
+      if (/memo$/.test(callee) && expression.typeArguments?.[0]) {
+        return expression.typeArguments[0]
+      }
+      return fromExpression(expression.arguments[0])
+    }
+    return undefined
+  }
+
+  return fromExpression(declaration.initializer)
+}
+
+const findComponent = (sourceFile: ts.SourceFile, preferredName: string) => {
+  const candidates: Array<{
+    name: string
+    exportKind: ComponentSource['exportKind']
+    declaration: ts.FunctionDeclaration | ts.VariableDeclaration
+  }> = []
+  const locals = new Map<string, ts.FunctionDeclaration | ts.VariableDeclaration>()
+
+  sourceFile.statements.forEach(statement => {
+    if (ts.isFunctionDeclaration(statement) && statement.name) {
+      locals.set(statement.name.text, statement)
+      if (hasExportModifier(statement)) {
+        const exportKind = hasDefaultModifier(statement) ? 'default' : 'named'
+        candidates.push({ name: statement.name.text, exportKind, declaration: statement })
+      }
+    } else if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach(declaration => {
+        if (!ts.isIdentifier(declaration.name)) return
+        locals.set(declaration.name.text, declaration)
+        if (hasExportModifier(statement)) {
+          candidates.push({ name: declaration.name.text, exportKind: 'named', declaration })
+        }
+      })
+    }
+  })
+
+  // `export default PaymentFlow`
+  sourceFile.statements.forEach(statement => {
+    if (ts.isExportAssignment(statement) && !statement.isExportEquals && ts.isIdentifier(statement.expression)) {
+      const declaration = locals.get(statement.expression.text)
+      if (declaration && !candidates.some(candidate => candidate.name === statement.expression.getText(sourceFile))) {
+        candidates.push({ name: statement.expression.text, exportKind: 'default', declaration })
+      }
+    }
+  })
+
+  const components = candidates.filter(candidate => /^[A-Z]/.test(candidate.name))
+  return components.find(candidate => candidate.name === preferredName) || components[0]
+}
+
+export const analyzeComponent = (source: string, fileName: string): ComponentSource => {
+  const sourceFile = ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX)
+  const preferredName = toPascalCase(basename(fileName, extname(fileName)))
+
+  const component = findComponent(sourceFile, preferredName)
+  if (!component) {
+    throw new Error(`No exported component found in ${fileName}`)
+  }
+
+  let framerMotion: ComponentSource['framerMotion']
+  const libImports: ComponentSource['libImports'] = []
+
+  sourceFile.statements.forEach(statement => {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) return
+    const clause = statement.importClause
+    if (!clause || clause.isTypeOnly) return
+
+    const moduleName = statement.moduleSpecifier.text
+    const names = clause.namedBindings && ts.isNamedImports(clause.namedBindings)
+      ? clause.namedBindings.elements.filter(element => !element.isTypeOnly).map(element => (element.propertyName || element.name).text)
+      : []
+
+    if (moduleName === 'framer-motion') {
+      framerMotion = { imports: names, elements: [] }
+    } else if (moduleName.startsWith('@/lib/') && names.length > 0) {
+      libImports.push({ module: moduleName, names })
+    }
+  })
+
+  if (framerMotion) {
+    const elements = new Set<string>()
+    const visit = (node: ts.Node) => {
+      if (ts.isPropertyAccessExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === 'motion') {
+        elements.add(node.name.text)
+      }
+      ts.forEachChild(node, visit)
+    }
+    visit(sourceFile)
+    framerMotion.elements = Array.from(elements).sort()
+  }
+
+  // Later declarations of a prop (e.g. an intersection override) win
+  const props = new Map<string, ComponentProp>()
+  collectProps(findPropsType(component.declaration, sourceFile), sourceFile).forEach(prop => props.set(prop.name, prop))
+
+  return {
+    name: component.name,
+    exportKind: component.exportKind,
+    props: Array.from(props.values()),
+    framerMotion,
+    libImports,
+  }
+}
+
+/**
+ * `modelFront/components/ui/AnimatedButton.tsx` →
+ * `modelFront/__tests__/components/ui/AnimatedButton.test.tsx`
+ */
+export const getScaffoldPath = (componentFile: string): string => {
+  const file = toPosixPath(componentFile)
+  if (!file.startsWith(`${SOURCE_ROOT}/`) || file.startsWith(`${SOURCE_ROOT}/__tests__/`)) {
+    throw new Error(`Expected a component under ${SOURCE_ROOT}/, got ${componentFile}`)
+  }
+
+  const relativePath = file.slice(SOURCE_ROOT.length + 1)
+  return `${SOURCE_ROOT}/__tests__/${relativePath.replace(/\.(tsx|ts|jsx|js)$/, '')}.test.tsx`
+}
+
+export const getDefaultVariant = (componentFile: string): ScaffoldVariant =>
+  /(^|\/)screens\//.test(toPosixPath(componentFile)) ? 'screen' : 'component'
+
+const importPath = (fromFile: string, toModule: string): string => {
+  const path = toPosixPath(relative(dirname(fromFile), toModule))
+  return path.startsWith('.') ? path : `./${path}`
+}
+
+const getPropValue = (prop: ComponentProp, component: string): string => {
+  switch (prop.kind) {
+    case 'function':
+      return 'jest.fn()'
+    case 'string':
+      return `'Test ${prop.name}'`
+    case 'number':
+      return '1'
+    case 'boolean':
+      return 'false'
+    case 'array':
+      return '[]'
+    case 'node':
+      return `'${component} content'`
+    case 'literal':
+      // Keeps the literal type so defaultProps still matches the props type
+      return `${prop.literal} as const`
+    default:
+      return FIXTURE_VALUES[prop.type] || '{} as any'
+  }
+}
+
+const renderPropLine = (prop: ComponentProp, component: string): string => {
+  const value = getPropValue(prop, component)
+  const todo = value === '{} as any' ? ` // TODO: a ${prop.type}` : ''
+  return `    ${prop.name}: ${value},${todo}`
+}
+
+const renderFramerMotionMock = (framerMotion: NonNullable<ComponentSource['framerMotion']>): string[] => {
+  const elements = framerMotion.elements.length > 0 ? framerMotion.elements : ['div']
+  const lines = [
+    '// Mock framer-motion; animation props are dropped so they do not reach the DOM',
+    "jest.mock('framer-motion', () => {",
+    "  const React = require('react')",
+    '  const createMotionElement = (tag: string) =>',
+    `    ({ children, ${MOTION_PROPS.join(', ')}, ...props }: any) =>`,
+    '      React.createElement(tag, props, children)',
+    '',
+    '  return {',
+    '    motion: {',
+    ...elements.map(element => `      ${element}: createMotionElement('${element}'),`),
+    '    },',
+  ]
+
+  framerMotion.imports
+    .filter(name => name !== 'motion')
+    .forEach(name => lines.push(`    ${name}: ${FRAMER_MOTION_MOCKS[name] || 'jest.fn()'},`))
+
+  lines.push('  }', '})', '')
+  return lines
+}
+
+const renderLibMocks = (libImports: ComponentSource['libImports']): string[] => {
+  if (libImports.length === 0) return []
+
+  const lines = ['// Mock utility functions']
+  libImports.forEach(({ module, names }) => {
+    lines.push(`jest.mock('${module}', () => ({`)
+    names.forEach(name => {
+      const value = LIB_MOCKS[name] || (/^[A-Z][A-Z0-9_]*$/.test(name) ? '{}' : 'jest.fn()')
+      lines.push(`  ${name}: ${value},`)
+    })
+    lines.push('}))', '')
+  })
+  return lines
+}
+
+export const renderTestScaffold = (
+  component: ComponentSource,
+  options: { componentFile: string; testFile: string; variant: ScaffoldVariant }
+): string => {
+  const { name, props } = component
+  const isScreen = options.variant === 'screen'
+  const renderName = isScreen ? 'renderScreen' : 'renderComponent'
+  const componentModule = importPath(options.testFile, options.componentFile.replace(/\.(tsx|ts|jsx|js)$/, ''))
+  const setupModule = importPath(options.testFile, SETUP_MODULE)
+
+  const required = props.filter(prop => !prop.optional && !(isScreen && prop.name === 'navigation'))
+  const callbacks = props.filter(prop => prop.kind === 'function')
+  const optionalValues = props.filter(prop => prop.optional && prop.kind !== 'function')
+  const hasPreferences = props.some(prop => prop.name === 'preferences')
+  const takesNavigation = props.some(prop => prop.name === 'navigation')
+
+  const defaultPropsText = required.map(prop => renderPropLine(prop, name)).join('\n')
+  const usesFixtures = required.some(prop => prop.kind === 'other' && FIXTURE_VALUES[prop.type]) || hasPreferences
+
+  const setupImports = [
+    'PerformanceTester',
+    'accessibilityTestUtils',
+    'animationTestUtils',
+    'captureConsoleOutput',
+    ...(isScreen ? ['NavigationTestWrapper', 'createMockNavigationContext'] : []),
+    ...(usesFixtures ? ['testDataGenerators'] : []),
+  ]
+
+  const lines: string[] = [
+    '/**',
+    ` * ${name} ${isScreen ? 'Screen' : 'Component'} Tests`,
+    ' *',
+    ' * Scaffolded by `npm run test-runner scaffold` with the standard describe',
+    ' * blocks and their first checks; replace the `it.todo` entries with the',
+    ` * ${isScreen ? "screen's" : "component's"} behaviour.`,
+    ' */',
+    '',
+    "import React from 'react'",
+    `import { render${isScreen ? ', screen' : ''} } from '@testing-library/react'`,
+    component.exportKind === 'default'
+      ? `import ${name} from '${componentModule}'`
+      : `import { ${name} } from '${componentModule}'`,
+    'import {',
+    ...setupImports.map(entry => `  ${entry},`),
+    `} from '${setupModule}'`,
+    ...(isScreen ? [`import type { MockNavigationContextValue } from '${setupModule}'`] : []),
+    '',
+    ...(component.framerMotion ? renderFramerMotionMock(component.framerMotion) : []),
+    ...renderLibMocks(component.libImports),
+    `describe('${name} ${isScreen ? 'Screen' : 'Component'}', () => {`,
+    required.length > 0 ? `  const defaultProps = {\n${defaultPropsText}\n  }` : '  const defaultProps = {}',
+  ]
+
+  if (isScreen) {
+    lines.push(
+      '',
+      '  let mockNavigation: MockNavigationContextValue',
+      '',
+      '  beforeEach(() => {',
+      '    jest.clearAllMocks()',
+      '    mockNavigation = createMockNavigationContext()',
+      '  })',
+      '',
+      `  const ${renderName} = (props: Partial<React.ComponentProps<typeof ${name}>> = {}) =>`,
+      '    render(',
+      '      <NavigationTestWrapper mockNavigation={mockNavigation}>',
+      `        <${name} {...defaultProps}${takesNavigation ? ' navigation={mockNavigation as any}' : ''} {...props} />`,
+      '      </NavigationTestWrapper>',
+      '    )',
+    )
+  } else {
+    lines.push(
+      '',
+      '  beforeEach(() => {',
+      '    jest.clearAllMocks()',
+      '  })',
+      '',
+      `  const ${renderName} = (props: Partial<React.ComponentProps<typeof ${name}>> = {}) =>`,
+      `    render(<${name} {...defaultProps} {...props} />)`,
+    )
+  }
+
+  lines.push(
+    '',
+    "  describe('Basic Rendering', () => {",
+    "    it('should render with default props', () => {",
+    `      const { container } = ${renderName}()`,
+    '',
+    '      expect(container.firstChild).toBeInTheDocument()',
+    '    })',
+    ...(optionalValues.length > 0 ? [''] : []),
+    ...optionalValues.map(prop => `    it.todo('should render with ${prop.name}')`),
+    '  })',
+  )
+
+  if (isScreen) {
+    lines.push(
+      '',
+      "  describe('Navigation', () => {",
+      "    it('should render inside the navigation container', () => {",
+      `      ${renderName}()`,
+      '',
+      "      expect(screen.getByTestId('navigation-test-wrapper')).toBeInTheDocument()",
+      '    })',
+      '',
+      "    it.todo('should navigate on its primary action')",
+      "    it.todo('should go back when back is pressed')",
+      '  })',
+    )
+  }
+
+  if (callbacks.length > 0) {
+    lines.push(
+      '',
+      "  describe('User Interactions', () => {",
+      ...callbacks.map(prop => `    it.todo('should call ${prop.name}')`),
+      '  })',
+    )
+  }
+
+  const reducedMotionProps = hasPreferences
+    ? '{ preferences: testDataGenerators.createMockPreferences({ reducedMotion: true }) }'
+    : ''
+
+  lines.push(
+    '',
+    "  describe('Accessibility', () => {",
+    "    it('should label its interactive elements', async () => {",
+    `      const { container } = ${renderName}()`,
+    '',
+    '      const violations = await accessibilityTestUtils.checkA11y(container)',
+    '      expect(violations).toHaveLength(0)',
+    '    })',
+    '',
+    "    it('should render with reduced motion', () => {",
+    '      animationTestUtils.mockReducedMotion(true)',
+    '',
+    `      const { container } = ${renderName}(${reducedMotionProps})`,
+    '      expect(container.firstChild).toBeInTheDocument()',
+    '    })',
+    '  })',
+    '',
+    "  describe('Performance', () => {",
+    `    it('should render within ${RENDER_BUDGET_MS}ms on average', () => {`,
+    '      const tester = new PerformanceTester()',
+    '      tester.startMonitoring()',
+    '',
+    '      for (let run = 0; run < 5; run++) {',
+    '        const start = performance.now()',
+    `        const { unmount } = ${renderName}()`,
+    '        tester.recordRenderTime(performance.now() - start)',
+    '        unmount()',
+    '      }',
+    '',
+    `      expect(tester.getMetrics().averageRenderTime).toBeLessThan(${RENDER_BUDGET_MS})`,
+    '    })',
+    '  })',
+    '',
+    "  describe('Error Handling', () => {",
+    "    it('should render without logging errors', () => {",
+    '      const output = captureConsoleOutput()',
+    '      try {',
+    `        ${renderName}()`,
+    '      } finally {',
+    '        output.restore()',
+    '      }',
+    '',
+    '      expect(output.captured.error).toHaveLength(0)',
+    '    })',
+    '',
+    "    it.todo('should handle invalid props gracefully')",
+    '  })',
+    '',
+    "  describe('Memory Management', () => {",
+    "    it('should not leave timers running after unmount', () => {",
+    '      jest.useFakeTimers()',
+    '      try {',
+    `        const { unmount } = ${renderName}()`,
+    '        unmount()',
+    '',
+    '        expect(jest.getTimerCount()).toBe(0)',
+    '      } finally {',
+    '        jest.useRealTimers()',
+    '      }',
+    '    })',
+    '  })',
+    '})',
+    '',
+  )
+
+  return lines.join('\n')
+}
+
+const COMPONENT_EXTENSIONS = ['', '.tsx', '.ts', '.jsx', '.js']
+
+// Accepts the path with or without its extension
+export const resolveComponentFile = (componentPath: string, rootDir: string = process.cwd()): string => {
+  const file = COMPONENT_EXTENSIONS
+    .map(extension => `${toPosixPath(componentPath).replace(/\/$/, '')}${extension}`)
+    .find(candidate => existsSync(join(rootDir, candidate)) && /\.(tsx|ts|jsx|js)$/.test(candidate))
+
+  if (!file) {
+    throw new Error(`Component ${componentPath} not found`)
+  }
+  return file
+}
+
+export const createTestScaffold = (
+  componentPath: string,
+  options: { variant?: ScaffoldVariant; rootDir?: string } = {}
+): TestScaffold => {
+  const rootDir = options.rootDir || process.cwd()
+  const componentFile = resolveComponentFile(componentPath, rootDir)
+  const testFile = getScaffoldPath(componentFile)
+  const variant = options.variant || getDefaultVariant(componentFile)
+
+  const component = analyzeComponent(readFileSync(join(rootDir, componentFile), 'utf8'), componentFile)
+  return {
+    componentFile,
+    testFile,
+    variant,
+    content: renderTestScaffold(component, { componentFile, testFile, variant }),
+  }
+}
+
+// Refuses to replace an existing test file unless `force` is set
+export const writeTestScaffold = (
+  scaffold: TestScaffold,
+  options: { force?: boolean; rootDir?: string } = {}
+): string => {
+  const target = join(options.rootDir || process.cwd(), scaffold.testFile)
+  if (existsSync(target) && !options.force) {
+    throw new Error(`${scaffold.testFile} already exists; pass --force to overwrite it`)
+  }
+
+  mkdirSync(dirname(target), { recursive: true })
+  writeFileSync(target, scaffold.content)
+  return scaffold.testFile
+}
+
+// Source files under modelFront/ named after each strategy doc template
+export const findTemplateSources = (
+  templates: TemplateComponent[],
+  rootDir: string = process.cwd()
+): Map<string, string | undefined> => {
+  const sources = walkFiles(rootDir, join(rootDir, SOURCE_ROOT), file =>
+    /\.(tsx|ts|jsx|js)$/.test(file) && !file.startsWith(`${SOURCE_ROOT}/__tests__/`) && !/\.(test|spec)\./.test(file)
+  )
+
+  return new Map(templates.map(template => [
+    template.name,
+    sources.find(file => basename(file, extname(file)) === template.name),
+  ]))
+}
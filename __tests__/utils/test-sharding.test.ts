@@ -0,0 +1,316 @@
+/**
+ * Test Sharding Tests
+ *
+ * Shard planning must be identical on every CI machine, and merging must
+ * refuse shard sets that would add up to a smaller run than the one planned
+ */
+
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { createCoverageMap } from 'istanbul-lib-coverage'
+import {
+  StoredExecutionResult,
+  checkCoverageThresholds,
+  mergeShardResults,
+  mergeStoredResults,
+  parseShardSpec,
+  planShards,
+  selectSuiteResults,
+} from './test-sharding'
+import type { TestExecutionResult } from './test-runner'
+
+const createResult = (overrides: Partial<TestExecutionResult> = {}): TestExecutionResult => ({
+  success: true,
+  testsRun: 1,
+  testsPassed: 1,
+  testsFailed: 0,
+  testsSkipped: 0,
+  files: [],
+  duration: 1000,
+  startedAt: 1000,
+  finishedAt: 2000,
+  errors: [],
+  ...overrides,
+})
+
+const createFile = (path: string, status: 'passed' | 'failed' = 'passed') => ({
+  path,
+  status,
+  duration: 100,
+  tests: [{ title: 'works', fullName: `${path} works`, ancestors: [], status, duration: 100, failureMessages: [] }],
+})
+
+// Coverage of one statement per line, with the given hit counts
+const fileCoverage = (hits: number[], path: string = '/src/math.ts') => ({
+  path,
+  statementMap: Object.fromEntries(hits.map((_, index) => [
+    index,
+    { start: { line: index + 1, column: 0 }, end: { line: index + 1, column: 10 } },
+  ])),
+  fnMap: {},
+  branchMap: {},
+  s: Object.fromEntries(hits.map((count, index) => [index, count])),
+  f: {},
+  b: {},
+})
+
+const createShard = (
+  index: number,
+  total: number,
+  overrides: Partial<TestExecutionResult> = {}
+): StoredExecutionResult & { dir: string } => ({
+  suite: 'unit',
+  dir: `test-results/unit/shard-${index}-of-${total}`,
+  result: createResult({ shard: { index, total }, ...overrides }),
+})
+
+describe('parseShardSpec', () => {
+  it('should parse index and total', () => {
+    expect(parseShardSpec('2/4')).toEqual({ index: 2, total: 4 })
+  })
+
+  it('should reject malformed specs', () => {
+    expect(() => parseShardSpec('2-4')).toThrow('expected <index>/<total>')
+    expect(() => parseShardSpec('2/')).toThrow('expected <index>/<total>')
+    expect(() => parseShardSpec('a/b')).toThrow('expected <index>/<total>')
+  })
+
+  it('should reject indexes outside 1..total', () => {
+    expect(() => parseShardSpec('0/4')).toThrow('between 1 and 4')
+    expect(() => parseShardSpec('5/4')).toThrow('between 1 and 4')
+    expect(() => parseShardSpec('1/0')).toThrow()
+  })
+})
+
+describe('planShards', () => {
+  const files = ['a.test.ts', 'b.test.ts', 'c.test.ts', 'd.test.ts', 'e.test.ts']
+
+  it('should assign every file to exactly one shard', () => {
+    const plan = planShards(files, new Map([['a.test.ts', 5000], ['c.test.ts', 300]]), 3)
+    const assigned = plan.shards.flatMap(shard => shard.files)
+
+    expect(assigned.sort()).toEqual(files)
+    expect(plan.shards).toHaveLength(3)
+  })
+
+  it('should balance by duration, slowest file first', () => {
+    const durations = new Map([
+      ['a.test.ts', 9000],
+      ['b.test.ts', 4000],
+      ['c.test.ts', 3000],
+      ['d.test.ts', 2000],
+      ['e.test.ts', 1000],
+    ])
+    const plan = planShards(files, durations, 2)
+
+    // Ties go to the first shard
+    expect(plan.shards[0].files).toEqual(['a.test.ts', 'e.test.ts'])
+    expect(plan.shards[1].files).toEqual(['b.test.ts', 'c.test.ts', 'd.test.ts'])
+    expect(plan.shards.map(shard => shard.estimatedDuration)).toEqual([10000, 9000])
+  })
+
+  it('should estimate files without durations with the median known duration', () => {
+    const plan = planShards(files, new Map([['a.test.ts', 100], ['b.test.ts', 300], ['c.test.ts', 200]]), 1)
+
+    expect(plan.unknownFiles).toEqual(['d.test.ts', 'e.test.ts'])
+    expect(plan.shards[0].estimatedDuration).toBe(100 + 300 + 200 + 200 + 200)
+  })
+
+  it('should split by file count without any durations', () => {
+    const plan = planShards(files, new Map(), 2)
+
+    expect(plan.shards.map(shard => shard.files.length)).toEqual([3, 2])
+  })
+
+  it('should produce the same plan regardless of input order', () => {
+    const durations = new Map([['b.test.ts', 700], ['d.test.ts', 700]])
+
+    expect(planShards([...files].reverse(), durations, 3)).toEqual(planShards(files, durations, 3))
+  })
+
+  it('should leave shards empty when there are more shards than files', () => {
+    const plan = planShards(['a.test.ts'], new Map(), 3)
+
+    expect(plan.shards.map(shard => shard.files)).toEqual([['a.test.ts'], [], []])
+  })
+})
+
+describe('mergeShardResults', () => {
+  it('should sum counts and order files by path', () => {
+    const merged = mergeShardResults([
+      { result: createResult({ testsRun: 2, testsPassed: 2, files: [createFile('b.test.ts')] }) },
+      {
+        result: createResult({
+          success: false,
+          testsRun: 3,
+          testsPassed: 1,
+          testsFailed: 2,
+          files: [createFile('a.test.ts', 'failed')],
+          errors: ['boom'],
+        }),
+      },
+    ])
+
+    expect(merged.success).toBe(false)
+    expect(merged.testsRun).toBe(5)
+    expect(merged.testsPassed).toBe(3)
+    expect(merged.testsFailed).toBe(2)
+    expect(merged.files.map(file => file.path)).toEqual(['a.test.ts', 'b.test.ts'])
+    expect(merged.errors).toEqual(['boom'])
+  })
+
+  it('should sum machine time and span wall clock across shards', () => {
+    const merged = mergeShardResults([
+      { result: createResult({ duration: 3000, startedAt: 1000, finishedAt: 4000 }) },
+      { result: createResult({ duration: 2000, startedAt: 2000, finishedAt: 5000 }) },
+    ])
+
+    expect(merged.duration).toBe(5000)
+    expect(merged.startedAt).toBe(1000)
+    expect(merged.finishedAt).toBe(5000)
+  })
+
+  it('should merge raw coverage instead of averaging percentages', () => {
+    const root = mkdtempSync(join(tmpdir(), 'shard-coverage-'))
+
+    try {
+      const writeCoverage = (dir: string, hits: number[]) => {
+        mkdirSync(join(root, dir, 'coverage'), { recursive: true })
+        writeFileSync(
+          join(root, dir, 'coverage', 'coverage-final.json'),
+          JSON.stringify({ '/src/math.ts': fileCoverage(hits) })
+        )
+      }
+      // Each shard covers a different half of the same four lines
+      writeCoverage('shard-1', [1, 1, 0, 0])
+      writeCoverage('shard-2', [0, 0, 1, 1])
+
+      const merged = mergeShardResults([
+        { result: createResult(), dir: join(root, 'shard-1') },
+        { result: createResult(), dir: join(root, 'shard-2') },
+      ])
+
+      expect(merged.coverage?.statements).toBe(100)
+    } finally {
+      rmSync(root, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('checkCoverageThresholds', () => {
+  const coverageMap = () => createCoverageMap({
+    '/repo/src/services/wallet.ts': fileCoverage([1, 1, 1, 0], '/repo/src/services/wallet.ts'),
+    '/repo/src/services/rpc.ts': fileCoverage([1, 1, 1, 1], '/repo/src/services/rpc.ts'),
+    '/repo/src/screens/Home.tsx': fileCoverage([1, 0], '/repo/src/screens/Home.tsx'),
+  })
+
+  it('should check path entries on their files together and global on the rest', () => {
+    const errors = checkCoverageThresholds(coverageMap(), {
+      global: { lines: 60 },
+      './src/services/': { statements: 90, lines: 80 },
+    }, '/repo')
+
+    // services is 7 of 8; global only sees Home.tsx at 1 of 2
+    expect(errors).toEqual([
+      'Jest: "global" coverage threshold for lines (60%) not met: 50%',
+      'Jest: "./src/services/" coverage threshold for statements (90%) not met: 87.5%',
+    ])
+  })
+
+  it('should check glob entries per file', () => {
+    expect(checkCoverageThresholds(coverageMap(), { '<rootDir>/src/services/*.ts': { lines: 80 } }, '/repo'))
+      .toEqual(['Jest: "src/services/wallet.ts" coverage threshold for lines (80%) not met: 75%'])
+  })
+
+  it('should treat negative thresholds as uncovered counts', () => {
+    expect(checkCoverageThresholds(coverageMap(), { global: { statements: -1 } }, '/repo'))
+      .toEqual(['Jest: Uncovered count for statements (2) exceeds global threshold (1)'])
+  })
+
+  it('should report path entries without coverage', () => {
+    expect(checkCoverageThresholds(coverageMap(), { './src/legacy/': { lines: 80 } }, '/repo'))
+      .toEqual(['Jest: Coverage data for ./src/legacy/ was not found.'])
+  })
+})
+
+describe('selectSuiteResults', () => {
+  it('should ignore the unsharded result when shard results exist', () => {
+    const unsharded = { suite: 'unit', dir: 'test-results/unit', result: createResult({ finishedAt: 9000 }) }
+    const selected = selectSuiteResults('unit', [unsharded, createShard(1, 2), createShard(2, 2)], { complete: true })
+
+    expect(selected.map(entry => entry.result.shard?.index)).toEqual([1, 2])
+  })
+
+  it('should fail when a shard is missing', () => {
+    expect(() => selectSuiteResults('unit', [createShard(1, 3), createShard(3, 3)], { complete: true }))
+      .toThrow("Suite 'unit' is missing shard 2/3")
+  })
+
+  it('should fail when shards come from different splits', () => {
+    const entries = [createShard(1, 2), createShard(2, 2), createShard(1, 3), createShard(2, 3), createShard(3, 3)]
+
+    expect(() => selectSuiteResults('unit', entries, { complete: true })).toThrow('2-way and 3-way')
+  })
+
+  it('should fail when a shard has more than one result', () => {
+    expect(() => selectSuiteResults('unit', [createShard(1, 2), createShard(1, 2), createShard(2, 2)], { complete: true }))
+      .toThrow('more than one result for shard 1/2')
+  })
+
+  it('should use the latest split and result per shard when not complete', () => {
+    const entries = [
+      createShard(1, 2, { finishedAt: 1000 }),
+      createShard(1, 3, { finishedAt: 3000, testsRun: 7 }),
+      createShard(1, 3, { finishedAt: 2000 }),
+      createShard(3, 3, { finishedAt: 3000 }),
+    ]
+    const selected = selectSuiteResults('unit', entries)
+
+    expect(selected.map(entry => entry.result.shard)).toEqual([{ index: 1, total: 3 }, { index: 3, total: 3 }])
+    expect(selected[0].result.testsRun).toBe(7)
+  })
+})
+
+describe('mergeStoredResults', () => {
+  it('should fail a sharded suite whose merged coverage misses the threshold', () => {
+    const root = mkdtempSync(join(tmpdir(), 'shard-threshold-'))
+
+    try {
+      const shards = [1, 2].map(index => {
+        const shard = createShard(index, 2)
+        shard.dir = join(root, `shard-${index}`)
+        mkdirSync(join(shard.dir, 'coverage'), { recursive: true })
+        writeFileSync(
+          join(shard.dir, 'coverage', 'coverage-final.json'),
+          JSON.stringify({ '/src/math.ts': fileCoverage(index === 1 ? [1, 0, 0, 0] : [0, 1, 0, 0]) })
+        )
+        return shard
+      })
+
+      const merged = mergeStoredResults(shards, { complete: true, coverageThreshold: { global: { lines: 60 } } })
+
+      expect(merged.get('unit')?.success).toBe(false)
+      expect(merged.get('unit')?.errors).toEqual(['Jest: "global" coverage threshold for lines (60%) not met: 50%'])
+    } finally {
+      rmSync(root, { recursive: true, force: true })
+    }
+  })
+
+  it('should merge each suite separately', () => {
+    const merged = mergeStoredResults([
+      createShard(1, 2, { testsRun: 2 }),
+      createShard(2, 2, { testsRun: 3 }),
+      { suite: 'integration', dir: 'test-results/integration', result: createResult({ testsRun: 4 }) },
+    ], { complete: true })
+
+    expect(Array.from(merged.keys())).toEqual(['integration', 'unit'])
+    expect(merged.get('unit')?.testsRun).toBe(5)
+    expect(merged.get('integration')?.testsRun).toBe(4)
+  })
+
+  it('should not merge an incomplete shard set as a smaller passing run', () => {
+    expect(() => mergeStoredResults([createShard(1, 4), createShard(2, 4), createShard(4, 4)], { complete: true }))
+      .toThrow('missing shard 3/4')
+  })
+})
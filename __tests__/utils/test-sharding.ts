@@ -0,0 +1,436 @@
+/**
+ * Test Sharding
+ *
+ * Splits a suite's test files across CI machines (`--shard i/n`) using
+ * per-file durations from a shared durations file, and merges shard results
+ * back into one run
+ */
+
+import { existsSync, readFileSync, readdirSync, rmSync, statSync, writeFileSync } from 'fs'
+import { dirname, join, relative } from 'path'
+import { createCoverageMap, createCoverageSummary, CoverageMap, CoverageMapData } from 'istanbul-lib-coverage'
+import { toPosixPath } from './fs-utils'
+import { globToRegExpSource, JestConfig, stripRootDir } from './jest-config'
+import { CoverageSummary, ObsoleteSnapshot, parseCoverageSummary } from './jest-results'
+import type { HistoryRun } from './results-history'
+import type { TestExecutionResult } from './test-runner'
+
+export const EXECUTION_RESULT_FILE = 'execution-result.json'
+
+// Checked in, or passed between CI jobs, so every machine plans the same shards
+export const SHARD_DURATIONS_FILE = 'shard-durations.json'
+
+// Recent runs weigh in on each file's expected duration
+const DURATION_SAMPLE_RUNS = 10
+
+// Used for files with no recorded duration when there is no history at all
+const DEFAULT_FILE_DURATION_MS = 1000
+
+export interface ShardSpec {
+  // 1-based shard number
+  index: number
+  total: number
+}
+
+export interface ShardAssignment {
+  files: string[]
+  estimatedDuration: number
+}
+
+export interface ShardPlan {
+  shards: ShardAssignment[]
+  // Files without history, estimated with the median known duration
+  unknownFiles: string[]
+}
+
+export interface StoredExecutionResult {
+  suite: string
+  // Commit the results were produced at; undefined outside a git checkout
+  commit?: string
+  result: TestExecutionResult
+}
+
+export interface ShardDurations {
+  generatedAt: string
+  commit?: string
+  // Average duration per test file in milliseconds
+  files: Record<string, number>
+}
+
+export const parseShardSpec = (spec: string): ShardSpec => {
+  const match = spec.match(/^(\d+)\/(\d+)$/)
+  if (!match) {
+    throw new Error(`Invalid shard '${spec}': expected <index>/<total>, e.g. 2/4`)
+  }
+
+  const index = parseInt(match[1], 10)
+  const total = parseInt(match[2], 10)
+  if (total < 1 || index < 1 || index > total) {
+    throw new Error(`Invalid shard '${spec}': index must be between 1 and ${total}`)
+  }
+
+  return { index, total }
+}
+
+export const formatShardSpec = (shard: ShardSpec): string => `${shard.index}/${shard.total}`
+
+// Average duration per test file over the most recent runs that include it
+export const getFileDurations = (history: HistoryRun[]): Map<string, number> => {
+  const samples = new Map<string, number[]>()
+
+  history.slice().reverse().forEach(run => {
+    Object.values(run.suites).forEach(suite => {
+      Object.entries(suite.files || {}).forEach(([file, duration]) => {
+        const entries = samples.get(file) || []
+        if (entries.length < DURATION_SAMPLE_RUNS) {
+          entries.push(duration)
+          samples.set(file, entries)
+        }
+      })
+    })
+  })
+
+  const durations = new Map<string, number>()
+  samples.forEach((entries, file) => {
+    durations.set(file, entries.reduce((a, b) => a + b, 0) / entries.length)
+  })
+  return durations
+}
+
+export const createShardDurations = (durations: Map<string, number>, commit?: string): ShardDurations => ({
+  generatedAt: new Date().toISOString(),
+  commit,
+  files: Object.fromEntries(
+    Array.from(durations.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([file, duration]) => [file, Math.round(duration)])
+  ),
+})
+
+export const saveShardDurations = (durations: ShardDurations, durationsFile: string = SHARD_DURATIONS_FILE) => {
+  writeFileSync(durationsFile, `${JSON.stringify(durations, null, 2)}\n`)
+  return durationsFile
+}
+
+// A configured file that is missing would make machines plan differently, so it fails
+export const loadShardDurations = (durationsFile: string): Map<string, number> => {
+  if (!existsSync(durationsFile)) {
+    throw new Error(`Shard durations file ${durationsFile} does not exist; write it with \`test-runner shard-durations\``)
+  }
+
+  let durations: ShardDurations
+  try {
+    durations = JSON.parse(readFileSync(durationsFile, 'utf8'))
+  } catch (error: any) {
+    throw new Error(`Could not parse shard durations file ${durationsFile}: ${error.message}`)
+  }
+
+  const files = Object.entries(durations?.files || {})
+  if (typeof durations?.files !== 'object' || files.some(([, duration]) => typeof duration !== 'number')) {
+    throw new Error(`Shard durations file ${durationsFile} must map test files to milliseconds under "files"`)
+  }
+
+  return new Map(files)
+}
+
+/**
+ * Longest-processing-time-first: hand the slowest remaining file to the
+ * least loaded shard. Deterministic for the same inputs, so every CI
+ * machine computes the same plan independently.
+ */
+export const planShards = (
+  files: string[],
+  durations: Map<string, number>,
+  total: number
+): ShardPlan => {
+  const known = files.map(file => durations.get(file)).filter((value): value is number => value !== undefined)
+  const sortedKnown = [...known].sort((a, b) => a - b)
+  const fallback = sortedKnown.length > 0
+    ? sortedKnown[Math.floor(sortedKnown.length / 2)]
+    : DEFAULT_FILE_DURATION_MS
+
+  const unknownFiles = files.filter(file => !durations.has(file)).sort()
+  const estimated = files
+    .map(file => ({ file, duration: durations.get(file) ?? fallback }))
+    .sort((a, b) => b.duration - a.duration || a.file.localeCompare(b.file))
+
+  const shards: ShardAssignment[] = Array.from({ length: total }, () => ({ files: [], estimatedDuration: 0 }))
+
+  estimated.forEach(({ file, duration }) => {
+    const target = shards.reduce((lightest, shard) =>
+      shard.estimatedDuration < lightest.estimatedDuration ? shard : lightest
+    )
+    target.files.push(file)
+    target.estimatedDuration += duration
+  })
+
+  shards.forEach(shard => shard.files.sort())
+  return { shards, unknownFiles }
+}
+
+export const writeExecutionResult = (outputDir: string, stored: StoredExecutionResult) => {
+  writeFileSync(join(outputDir, EXECUTION_RESULT_FILE), JSON.stringify(stored, null, 2))
+}
+
+export const getShardDirName = (shard: ShardSpec): string => `shard-${shard.index}-of-${shard.total}`
+
+/**
+ * Removes a suite's stored results that would be merged with this shard's
+ * but belong to another run: its unsharded result and shards of a different
+ * split.
+ */
+export const removeStaleShardResults = (suiteDir: string, shard: ShardSpec) => {
+  if (!existsSync(suiteDir)) return
+
+  rmSync(join(suiteDir, EXECUTION_RESULT_FILE), { force: true })
+  readdirSync(suiteDir)
+    .filter(entry => /^shard-\d+-of-\d+$/.test(entry) && !entry.endsWith(`-of-${shard.total}`))
+    .forEach(entry => rmSync(join(suiteDir, entry), { recursive: true, force: true }))
+}
+
+// Finds every stored result below the given directories (e.g. downloaded CI artifacts)
+export const readExecutionResults = (
+  directories: string[]
+): Array<StoredExecutionResult & { dir: string }> => {
+  const found: Array<StoredExecutionResult & { dir: string }> = []
+
+  const visit = (dir: string) => {
+    if (!existsSync(dir)) return
+
+    readdirSync(dir).forEach(entry => {
+      const fullPath = join(dir, entry)
+      if (statSync(fullPath).isDirectory()) {
+        visit(fullPath)
+      } else if (entry === EXECUTION_RESULT_FILE) {
+        const stored = JSON.parse(readFileSync(fullPath, 'utf8')) as StoredExecutionResult
+        found.push({ ...stored, dir: dirname(fullPath) })
+      }
+    })
+  }
+
+  directories.forEach(visit)
+  return found
+}
+
+// Combines raw coverage maps; percentages cannot be averaged across shards
+const mergeCoverage = (coverageFiles: string[]): CoverageMap | undefined => {
+  const existing = coverageFiles.filter(file => existsSync(file))
+  if (existing.length === 0) return undefined
+
+  const coverageMap = createCoverageMap({})
+  existing.forEach(file => {
+    coverageMap.merge(JSON.parse(readFileSync(file, 'utf8')) as CoverageMapData)
+  })
+  return coverageMap
+}
+
+const summarizeCoverage = (coverageMap: CoverageMap) => {
+  const summary: CoverageSummary = { total: coverageMap.getCoverageSummary().toJSON() }
+  coverageMap.files().forEach(file => {
+    summary[file] = coverageMap.fileCoverageFor(file).toSummary().toJSON()
+  })
+
+  return parseCoverageSummary(summary)
+}
+
+const THRESHOLD_KEYS = ['statements', 'branches', 'lines', 'functions'] as const
+
+/**
+ * Jest's coverageThreshold check, for coverage merged from shards: each
+ * shard only runs part of the suite, so its own Jest run skips thresholds.
+ * Path entries apply to their files together, glob entries to each matching
+ * file, and `global` to the files no other entry matched. Messages are the
+ * ones Jest prints.
+ */
+export const checkCoverageThresholds = (
+  coverageMap: CoverageMap,
+  coverageThreshold: NonNullable<JestConfig['coverageThreshold']>,
+  rootDir: string = process.cwd()
+): string[] => {
+  const files = coverageMap.files().map(file => ({ file, path: toPosixPath(relative(rootDir, file)) }))
+  const grouped = new Set<string>()
+  const groups: Array<{ name: string; files: string[]; thresholds: Record<string, number> }> = []
+  const errors: string[] = []
+
+  Object.entries(coverageThreshold)
+    .filter(([key]) => key !== 'global')
+    .forEach(([key, thresholds]) => {
+      const target = stripRootDir(key).replace(/^\.\//, '')
+      let matches: typeof files
+
+      if (/[*?{}]/.test(key)) {
+        const pattern = new RegExp(`^${globToRegExpSource(target)}`)
+        matches = files.filter(({ path }) => pattern.test(path))
+        matches.forEach(({ file, path }) => groups.push({ name: path, files: [file], thresholds }))
+      } else {
+        const prefix = target.replace(/\/?$/, '/')
+        matches = files.filter(({ path }) => path === target || path.startsWith(prefix))
+        if (matches.length > 0) {
+          groups.push({ name: key, files: matches.map(({ file }) => file), thresholds })
+        }
+      }
+
+      if (matches.length === 0) {
+        errors.push(`Jest: Coverage data for ${key} was not found.`)
+      }
+      matches.forEach(({ file }) => grouped.add(file))
+    })
+
+  const remaining = files.filter(({ file }) => !grouped.has(file)).map(({ file }) => file)
+  if (coverageThreshold.global && remaining.length > 0) {
+    groups.unshift({ name: 'global', files: remaining, thresholds: coverageThreshold.global })
+  }
+
+  groups.forEach(({ name, files: groupFiles, thresholds }) => {
+    const summary = createCoverageSummary()
+    groupFiles.forEach(file => summary.merge(coverageMap.fileCoverageFor(file).toSummary()))
+
+    THRESHOLD_KEYS.forEach(key => {
+      const threshold = thresholds[key]
+      const { pct, total, covered } = summary[key]
+      if (threshold === undefined) return
+
+      // Negative thresholds are the number of uncovered entities allowed
+      if (threshold < 0) {
+        if (total - covered > -threshold) {
+          errors.push(`Jest: Uncovered count for ${key} (${total - covered}) exceeds ${name} threshold (${-threshold})`)
+        }
+      } else if (pct < threshold) {
+        errors.push(`Jest: "${name}" coverage threshold for ${key} (${threshold}%) not met: ${pct}%`)
+      }
+    })
+  })
+
+  return errors
+}
+
+// Every shard reports the same orphaned .snap files; unused keys are per test file
+const mergeObsoleteSnapshots = (results: TestExecutionResult[]): ObsoleteSnapshot[] | undefined => {
+  const byFile = new Map<string, ObsoleteSnapshot>()
+  results.forEach(result => {
+    ;(result.obsoleteSnapshots || []).forEach(entry => byFile.set(entry.file, entry))
+  })
+  return byFile.size > 0 ? Array.from(byFile.values()) : undefined
+}
+
+/**
+ * `coverageThreshold` is checked on the merged coverage of sharded runs;
+ * unsharded runs were already checked by Jest.
+ */
+export const mergeShardResults = (
+  shards: Array<{ result: TestExecutionResult; dir?: string }>,
+  options: { coverageThreshold?: JestConfig['coverageThreshold'] } = {}
+): TestExecutionResult => {
+  const results = shards.map(shard => shard.result)
+  const coverageMap = mergeCoverage(
+    shards
+      .filter(shard => shard.dir)
+      .map(shard => join(shard.dir!, 'coverage', 'coverage-final.json'))
+  )
+  const coverage = coverageMap && summarizeCoverage(coverageMap)
+  const thresholdErrors = coverageMap && options.coverageThreshold && results.some(result => result.shard)
+    ? checkCoverageThresholds(coverageMap, options.coverageThreshold)
+    : []
+
+  const startedAt = Math.min(...results.map(result => result.startedAt))
+  const finishedAt = Math.max(...results.map(result => result.finishedAt))
+
+  return {
+    success: results.every(result => result.success) && thresholdErrors.length === 0,
+    testsRun: results.reduce((sum, result) => sum + result.testsRun, 0),
+    testsPassed: results.reduce((sum, result) => sum + result.testsPassed, 0),
+    testsFailed: results.reduce((sum, result) => sum + result.testsFailed, 0),
+    testsSkipped: results.reduce((sum, result) => sum + result.testsSkipped, 0),
+    files: results.flatMap(result => result.files).sort((a, b) => a.path.localeCompare(b.path)),
+    coverage: coverage?.totals,
+    coverageByDirectory: coverage?.byDirectory,
+    // Summed machine time; wall clock comes from startedAt/finishedAt
+    duration: results.reduce((sum, result) => sum + result.duration, 0),
+    startedAt,
+    finishedAt,
+    cancelled: results.some(result => result.cancelled) || undefined,
+    qualityMetrics: results.some(result => result.qualityMetrics)
+      ? results.flatMap(result => result.qualityMetrics || [])
+      : undefined,
+    openHandles: results.some(result => result.openHandles)
+      ? results.flatMap(result => result.openHandles || [])
+      : undefined,
+    obsoleteSnapshots: mergeObsoleteSnapshots(results),
+    errors: [
+      ...results.flatMap(result => result.errors),
+      ...(thresholdErrors.length > 0 ? [thresholdErrors.join('\n')] : []),
+    ],
+  }
+}
+
+/**
+ * The stored results of one suite that form a single run. Shard results win
+ * over unsharded ones. `complete` requires exactly one result per shard of a
+ * single split (or one unsharded result); otherwise the most recent split is
+ * used and each shard's latest result.
+ */
+export const selectSuiteResults = <T extends { result: TestExecutionResult }>(
+  suite: string,
+  entries: T[],
+  options: { complete?: boolean } = {}
+): T[] => {
+  const sharded = entries.filter(entry => entry.result.shard)
+  const latestFirst = (a: T, b: T) => b.result.finishedAt - a.result.finishedAt
+
+  if (sharded.length === 0) {
+    if (options.complete && entries.length > 1) {
+      throw new Error(`Suite '${suite}' has ${entries.length} unsharded results; merge the results of one run`)
+    }
+    return [...entries].sort(latestFirst).slice(0, 1)
+  }
+
+  const totals = Array.from(new Set(sharded.map(entry => entry.result.shard!.total))).sort((a, b) => a - b)
+  if (options.complete && totals.length > 1) {
+    throw new Error(`Suite '${suite}' has shards of ${totals.map(total => `${total}-way`).join(' and ')} splits; merge the results of one run`)
+  }
+
+  const total = [...sharded].sort(latestFirst)[0].result.shard!.total
+  const byIndex = new Map<number, T[]>()
+  sharded
+    .filter(entry => entry.result.shard!.total === total)
+    .forEach(entry => byIndex.set(entry.result.shard!.index, [...(byIndex.get(entry.result.shard!.index) || []), entry]))
+
+  if (options.complete) {
+    const missing = Array.from({ length: total }, (_, index) => index + 1).filter(index => !byIndex.has(index))
+    if (missing.length > 0) {
+      throw new Error(
+        `Suite '${suite}' is missing shard ${missing.map(index => formatShardSpec({ index, total })).join(', ')}; ` +
+        'a shard whose results are missing would merge as a smaller passing run'
+      )
+    }
+
+    const duplicated = Array.from(byIndex.entries()).filter(([, group]) => group.length > 1)
+    if (duplicated.length > 0) {
+      throw new Error(
+        `Suite '${suite}' has more than one result for shard ` +
+        `${duplicated.map(([index]) => formatShardSpec({ index, total })).join(', ')}`
+      )
+    }
+  }
+
+  return Array.from(byIndex.keys())
+    .sort((a, b) => a - b)
+    .map(index => byIndex.get(index)!.sort(latestFirst)[0])
+}
+
+// Groups stored results by suite and merges each suite's run
+export const mergeStoredResults = (
+  stored: Array<StoredExecutionResult & { dir: string }>,
+  options: { complete?: boolean; coverageThreshold?: JestConfig['coverageThreshold'] } = {}
+): Map<string, TestExecutionResult> => {
+  const bySuite = new Map<string, Array<StoredExecutionResult & { dir: string }>>()
+  stored.forEach(entry => {
+    bySuite.set(entry.suite, [...(bySuite.get(entry.suite) || []), entry])
+  })
+
+  const merged = new Map<string, TestExecutionResult>()
+  Array.from(bySuite.keys()).sort().forEach(suite => {
+    merged.set(suite, mergeShardResults(selectSuiteResults(suite, bySuite.get(suite)!, options), options))
+  })
+  return merged
+}
@@ -0,0 +1,123 @@
+/**
+ * Test Tags
+ *
+ * Tags such as `@nfc`, `@ble`, `@seeker` or `@slow` live in test and
+ * describe titles, written by hand or appended by `taggedIt` and
+ * `taggedDescribe`. A test carries the tags of its own title and of every
+ * enclosing describe block, since Jest matches `--testNamePattern` against
+ * the full name. That lets the runner select tagged tests across suites.
+ */
+
+import { escapeRegExp } from './flaky-tests'
+import type { TestFileResult } from './jest-results'
+import type { TestExecutionResult } from './test-runner'
+
+export interface TagFilter {
+  // Tests with any of these tags
+  include?: string[]
+  // Minus tests with any of these
+  exclude?: string[]
+}
+
+export interface TagSummary {
+  tag: string
+  total: number
+  passed: number
+  failed: number
+  skipped: number
+  suites: string[]
+}
+
+const TAG_PATTERN = /(?:^|\s)@([\w-]+)/g
+
+export const normalizeTag = (tag: string): string => tag.trim().replace(/^@/, '').toLowerCase()
+
+export const parseTestTags = (name: string): string[] =>
+  Array.from(new Set(Array.from(name.matchAll(TAG_PATTERN), match => normalizeTag(match[1]))))
+
+export const withTags = (name: string, tags: string | string[]): string =>
+  [name, ...[tags].flat().map(tag => `@${normalizeTag(tag)}`)].join(' ')
+
+/**
+ * `it` with tags appended to its title, e.g.
+ * `taggedIt(['nfc', 'slow'], 'completes a tap payment', async () => {...})`
+ */
+export const taggedIt = (
+  tags: string | string[],
+  name: string,
+  fn?: jest.ProvidesCallback,
+  timeout?: number
+) => it(withTags(name, tags), fn, timeout)
+
+// Every test in the block inherits the tags
+export const taggedDescribe = (tags: string | string[], name: string, fn: jest.EmptyFunction) =>
+  describe(withTags(name, tags), fn)
+
+export const hasTagFilter = (filter?: TagFilter): filter is TagFilter =>
+  Boolean(filter && ((filter.include || []).length > 0 || (filter.exclude || []).length > 0))
+
+export const matchesTagFilter = (tags: string[], filter: TagFilter): boolean => {
+  const include = (filter.include || []).map(normalizeTag)
+  const exclude = (filter.exclude || []).map(normalizeTag)
+  return (include.length === 0 || include.some(tag => tags.includes(tag))) && !exclude.some(tag => tags.includes(tag))
+}
+
+// Jest compiles the pattern case-insensitively and tests it against the full name
+export const buildTagNamePattern = (filter: TagFilter): string => {
+  const reference = (tags: string[]) =>
+    `(?:^|\\s)@(?:${tags.map(tag => escapeRegExp(normalizeTag(tag))).join('|')})(?![\\w-])`
+
+  const include = filter.include || []
+  const exclude = filter.exclude || []
+
+  return `^${exclude.length > 0 ? `(?!.*${reference(exclude)})` : ''}${include.length > 0 ? `.*${reference(include)}` : ''}`
+}
+
+/**
+ * Whether a test file can contain tests with one of the included tags,
+ * either in a title or as a string passed to the tag helpers. Files that
+ * cannot are not started at all.
+ */
+export const mayContainTags = (source: string, filter: TagFilter): boolean => {
+  const include = filter.include || []
+  if (include.length === 0) return true
+
+  return include.some(tag => {
+    const name = escapeRegExp(normalizeTag(tag))
+    return new RegExp(`@${name}(?![\\w-])|['"\`]@?${name}['"\`]`, 'i').test(source)
+  })
+}
+
+// Drops tests Jest skipped only because they did not match the filter
+export const filterTestsByTags = (files: TestFileResult[], filter: TagFilter): TestFileResult[] =>
+  files
+    .map(file => ({ ...file, tests: file.tests.filter(test => matchesTagFilter(parseTestTags(test.fullName), filter)) }))
+    .filter(file => file.tests.length > 0 || file.failureMessage)
+
+export const summarizeTags = (results: Map<string, TestExecutionResult>): TagSummary[] => {
+  const summaries = new Map<string, TagSummary>()
+
+  results.forEach((result, suite) => {
+    result.files.forEach(file => {
+      file.tests.forEach(test => {
+        parseTestTags(test.fullName).forEach(tag => {
+          const summary = summaries.get(tag) || { tag, total: 0, passed: 0, failed: 0, skipped: 0, suites: [] }
+          summary.total++
+          summary[test.status]++
+          if (!summary.suites.includes(suite)) {
+            summary.suites.push(suite)
+          }
+          summaries.set(tag, summary)
+        })
+      })
+    })
+  })
+
+  return Array.from(summaries.values()).sort((a, b) => a.tag.localeCompare(b.tag))
+}
+
+export const describeTagFilter = (filter: TagFilter): string =>
+  [
+    ...(filter.include || []).map(tag => `@${normalizeTag(tag)}`),
+    ...(filter.exclude || []).map(tag => `not @${normalizeTag(tag)}`),
+  ].join(', ')
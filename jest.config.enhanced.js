@@ -96,7 +96,7 @@ module.exports = {
 
   // Test execution configuration
   testTimeout: 15000, // Increased for integration tests
-  maxWorkers: 1, // Maintain single worker for stability
+  maxWorkers: 1, // Single worker until `test-runner isolation` reports no leaks
   forceExit: true,
   detectOpenHandles: true,
   
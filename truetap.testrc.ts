@@ -0,0 +1,80 @@
+/**
+ * True Tap Test Runner Configuration
+ *
+ * Suites are derived from the `projects` in jest.config.enhanced.js.
+ * Entries here override a project's settings or add runner-only suites;
+ * `npm run test-runner validate` reports where they drift from Jest. The
+ * file is validated on load, and command-line flags override any setting.
+ */
+
+import type { RunnerConfig } from './__tests__/utils/runner-config'
+
+const MINUTE = 60 * 1000
+
+const config: RunnerConfig = {
+  jestConfig: 'jest.config.enhanced.js',
+
+  suites: {
+    // Payment and NFC flows wait on real timers and flake under load
+    integration: {
+      retry: { retries: 2 },
+    },
+
+    // Benchmarks are noisy under instrumentation
+    performance: {
+      coverage: false,
+    },
+
+    // Runner-only suites without a Jest project
+    components: {
+      name: 'Component Tests',
+      testMatch: ['<rootDir>/modelFront/__tests__/components/**/*.test.(ts|tsx)'],
+      timeout: 15000,
+    },
+
+    device: {
+      name: 'Device Compatibility Tests',
+      testMatch: ['<rootDir>/__tests__/device-compatibility/**/*.test.(ts|tsx)'],
+      timeout: 30000,
+      coverage: false,
+      // The tests render with @testing-library/react
+      environment: 'jsdom',
+      retry: { retries: 1 },
+    },
+  },
+
+  // Defaults for `all` and `affected`; e.g. `--parallel` overrides them
+  run: {
+    parallel: false,
+    failFast: false,
+  },
+
+  // CI phases from COMPREHENSIVE_TEST_STRATEGY.md; `npm run test-runner pipeline ci`
+  pipelines: {
+    ci: {
+      description: 'Fast feedback, comprehensive, then performance & device testing',
+      phases: [
+        {
+          name: 'Fast Feedback',
+          suites: ['unit', 'components'],
+          affected: true,
+          budget: 4 * MINUTE,
+        },
+        {
+          name: 'Comprehensive Testing',
+          suites: ['unit', 'integration', 'accessibility'],
+          budget: 10 * MINUTE,
+          parallel: true,
+        },
+        {
+          name: 'Performance & Device Testing',
+          suites: ['performance', 'device'],
+          budget: 20 * MINUTE,
+          parallel: true,
+        },
+      ],
+    },
+  },
+}
+
+export default config